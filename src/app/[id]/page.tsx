@@ -18,7 +18,22 @@ import { ArrowLeftIcon, ImageIcon, ArrowRightIcon } from '@shopify/polaris-icons
 import { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import apiClient from '@/lib/apiClient';
-import { usePropertyTypes } from '@/lib/hooks';
+import { useAuth, usePropertyTypes } from '@/lib/hooks';
+import {
+  PropertyAddress,
+  PropertyAttributes,
+  PropertyFieldChange,
+  PropertyPriceChange,
+  PropertyRevision,
+  PropertyRevisionAction,
+  PropertyStatus
+} from '@/types';
+import { getPropertyStatus, isOnMarket, statusLabels } from '@/lib/propertyStatus';
+import { recentlyReducedSince, reductionPercent } from '@/lib/priceHistory';
+import { canModifyProperty } from '@/lib/roles';
+import InquiryModal from '@/components/InquiryModal';
+import PriceHistoryChart from '@/components/PriceHistoryChart';
+import ViewingSlots from '@/components/ViewingSlots';
 
 interface Property {
   _id: string;
@@ -27,18 +42,54 @@ interface Property {
   price: number;
   description: string;
   images: string[];
+  address?: PropertyAddress;
+  attributes?: PropertyAttributes;
+  status?: PropertyStatus;
+  owner?: string;
+  priceHistory?: PropertyPriceChange[];
+  reduced_at?: string | Date | null;
+  reducedFrom?: number | null;
   created_at: string | Date;
 }
 
+const statusBadgeTones: Record<PropertyStatus, 'info' | 'attention' | 'critical' | 'new' | undefined> = {
+  draft: 'new',
+  published: undefined,
+  under_offer: 'attention',
+  sold: 'critical',
+  archived: undefined,
+};
+
+const revisionActionLabels: Record<PropertyRevisionAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  images: 'Images changed',
+  status: 'Status changed',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  purge: 'Purged',
+  revert: 'Reverted',
+};
+
+// Actions whose changes a revert can bring back
+const revertableActions: PropertyRevisionAction[] = ['create', 'update', 'revert'];
+
 export default function PropertyDetails() {
   const router = useRouter();
   const { propertyTypes } = usePropertyTypes();
+  const { user, can } = useAuth();
   
   const [property, setProperty] = useState<Property | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [propertyId, setPropertyId] = useState<string | null>(null);
+  const [history, setHistory] = useState<PropertyRevision[]>([]);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [inquiryOpen, setInquiryOpen] = useState(false);
+  const [watching, setWatching] = useState(false);
+  const [watchError, setWatchError] = useState<string | null>(null);
 
   // Get property ID from URL path
   useEffect(() => {
@@ -71,6 +122,18 @@ export default function PropertyDetails() {
     }
   }, [propertyId]);
 
+  const fetchHistory = useCallback(async () => {
+    if (!propertyId) return;
+
+    const response = await apiClient.getPropertyHistory(propertyId, { limit: 50 });
+    if (response.success && response.data) {
+      setHistory(response.data);
+      setActionError(null);
+    } else {
+      setActionError(response.error || 'Failed to load history');
+    }
+  }, [propertyId]);
+
   // Fetch property when propertyId is available
   useEffect(() => {
     if (propertyId) {
@@ -78,6 +141,79 @@ export default function PropertyDetails() {
     }
   }, [propertyId, fetchProperty]);
 
+  // Owners and admins manage the listing and see its history
+  const canManage = !!property && canModifyProperty(user, property);
+  const isOwner = !!user && !!property?.owner && property.owner === user._id;
+
+  useEffect(() => {
+    if (canManage) {
+      fetchHistory();
+    }
+  }, [canManage, fetchHistory]);
+
+  // Visitors can watch the price of listings on the market
+  const canWatch = !!property && isOnMarket(property) && !isOwner && can('priceWatches:manage');
+
+  useEffect(() => {
+    if (!canWatch || !propertyId) return;
+
+    apiClient.getPriceWatch(propertyId).then(response => {
+      if (response.success && response.data) {
+        setWatching(response.data.watching);
+      }
+    });
+  }, [canWatch, propertyId]);
+
+  const handleToggleWatch = useCallback(async () => {
+    if (!propertyId) return;
+
+    const response = watching
+      ? await apiClient.unwatchPrice(propertyId)
+      : await apiClient.watchPrice(propertyId);
+    if (response.success && response.data) {
+      setWatching(response.data.watching);
+      setWatchError(null);
+    } else {
+      setWatchError(response.error || 'Failed to update price watch');
+    }
+  }, [propertyId, watching]);
+
+  const handlePublish = useCallback(async () => {
+    if (!propertyId) return;
+
+    const response = await apiClient.publishProperty(propertyId);
+    if (response.success) {
+      await Promise.all([fetchProperty(), fetchHistory()]);
+    } else {
+      setActionError(response.error || 'Failed to publish property');
+    }
+  }, [propertyId, fetchProperty, fetchHistory]);
+
+  const handleMoveToTrash = useCallback(async () => {
+    if (!propertyId) return;
+
+    const response = await apiClient.deleteProperty(propertyId);
+    if (response.success) {
+      router.push('/');
+    } else {
+      setActionError(response.error || 'Failed to delete property');
+    }
+  }, [propertyId, router]);
+
+  const handleRevert = useCallback(async (revisionId: string) => {
+    if (!propertyId) return;
+
+    setRevertingId(revisionId);
+    const response = await apiClient.revertProperty(propertyId, revisionId);
+    setRevertingId(null);
+
+    if (response.success) {
+      await Promise.all([fetchProperty(), fetchHistory()]);
+    } else {
+      setActionError(response.error || 'Failed to revert property');
+    }
+  }, [propertyId, fetchProperty, fetchHistory]);
+
 
 
   const getPropertyTypeLabel = useCallback((typeId: string) => {
@@ -103,6 +239,51 @@ export default function PropertyDetails() {
     });
   }, []);
 
+  // Attribute values with the labels and units declared on the property type
+  const getAttributeRows = useCallback((typeId: string, attributes: PropertyAttributes = {}) => {
+    const propertyType = propertyTypes.find(type => type._id?.toString() === typeId);
+    return (propertyType?.attributes || [])
+      .filter(definition => attributes[definition.key] !== undefined)
+      .map(definition => {
+        const value = attributes[definition.key];
+        const display = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+        return {
+          key: definition.key,
+          label: definition.label,
+          value: definition.unit ? `${display} ${definition.unit}` : display,
+        };
+      });
+  }, [propertyTypes]);
+
+  const formatAddress = useCallback((address?: PropertyAddress) => {
+    if (!address) return '';
+    return [address.street, address.city, address.state, address.postalCode, address.country]
+      .filter(Boolean)
+      .join(', ');
+  }, []);
+
+  // Human-readable summary of a single field change
+  const formatChange = useCallback((change: PropertyFieldChange) => {
+    const formatValue = (field: string, value: unknown): string => {
+      if (value === null || value === undefined || value === '') return '—';
+      if (field === 'price' && typeof value === 'number') return formatPrice(value);
+      if (field === 'type' && typeof value === 'string') return getPropertyTypeLabel(value);
+      if (field === 'status' && typeof value === 'string') return statusLabels[value as PropertyStatus] || value;
+      if (field === 'images' && Array.isArray(value)) return `${value.length} image${value.length !== 1 ? 's' : ''}`;
+      if (field === 'address') return formatAddress(value as PropertyAddress) || '—';
+      if (field === 'location') return (value as { coordinates: number[] }).coordinates.join(', ');
+      if (typeof value === 'object') {
+        return Object.entries(value as Record<string, unknown>)
+          .map(([key, entry]) => `${key}: ${entry}`)
+          .join(', ') || '—';
+      }
+      const text = String(value);
+      return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+    };
+
+    return `${change.field}: ${formatValue(change.field, change.from)} → ${formatValue(change.field, change.to)}`;
+  }, [formatPrice, getPropertyTypeLabel, formatAddress]);
+
   const handleImageClick = useCallback((index: number) => {
     setSelectedImageIndex(index);
   }, []);
@@ -172,17 +353,32 @@ export default function PropertyDetails() {
     ? property.images[selectedImageIndex] 
     : null;
 
+  // The price before a drop in the last few weeks, shown struck through
+  const reducedFrom = property.reducedFrom && property.reduced_at
+    && new Date(property.reduced_at) >= recentlyReducedSince()
+    ? property.reducedFrom
+    : null;
+
+  // Listings stored before prices were recorded start at their current price
+  const priceHistory = property.priceHistory && property.priceHistory.length > 0
+    ? property.priceHistory
+    : [{ price: property.price, changed_at: property.created_at }];
+
   return (
     <Page
       backAction={{ content: 'Back to Properties', url: '/' }}
       title={property.title}
-      primaryAction={{
+      primaryAction={isOwner ? undefined : {
         content: 'Contact Owner',
-        onAction: () => {
-          // TODO: Implement contact functionality
-          console.log('Contact owner clicked');
-        }
+        onAction: () => setInquiryOpen(true)
       }}
+      secondaryActions={[
+        ...(canWatch ? [{ content: watching ? 'Watching price' : 'Watch price', onAction: handleToggleWatch }] : []),
+        ...(canManage ? [
+          ...(getPropertyStatus(property) === 'draft' ? [{ content: 'Publish', onAction: handlePublish }] : []),
+          { content: 'Move to trash', destructive: true, onAction: handleMoveToTrash }
+        ] : [])
+      ]}
     >
       <Layout>
         {/* Main Image Gallery */}
@@ -275,18 +471,61 @@ export default function PropertyDetails() {
                   <Text variant="headingLg" as="p" fontWeight="bold" tone="success">
                     {formatPrice(property.price)}
                   </Text>
+                  {reducedFrom && (
+                    <>
+                      <Text variant="bodyLg" as="p" tone="subdued" textDecorationLine="line-through">
+                        {formatPrice(reducedFrom)}
+                      </Text>
+                      <Badge tone="success">
+                        {`Reduced ${reductionPercent(reducedFrom, property.price)}%`}
+                      </Badge>
+                    </>
+                  )}
                   <Badge tone="info">
                     {getPropertyTypeLabel(property.type.toString())}
                   </Badge>
+                  {getPropertyStatus(property) !== 'published' && (
+                    <Badge tone={statusBadgeTones[getPropertyStatus(property)]}>
+                      {statusLabels[getPropertyStatus(property)]}
+                    </Badge>
+                  )}
                 </div>
               </div>
 
+              {formatAddress(property.address) && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <Text variant="bodyMd" as="p">
+                    {formatAddress(property.address)}
+                  </Text>
+                </div>
+              )}
+
               <div style={{ marginBottom: '1.5rem' }}>
                 <Text variant="bodyMd" as="p" tone="subdued">
                   {property.description}
                 </Text>
               </div>
 
+              {getAttributeRows(property.type.toString(), property.attributes).length > 0 && (
+                <div style={{
+                  marginBottom: '1.5rem',
+                  display: 'grid',
+                  gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))',
+                  gap: '0.75rem'
+                }}>
+                  {getAttributeRows(property.type.toString(), property.attributes).map(row => (
+                    <div key={row.key}>
+                      <Text variant="bodySm" as="p" tone="subdued">
+                        {row.label}
+                      </Text>
+                      <Text variant="bodyMd" as="p" fontWeight="semibold">
+                        {row.value}
+                      </Text>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div style={{ 
                 display: 'flex', 
                 justifyContent: 'space-between', 
@@ -308,6 +547,37 @@ export default function PropertyDetails() {
           </Card>
         </Layout.Section>
 
+        {/* Price History */}
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              <div style={{ marginBottom: '1rem' }}>
+                <Text variant="headingMd" as="h3">
+                  Price History
+                </Text>
+              </div>
+
+              {watchError && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <Banner tone="critical" onDismiss={() => setWatchError(null)}>
+                    <p>{watchError}</p>
+                  </Banner>
+                </div>
+              )}
+
+              {watching && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <Banner tone="info">
+                    <p>You are watching this price and will be notified when it drops.</p>
+                  </Banner>
+                </div>
+              )}
+
+              <PriceHistoryChart history={priceHistory} />
+            </div>
+          </Card>
+        </Layout.Section>
+
         {/* Thumbnail Gallery */}
         {property.images && property.images.length > 1 && (
           <Layout.Section>
@@ -344,6 +614,66 @@ export default function PropertyDetails() {
           </Layout.Section>
         )}
 
+        {/* Revision History */}
+        {canManage && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: '1rem' }}>
+                <div style={{ marginBottom: '1rem' }}>
+                  <Text variant="headingMd" as="h3">
+                    History
+                  </Text>
+                </div>
+
+                {actionError && (
+                  <div style={{ marginBottom: '1rem' }}>
+                    <Banner tone="critical" onDismiss={() => setActionError(null)}>
+                      <p>{actionError}</p>
+                    </Banner>
+                  </div>
+                )}
+
+                {history.length === 0 ? (
+                  <Text variant="bodyMd" as="p" tone="subdued">
+                    No changes recorded yet.
+                  </Text>
+                ) : (
+                  <div style={{ borderLeft: '2px solid #e1e3e5', paddingLeft: '1rem' }}>
+                    {history.map((revision, index) => (
+                      <div key={revision._id} style={{ marginBottom: '1rem' }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+                          <Text variant="bodyMd" as="p" fontWeight="semibold">
+                            {revisionActionLabels[revision.action]}
+                            {revision.actor ? ` by ${revision.actor.name}` : ''}
+                          </Text>
+                          {index > 0 && revertableActions.includes(revision.action) && (
+                            <Button
+                              size="slim"
+                              onClick={() => handleRevert(revision._id)}
+                              loading={revertingId === revision._id}
+                              disabled={revertingId !== null}
+                            >
+                              Revert to this version
+                            </Button>
+                          )}
+                        </div>
+                        <Text variant="bodySm" as="p" tone="subdued">
+                          {new Date(revision.created_at).toLocaleString('en-US')}
+                        </Text>
+                        {revision.changes.map(change => (
+                          <Text key={change.field} variant="bodySm" as="p">
+                            {formatChange(change)}
+                          </Text>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+
         {/* Contact Information */}
         <Layout.Section>
           <Card>
@@ -359,17 +689,34 @@ export default function PropertyDetails() {
               </Banner>
               
               <div style={{ marginTop: '1rem', display: 'flex', gap: '1rem' }}>
-                <Button variant="primary" fullWidth>
+                <Button variant="primary" fullWidth onClick={() => setInquiryOpen(true)} disabled={isOwner}>
                   Contact Owner
                 </Button>
-                <Button variant="secondary" fullWidth>
+                <Button
+                  variant="secondary"
+                  fullWidth
+                  onClick={() => document.getElementById('viewings')?.scrollIntoView({ behavior: 'smooth' })}
+                >
                   Schedule Viewing
                 </Button>
               </div>
             </div>
           </Card>
         </Layout.Section>
+
+        {/* Viewings */}
+        <Layout.Section>
+          <ViewingSlots propertyId={property._id} canManage={canManage} isOwner={isOwner} />
+        </Layout.Section>
       </Layout>
+
+      <InquiryModal
+        open={inquiryOpen}
+        onClose={() => setInquiryOpen(false)}
+        propertyId={property._id}
+        propertyTitle={property.title}
+        defaults={user ? { name: user.name, email: user.email } : undefined}
+      />
     </Page>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,222 @@
+"use client"
+
+import { Badge, Banner, Card, Layout, Page, Spinner, Text } from '@shopify/polaris';
+import { useEffect, useState } from 'react';
+import apiClient from '@/lib/apiClient';
+import type { JsonSchema, OpenApiDocument, OpenApiOperation } from '@/lib/openapi';
+
+const methodTones: Record<string, 'info' | 'success' | 'attention' | 'warning' | 'critical'> = {
+  get: 'info',
+  post: 'success',
+  put: 'attention',
+  patch: 'warning',
+  delete: 'critical',
+};
+
+const rowStyle = {
+  display: 'flex',
+  gap: '1rem',
+  padding: '0.5rem 0',
+  borderBottom: '1px solid #e1e3e5'
+};
+
+function refName(ref: string): string {
+  return ref.split('/').pop() || ref;
+}
+
+// Short, readable type of a schema, e.g. "integer, 1 to 100" or "PropertyType[]"
+function describeType(schema: JsonSchema | undefined): string {
+  if (!schema) return 'any';
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.allOf?.[0]?.$ref) return refName(schema.allOf[0].$ref);
+  if (schema.type === 'array') return `${describeType(schema.items)}[]`;
+  if (schema.enum) return schema.enum.join(' | ');
+
+  const constraints: string[] = [];
+  if (schema.minimum !== undefined && schema.maximum !== undefined) {
+    constraints.push(`${schema.minimum} to ${schema.maximum}`);
+  } else if (schema.minimum !== undefined) {
+    constraints.push(`at least ${schema.minimum}`);
+  } else if (schema.maximum !== undefined) {
+    constraints.push(`at most ${schema.maximum}`);
+  }
+  if (schema.exclusiveMinimum !== undefined) constraints.push(`above ${schema.exclusiveMinimum}`);
+  if (schema.maxLength !== undefined) constraints.push(`max ${schema.maxLength} characters`);
+  if (schema.default !== undefined) constraints.push(`default ${JSON.stringify(schema.default)}`);
+
+  return [schema.type || 'any', ...constraints].join(', ');
+}
+
+function FieldRow({ name, schema, required, description }: {
+  name: string;
+  schema: JsonSchema;
+  required: boolean;
+  description?: string;
+}) {
+  return (
+    <div style={rowStyle}>
+      <div style={{ minWidth: '12rem' }}>
+        <code>{name}</code>
+        {required && <Text as="span" tone="critical"> *</Text>}
+      </div>
+      <div>
+        <Text variant="bodySm" as="p">{describeType(schema)}</Text>
+        {(description || schema.description) && (
+          <Text variant="bodySm" as="p" tone="subdued">{description || schema.description}</Text>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Operation({ method, path, operation, spec }: {
+  method: string;
+  path: string;
+  operation: OpenApiOperation;
+  spec: OpenApiDocument;
+}) {
+  // Request bodies are references to a component schema
+  const bodyContent = operation.requestBody && Object.values(operation.requestBody.content)[0];
+  const bodySchema = bodyContent?.schema.$ref
+    ? spec.components.schemas[refName(bodyContent.schema.$ref)]
+    : bodyContent?.schema;
+  const bodyRequired: string[] = bodySchema?.required || [];
+  const security = operation.security || spec.security;
+  const isPublic = security.some(requirement => Object.keys(requirement).length === 0);
+  const acceptsApiKey = security.some(requirement => 'apiKey' in requirement);
+
+  return (
+    <div style={{ padding: '1rem 0', borderBottom: '1px solid #e1e3e5' }}>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+        <Badge tone={methodTones[method]}>{method.toUpperCase()}</Badge>
+        <code>/api{path}</code>
+        {!isPublic && <Badge>{acceptsApiKey ? 'Sign-in or API key' : 'Sign-in'}</Badge>}
+      </div>
+      <div style={{ marginTop: '0.5rem' }}>
+        <Text variant="bodyMd" as="p" fontWeight="semibold">{operation.summary}</Text>
+        {operation.description && (
+          <Text variant="bodySm" as="p" tone="subdued">{operation.description}</Text>
+        )}
+      </div>
+
+      {operation.parameters && operation.parameters.length > 0 && (
+        <div style={{ marginTop: '0.75rem' }}>
+          <Text variant="headingSm" as="h4">Parameters</Text>
+          {operation.parameters.map(parameter => (
+            <FieldRow
+              key={`${parameter.in}-${parameter.name}`}
+              name={parameter.in === 'path' ? `{${parameter.name}}` : parameter.name}
+              schema={parameter.schema}
+              required={parameter.required}
+              description={parameter.description}
+            />
+          ))}
+        </div>
+      )}
+
+      {bodySchema?.properties && (
+        <div style={{ marginTop: '0.75rem' }}>
+          <Text variant="headingSm" as="h4">
+            Body{bodyContent?.schema.$ref ? ` (${refName(bodyContent.schema.$ref)})` : ''}
+          </Text>
+          {Object.entries(bodySchema.properties as Record<string, JsonSchema>).map(([name, schema]) => (
+            <FieldRow key={name} name={name} schema={schema} required={bodyRequired.includes(name)} />
+          ))}
+        </div>
+      )}
+
+      <div style={{ marginTop: '0.75rem' }}>
+        <Text variant="headingSm" as="h4">Responses</Text>
+        <Text variant="bodySm" as="p" tone="subdued">
+          {Object.keys(operation.responses).join(', ')}
+        </Text>
+      </div>
+    </div>
+  );
+}
+
+export default function ApiDocs() {
+  const [spec, setSpec] = useState<OpenApiDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiClient.getOpenApiDocument().then(response => {
+      if (response.success && response.data) {
+        setSpec(response.data);
+      } else {
+        setError(response.error || 'Failed to load the API reference');
+      }
+    });
+  }, []);
+
+  const errorCodes: string[] = spec?.components.schemas.ErrorCode?.description?.split('\n') || [];
+
+  return (
+    <Page
+      backAction={{ content: 'Home', url: '/' }}
+      title="API Reference"
+      subtitle={spec ? `${spec.info.title} ${spec.info.version}` : undefined}
+      secondaryActions={[{ content: 'openapi.json', url: '/api/openapi.json', external: true }]}
+    >
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical">
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {!spec && !error && (
+          <Layout.Section>
+            <div style={{ textAlign: 'center', padding: '4rem' }}>
+              <Spinner size="large" />
+            </div>
+          </Layout.Section>
+        )}
+
+        {spec?.tags.map(tag => (
+          <Layout.Section key={tag.name}>
+            <Card>
+              <div style={{ padding: '1rem' }}>
+                <Text variant="headingMd" as="h2">{tag.name}</Text>
+                <Text variant="bodySm" as="p" tone="subdued">{tag.description}</Text>
+                {Object.entries(spec.paths).flatMap(([path, operations]) =>
+                  Object.entries(operations)
+                    .filter(([, operation]) => operation.tags.includes(tag.name))
+                    .map(([method, operation]) => (
+                      <Operation
+                        key={`${method}-${path}`}
+                        method={method}
+                        path={path}
+                        operation={operation}
+                        spec={spec}
+                      />
+                    ))
+                )}
+              </div>
+            </Card>
+          </Layout.Section>
+        ))}
+
+        {errorCodes.length > 0 && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: '1rem' }}>
+                <Text variant="headingMd" as="h2">Error codes</Text>
+                <Text variant="bodySm" as="p" tone="subdued">
+                  Failed responses carry one of these codes, along with a human readable error message.
+                </Text>
+                {errorCodes.map(line => (
+                  <div key={line} style={rowStyle}>
+                    <Text variant="bodySm" as="p">{line.replace(/^- /, '').replace(/`/g, '')}</Text>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { Badge, Banner, Button, Card, Checkbox, FormLayout, Layout, Page, Spinner, Text, TextField } from '@shopify/polaris';
+import { useCallback, useEffect, useState } from 'react';
+import apiClient from '@/lib/apiClient';
+import { useAuth } from '@/lib/hooks';
+import { apiKeyScopeLabels, apiKeyScopes } from '@/lib/roles';
+import { ApiKeyInfo, ApiKeyScope } from '@/types';
+
+export default function ApiKeys() {
+  const { loading: authLoading, can } = useAuth();
+  const [apiKeys, setApiKeys] = useState<ApiKeyInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['listings:read']);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const canManageKeys = can('apiKeys:manage');
+
+  const fetchApiKeys = useCallback(async () => {
+    setLoading(true);
+    const response = await apiClient.getApiKeys();
+    if (response.success && response.data) {
+      setApiKeys(response.data);
+    } else {
+      setError(response.error || 'Failed to load API keys');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (canManageKeys) {
+      fetchApiKeys();
+    }
+  }, [canManageKeys, fetchApiKeys]);
+
+  const toggleScope = useCallback((scope: ApiKeyScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(entry => entry !== scope));
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    setError(null);
+    setCreatedKey(null);
+
+    const response = await apiClient.createApiKey({ name: name.trim(), scopes });
+    if (response.success && response.data) {
+      const { key, ...apiKey } = response.data;
+      setCreatedKey(key);
+      setApiKeys(prev => [apiKey, ...prev]);
+      setName('');
+    } else {
+      setError(response.error || 'Failed to create API key');
+    }
+  }, [name, scopes]);
+
+  const handleRevoke = useCallback(async (id: string) => {
+    setError(null);
+
+    const response = await apiClient.revokeApiKey(id);
+    if (response.success && response.data) {
+      setApiKeys(prev => prev.map(apiKey => apiKey._id === id ? response.data! : apiKey));
+    } else {
+      setError(response.error || 'Failed to revoke API key');
+    }
+  }, []);
+
+  if (authLoading) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="API keys">
+        <div style={{ textAlign: 'center', padding: '4rem' }}>
+          <Spinner size="large" />
+        </div>
+      </Page>
+    );
+  }
+
+  if (!canManageKeys) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="API keys">
+        <Banner tone="warning">
+          <p>Only agents and admins can create API keys.</p>
+        </Banner>
+      </Page>
+    );
+  }
+
+  return (
+    <Page backAction={{ content: 'Home', url: '/' }} title="API keys">
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" onDismiss={() => setError(null)}>
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {createdKey && (
+          <Layout.Section>
+            <Banner tone="success" title="Copy your new API key now" onDismiss={() => setCreatedKey(null)}>
+              <p>It will not be shown again. Send it as <code>Authorization: Bearer &lt;key&gt;</code>.</p>
+              <p style={{ fontFamily: 'monospace', wordBreak: 'break-all', marginTop: '0.5rem' }}>{createdKey}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              <FormLayout>
+                <TextField
+                  label="Name"
+                  value={name}
+                  onChange={setName}
+                  placeholder="e.g. CRM sync"
+                  autoComplete="off"
+                />
+                {apiKeyScopes.filter(scope => can(scope)).map(scope => (
+                  <Checkbox
+                    key={scope}
+                    label={apiKeyScopeLabels[scope]}
+                    checked={scopes.includes(scope)}
+                    onChange={checked => toggleScope(scope, checked)}
+                  />
+                ))}
+                <Button
+                  variant="primary"
+                  onClick={handleCreate}
+                  disabled={!name.trim() || scopes.length === 0}
+                >
+                  Create API key
+                </Button>
+              </FormLayout>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              {loading ? (
+                <div style={{ textAlign: 'center', padding: '2rem' }}>
+                  <Spinner size="large" />
+                </div>
+              ) : apiKeys.length === 0 ? (
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  No API keys yet.
+                </Text>
+              ) : (
+                apiKeys.map(apiKey => (
+                  <div
+                    key={apiKey._id}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      gap: '1rem',
+                      padding: '0.75rem 0',
+                      borderBottom: '1px solid #e1e3e5'
+                    }}
+                  >
+                    <div>
+                      <Text variant="bodyMd" as="p" fontWeight="semibold">
+                        {apiKey.name} <span style={{ fontFamily: 'monospace' }}>{apiKey.keyId}_…</span>
+                      </Text>
+                      <div style={{ display: 'flex', gap: '0.25rem', margin: '0.25rem 0' }}>
+                        {apiKey.scopes.map(scope => (
+                          <Badge key={scope}>{apiKeyScopeLabels[scope]}</Badge>
+                        ))}
+                      </div>
+                      <Text variant="bodySm" as="p" tone="subdued">
+                        {apiKey.lastUsedAt
+                          ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString('en-US')}`
+                          : 'Never used'}
+                      </Text>
+                    </div>
+                    {apiKey.revoked_at ? (
+                      <Badge tone="critical">Revoked</Badge>
+                    ) : (
+                      <Button tone="critical" onClick={() => handleRevoke(apiKey._id)}>
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { toApiKeyInfo } from '@/lib/apiKeys';
+import { ApiKey } from '@/models/ApiKey';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'apiKeys:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+
+    const apiKey = await ApiKey.findOne({ _id: id, user: user._id });
+    if (!apiKey) {
+      return errorResponse('API_KEY_NOT_FOUND');
+    }
+
+    // Revoked keys are kept so their last use stays visible
+    if (!apiKey.revoked_at) {
+      apiKey.revoked_at = new Date();
+      await apiKey.save();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toApiKeyInfo(apiKey),
+      message: 'API key revoked'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error revoking API key');
+  }
+}
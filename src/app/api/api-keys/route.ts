@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { createApiKeySchema, generateApiKey, toApiKeyInfo } from '@/lib/apiKeys';
+import { hasPermission } from '@/lib/roles';
+import { validate } from '@/lib/schema';
+import { ApiKey, IApiKey } from '@/models/ApiKey';
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'apiKeys:manage');
+    if (authError) {
+      return authError;
+    }
+
+    // Newest first, revoked keys stay listed for reference
+    const apiKeys = await ApiKey.find({ user: user._id }).sort({ created_at: -1 });
+
+    return NextResponse.json({
+      success: true,
+      data: apiKeys.map((apiKey: IApiKey) => toApiKeyInfo(apiKey))
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching API keys');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'apiKeys:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { data, errors } = validate(createApiKeySchema, await request.json());
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+    const { name, scopes } = data;
+
+    // A key cannot do more than its owner
+    const deniedScope = scopes.find(scope => !hasPermission(user.role, scope));
+    if (deniedScope) {
+      return errorResponse('FORBIDDEN', `Your role does not allow the ${deniedScope} scope`);
+    }
+
+    const { key, keyId, keyHash } = generateApiKey();
+    const apiKey = await ApiKey.create({
+      name,
+      keyId,
+      keyHash,
+      scopes: [...new Set(scopes)],
+      user: user._id
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...toApiKeyInfo(apiKey), key },
+      message: 'API key created, copy it now as it will not be shown again'
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleApiError(error, 'Error creating API key');
+  }
+}
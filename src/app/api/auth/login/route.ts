@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
+import { validate } from '@/lib/schema';
+import { User } from '@/models/User';
+import { hashPassword, loginSchema, startSession, toAuthUser, verifyPassword } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const limited = await rateLimit(request, 'auth.login');
+    if (limited) {
+      return limited;
+    }
+
+    const { response: authError } = await authorize(request, 'session:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { data, errors } = validate(loginSchema, await request.json());
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const user = await User.findOne({ email: data.email }).select('+passwordHash');
+
+    let valid = false;
+    if (user) {
+      valid = await verifyPassword(data.password, user.passwordHash);
+    } else {
+      // Hash anyway so response times do not reveal which emails have accounts
+      await hashPassword(data.password);
+    }
+
+    if (!user || !valid) {
+      return errorResponse('INVALID_CREDENTIALS');
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      data: toAuthUser(user),
+      message: 'Signed in successfully'
+    });
+
+    await startSession(response, user._id);
+
+    return response;
+
+  } catch (error) {
+    return handleApiError(error, 'Error signing in');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { endSession } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { response: authError } = await authorize(request, 'session:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Signed out successfully'
+    });
+
+    await endSession(request, response);
+
+    return response;
+
+  } catch (error) {
+    return handleApiError(error, 'Error signing out');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { handleApiError } from '@/lib/apiResponses';
+import { toAuthUser } from '@/lib/auth';
+import { authorize } from '@/lib/authorization';
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'account:read');
+    if (authError) {
+      return authError;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toAuthUser(user)
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching current user');
+  }
+}
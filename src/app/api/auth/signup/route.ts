@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
+import { validate } from '@/lib/schema';
+import { User } from '@/models/User';
+import { hashPassword, isAdminEmail, signupSchema, startSession, toAuthUser } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const limited = await rateLimit(request, 'auth.signup');
+    if (limited) {
+      return limited;
+    }
+
+    const { response: authError } = await authorize(request, 'session:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { data, errors } = validate(signupSchema, await request.json());
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const existing = await User.exists({ email: data.email });
+    if (existing) {
+      return errorResponse('EMAIL_TAKEN');
+    }
+
+    const user = await User.create({
+      email: data.email,
+      name: data.name,
+      // Everyone starts as a viewer, admins promote agents
+      role: isAdminEmail(data.email) ? 'admin' : 'viewer',
+      passwordHash: await hashPassword(data.password)
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      data: toAuthUser(user),
+      message: 'Account created successfully'
+    }, { status: 201 });
+
+    await startSession(response, user._id);
+
+    return response;
+
+  } catch (error) {
+    // Duplicate key from a concurrent sign-up with the same email
+    if ((error as { code?: number }).code === 11000) {
+      return errorResponse('EMAIL_TAKEN');
+    }
+
+    return handleApiError(error, 'Error signing up');
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { hasPermission } from '@/lib/roles';
+import { updateInquirySchema } from '@/lib/inquiries';
+import { validate } from '@/lib/schema';
+import { Inquiry } from '@/models/Inquiry';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'inquiries:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+
+    const { data, errors } = validate(updateInquirySchema, await request.json());
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+    if (data.read === undefined && data.replied === undefined) {
+      return errorResponse('INVALID_REQUEST', 'No fields to update');
+    }
+
+    // Inquiries about other agents' listings are reported as missing
+    const inquiry = await Inquiry.findById(id).populate('property', 'title');
+    if (!inquiry || (
+      !hasPermission(user.role, 'listings:moderate') && String(inquiry.owner) !== String(user._id)
+    )) {
+      return errorResponse('INQUIRY_NOT_FOUND');
+    }
+
+    const now = new Date();
+    if (data.read !== undefined) {
+      inquiry.read_at = data.read ? inquiry.read_at || now : null;
+    }
+    if (data.replied !== undefined) {
+      inquiry.replied_at = data.replied ? inquiry.replied_at || now : null;
+    }
+    // A replied inquiry has been read
+    if (inquiry.replied_at && !inquiry.read_at) {
+      inquiry.read_at = inquiry.replied_at;
+    }
+
+    await inquiry.save();
+
+    return NextResponse.json({
+      success: true,
+      data: inquiry,
+      message: 'Inquiry updated successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error updating inquiry');
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { ensureConnection } from '@/lib/db';
+import { handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { hasPermission } from '@/lib/roles';
+import { validate } from '@/lib/schema';
+import { inquiryQuerySchema } from '@/lib/inquiries';
+import { Inquiry } from '@/models/Inquiry';
+import { InquiryState } from '@/types';
+
+const stateFilters: Record<InquiryState, Record<string, unknown>> = {
+  new: { read_at: null, replied_at: null },
+  read: { read_at: { $ne: null }, replied_at: null },
+  replied: { replied_at: { $ne: null } },
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'inquiries:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { data: params, errors } = validate(inquiryQuerySchema, Object.fromEntries(searchParams));
+    if (errors || !params) {
+      return validationErrorResponse(errors || {});
+    }
+    const { page, limit } = params;
+
+    // Agents see inquiries about their own listings, admins see every inquiry
+    const filter: Record<string, unknown> = {};
+    if (!hasPermission(user.role, 'listings:moderate')) {
+      filter.owner = user._id;
+    }
+    if (params.property) {
+      filter.property = new mongoose.Types.ObjectId(params.property);
+    }
+
+    const query = params.state ? { ...filter, ...stateFilters[params.state] } : filter;
+
+    const [inquiries, total, newCount] = await Promise.all([
+      Inquiry.find(query)
+        .populate('property', 'title')
+        .sort({ created_at: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Inquiry.countDocuments(query),
+      Inquiry.countDocuments({ ...filter, ...stateFilters.new })
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: inquiries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      },
+      unread: newCount
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching inquiries');
+  }
+}
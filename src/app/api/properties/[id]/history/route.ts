@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize, authorizeProperty } from '@/lib/authorization';
+import { historyQuerySchema } from '@/lib/propertySchemas';
+import { validate } from '@/lib/schema';
+import { Property } from '@/models/Property';
+import { PropertyRevision } from '@/models/PropertyRevision';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:write');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const { data: pageParams, errors } = validate(historyQuerySchema, Object.fromEntries(searchParams));
+    if (errors || !pageParams) {
+      return validationErrorResponse(errors || {});
+    }
+    const { page, limit } = pageParams;
+
+    // History stays readable while the listing is in the trash
+    const property = await Property.findById(id).setOptions({ withDeleted: true });
+    if (!property) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    const accessError = authorizeProperty(user, property);
+    if (accessError) {
+      return accessError;
+    }
+
+    const query = { property: id };
+
+    // Newest first
+    const [revisions, total] = await Promise.all([
+      PropertyRevision.find(query)
+        .sort({ created_at: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('actor', 'name')
+        .lean(),
+      PropertyRevision.countDocuments(query)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: revisions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching property history');
+  }
+}
@@ -1,51 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize, authorizeProperty } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
 import { Property } from '@/models/Property';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { v4 as uuidv4 } from 'uuid';
-
-// Initialize Cloudflare R2 client
-const bucketName = process.env.CLOUDFLARE_R2_BUCKET_NAME || 'propertio';
-const accountId = process.env.CLOUDFLARE_R2_ACCOUNT_ID;
-const accessKeyId = process.env.CLOUDFLARE_R2_ACCESS_KEY_ID;
-const secretAccessKey = process.env.CLOUDFLARE_R2_SECRET_ACCESS_KEY;
-const region = process.env.CLOUDFLARE_R2_REGION || 'auto';
-const publicDomain = process.env.CLOUDFLARE_R2_PUBLIC_DOMAIN || 'propertio.tscblogs.com';
-
-const s3Client = new S3Client({
-  region,
-  endpoint: `https://${accountId}.r2.cloudflarestorage.com`,
-  credentials: {
-    accessKeyId: accessKeyId!,
-    secretAccessKey: secretAccessKey!,
-  },
-});
-
-async function uploadImage(blob: Blob, propertyId: string, fileName: string): Promise<string> {
-  const buffer = Buffer.from(await blob.arrayBuffer());
-  
-  // Determine file extension from blob type
-  let extension = 'png'; // default
-  if (blob.type.includes('jpeg') || blob.type.includes('jpg')) {
-    extension = 'jpg';
-  } else if (blob.type.includes('webp')) {
-    extension = 'webp';
-  } else if (blob.type.includes('gif')) {
-    extension = 'gif';
-  }
-  
-  const key = `${propertyId}/${fileName}.${extension}`;
-  const command = new PutObjectCommand({
-    Bucket: bucketName,
-    Key: key,
-    Body: buffer,
-    ContentType: blob.type || "image/png",
-    CacheControl: 'public, max-age=31536000', // Cache for 1 year
-  });
-    
-  await s3Client.send(command);
-  return `https://${publicDomain}/${key}`;
-}
+import { isR2Configured, uploadImage } from '@/lib/r2';
+import { recordRevision } from '@/lib/revisions';
+import { readFormData } from '@/lib/requestBody';
+import { MAX_IMAGE_BYTES, MAX_IMAGES_PER_REQUEST, MAX_REQUEST_BYTES } from '@/lib/imageLimits';
 
 export async function POST(
   request: NextRequest,
@@ -54,32 +17,47 @@ export async function POST(
   try {
     await ensureConnection();
 
+    const { user, response: authError } = await authorize(request, 'images:upload');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.images', user);
+    if (limited) {
+      return limited;
+    }
+
     const { id: propertyId } = await params;
 
     // Check if property exists
     const property = await Property.findById(propertyId);
     if (!property) {
-      return NextResponse.json(
-        { success: false, error: 'Property not found' },
-        { status: 404 }
-      );
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    const accessError = authorizeProperty(user, property);
+    if (accessError) {
+      return accessError;
     }
 
-    const formData = await request.formData();
+    // Oversized bodies are rejected while they stream in
+    const formData = await readFormData(request, MAX_REQUEST_BYTES);
     const images = formData.getAll('images') as File[];
 
     if (!images || images.length === 0) {
-      return NextResponse.json(
-        { success: false, error: 'No images provided' },
-        { status: 400 }
-      );
+      return errorResponse('INVALID_REQUEST', 'No images provided');
     }
 
-    if (!accountId || !accessKeyId || !secretAccessKey) {
-      return NextResponse.json(
-        { success: false, error: 'Cloudflare R2 configuration missing' },
-        { status: 500 }
-      );
+    if (images.length > MAX_IMAGES_PER_REQUEST) {
+      return errorResponse('PAYLOAD_TOO_LARGE', `At most ${MAX_IMAGES_PER_REQUEST} images can be uploaded at once`);
+    }
+
+    if (images.some(image => image.size > MAX_IMAGE_BYTES)) {
+      return errorResponse('PAYLOAD_TOO_LARGE', `Images must be at most ${MAX_IMAGE_BYTES / 1024 / 1024}MB each`);
+    }
+
+    if (!isR2Configured()) {
+      return errorResponse('STORAGE_NOT_CONFIGURED');
     }
 
     const uploadedUrls: string[] = [];
@@ -109,11 +87,25 @@ export async function POST(
 
     // Update property with new image URLs using atomic operation
     if (uploadedUrls.length > 0) {
-      await Property.findByIdAndUpdate(
+      const updated = await Property.findByIdAndUpdate(
         propertyId,
         { $push: { images: { $each: uploadedUrls } } },
         { new: true }
       );
+
+      // Uploads run concurrently, so derive the previous list from the updated one
+      if (updated) {
+        await recordRevision({
+          property: updated,
+          action: 'images',
+          changes: [{
+            field: 'images',
+            from: updated.images.filter((url: string) => !uploadedUrls.includes(url)),
+            to: updated.images
+          }],
+          actor: user
+        });
+      }
     }
 
     return NextResponse.json({
@@ -125,10 +117,6 @@ export async function POST(
     });
 
   } catch (error) {
-    console.error('Error uploading images:', error);
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleApiError(error, 'Error uploading images');
   }
 } 
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
+import { validate } from '@/lib/schema';
+import { contactTimeLabels, inquirySchema } from '@/lib/inquiries';
+import { getNotifier } from '@/lib/notifier';
+import { isOnMarket } from '@/lib/propertyStatus';
+import { IInquiry, Inquiry } from '@/models/Inquiry';
+import { IProperty, Property } from '@/models/Property';
+import { User } from '@/models/User';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const limited = await rateLimit(request, 'inquiries.create');
+    if (limited) {
+      return limited;
+    }
+
+    const { response: authError } = await authorize(request, 'listings:read');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const body: unknown = await request.json();
+
+    // Bots fill in the hidden website field, they get a normal looking
+    // response but nothing is stored. Bodies that are not objects fail validation below
+    const website = typeof body === 'object' && body !== null ? (body as { website?: unknown }).website : undefined;
+    if (typeof website === 'string' && website.trim() !== '') {
+      return NextResponse.json({
+        success: true,
+        message: 'Inquiry sent successfully'
+      }, { status: 201 });
+    }
+
+    const property = await Property.findById(id);
+    if (!property || !isOnMarket(property)) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    const { data, errors } = validate(inquirySchema, body);
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const inquiry = await Inquiry.create({
+      ...data,
+      property: property._id,
+      owner: property.owner || null
+    });
+
+    // The owner is told after the response is sent
+    after(() => notifyOwner(inquiry, property, process.env.APP_URL || new URL(request.url).origin));
+
+    return NextResponse.json({
+      success: true,
+      data: { _id: inquiry._id },
+      message: 'Inquiry sent successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleApiError(error, 'Error sending inquiry');
+  }
+}
+
+async function notifyOwner(inquiry: IInquiry, property: IProperty, origin: string) {
+  try {
+    const owner = inquiry.owner ? await User.findById(inquiry.owner) : null;
+    if (!owner) return;
+
+    const contact = [inquiry.email, inquiry.phone].filter(Boolean).join(', ');
+    await getNotifier().send({
+      to: { email: owner.email, name: owner.name },
+      subject: `New inquiry about "${property.title}"`,
+      text: `${inquiry.name} (${contact}) asked about ${origin}/${property._id}\n`
+        + `Preferred contact time: ${contactTimeLabels[inquiry.preferredContactTime]}\n\n`
+        + `${inquiry.message}\n\n`
+        + `Answer it from your inbox: ${origin}/inbox\n`,
+      kind: 'inquiry',
+      data: { inquiryId: String(inquiry._id), propertyId: String(property._id) }
+    });
+  } catch (error) {
+    console.error('Error notifying listing owner of inquiry:', error);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize, authorizeProperty } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
+import { Property } from '@/models/Property';
+import { getPropertyStatus, applyStatusTransition } from '@/lib/propertyStatus';
+import { recordRevision } from '@/lib/revisions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:write');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.update', user);
+    if (limited) {
+      return limited;
+    }
+
+    const { id } = await params;
+
+    const property = await Property.findById(id);
+    if (!property) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    const accessError = authorizeProperty(user, property);
+    if (accessError) {
+      return accessError;
+    }
+
+    const previousStatus = getPropertyStatus(property);
+    const transitionError = applyStatusTransition(property, 'published');
+    if (transitionError) {
+      return errorResponse('INVALID_STATUS_TRANSITION', transitionError);
+    }
+
+    await property.save();
+
+    await recordRevision({
+      property,
+      action: 'status',
+      changes: [{ field: 'status', from: previousStatus, to: property.status }],
+      actor: user
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: property,
+      message: 'Property published successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error publishing property');
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize, authorizeProperty } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
+import { Property } from '@/models/Property';
+import { deletePropertyImages, isR2Configured } from '@/lib/r2';
+import { recordRevision } from '@/lib/revisions';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:write');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.update', user);
+    if (limited) {
+      return limited;
+    }
+
+    const { id } = await params;
+
+    // Listings have to be in the trash before they can be purged
+    const property = await Property.findOne({ _id: id, deleted_at: { $ne: null } });
+    if (!property) {
+      return errorResponse('PROPERTY_NOT_FOUND', 'Property not found in trash');
+    }
+
+    const accessError = authorizeProperty(user, property);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Remove stored images first so a storage failure leaves the listing intact
+    if (property.images.length > 0) {
+      if (!isR2Configured()) {
+        return errorResponse('STORAGE_NOT_CONFIGURED');
+      }
+
+      await deletePropertyImages(property._id.toString());
+    }
+
+    await property.deleteOne();
+
+    // The history is kept as an audit trail of the purged listing
+    await recordRevision({ property, action: 'purge', changes: [], actor: user });
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted: true },
+      message: 'Property permanently deleted'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error purging property');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize, authorizeProperty } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
+import { Property } from '@/models/Property';
+import { recordRevision } from '@/lib/revisions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:write');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.update', user);
+    if (limited) {
+      return limited;
+    }
+
+    const { id } = await params;
+
+    // Only listings in the trash can be restored
+    const property = await Property.findOne({ _id: id, deleted_at: { $ne: null } });
+    if (!property) {
+      return errorResponse('PROPERTY_NOT_FOUND', 'Property not found in trash');
+    }
+
+    const accessError = authorizeProperty(user, property);
+    if (accessError) {
+      return accessError;
+    }
+
+    property.deleted_at = null;
+    await property.save();
+
+    await recordRevision({ property, action: 'restore', changes: [], actor: user });
+
+    return NextResponse.json({
+      success: true,
+      data: property,
+      message: 'Property restored successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error restoring property');
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize, authorizeProperty } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
+import { Property } from '@/models/Property';
+import { PropertyType } from '@/models/PropertyType';
+import { PropertyRevision } from '@/models/PropertyRevision';
+import {
+  diffSnapshots,
+  getValuesAtRevision,
+  recordRevision,
+  revertSchema,
+  snapshotProperty
+} from '@/lib/revisions';
+import { validate } from '@/lib/schema';
+import { applyPriceChange } from '@/lib/priceHistory';
+import { isOnMarket } from '@/lib/propertyStatus';
+import { priceDropEvent, publish } from '@/lib/propertyEvents';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:write');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.update', user);
+    if (limited) {
+      return limited;
+    }
+
+    const { id } = await params;
+    const { data, errors } = validate(revertSchema, await request.json());
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const property = await Property.findById(id);
+    if (!property) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    const accessError = authorizeProperty(user, property);
+    if (accessError) {
+      return accessError;
+    }
+
+    const revision = await PropertyRevision.findOne({ _id: data.revisionId, property: property._id });
+    if (!revision) {
+      return errorResponse('REVISION_NOT_FOUND');
+    }
+
+    const values = await getValuesAtRevision(property, revision);
+
+    // The type may have been deleted since
+    const typeExists = await PropertyType.exists({ _id: values.type });
+    if (!typeExists) {
+      return errorResponse('CONFLICT', 'The property type of this revision no longer exists');
+    }
+
+    const before = snapshotProperty(property);
+    const priceDrop = typeof values.price === 'number' ? applyPriceChange(property, values.price) : null;
+
+    // Null values were unset at that revision
+    for (const [field, value] of Object.entries(values)) {
+      property.set(field, value ?? undefined);
+    }
+    await property.save();
+
+    await recordRevision({
+      property,
+      action: 'revert',
+      changes: diffSnapshots(before, snapshotProperty(property)),
+      actor: user,
+      revertedTo: revision._id
+    });
+
+    if (priceDrop && isOnMarket(property)) {
+      const event = priceDropEvent(property, priceDrop, process.env.APP_URL || new URL(request.url).origin);
+      after(() => publish('price.dropped', event));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: property,
+      message: 'Property reverted successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error reverting property');
+  }
+}
@@ -1,6 +1,19 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { ensureConnection } from '@/lib/db';
+import { authorize, authorizeProperty } from '@/lib/authorization';
+import { canViewProperty } from '@/lib/roles';
+import { rateLimit } from '@/lib/rateLimit';
 import { Property } from '@/models/Property';
+import { PropertyType } from '@/models/PropertyType';
+import { parsePropertyAttributes } from '@/lib/propertyValidation';
+import { validate } from '@/lib/schema';
+import { PropertyFields, createPropertySchema, updatePropertySchema } from '@/lib/propertySchemas';
+import { attributeErrors, errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { diffSnapshots, recordRevision, snapshotProperty } from '@/lib/revisions';
+import { applyPriceChange } from '@/lib/priceHistory';
+import { isOnMarket } from '@/lib/propertyStatus';
+import { priceDropEvent, publish } from '@/lib/propertyEvents';
+import { PropertyAttributeDefinition, PropertyAttributes } from '@/types';
 
 export async function GET(
   request: NextRequest,
@@ -9,27 +22,183 @@ export async function GET(
   try {
     await ensureConnection();
 
+    const { user, response: authError } = await authorize(request, 'listings:read');
+    if (authError) {
+      return authError;
+    }
+
     const { id } = await params;
 
     const property = await Property.findById(id);
 
+    // Unpublished listings look missing to everyone but their owner and moderators
+    if (!property || !canViewProperty(user, property)) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: property
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching property');
+  }
+} 
+
+async function updateProperty(
+  request: NextRequest,
+  params: Promise<{ id: string }>,
+  partial: boolean
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:write');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.update', user);
+    if (limited) {
+      return limited;
+    }
+
+    const { id } = await params;
+
+    const property = await Property.findById(id);
     if (!property) {
-      return NextResponse.json(
-        { success: false, error: 'Property not found' },
-        { status: 404 }
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    const accessError = authorizeProperty(user, property);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json();
+
+    // Validate fields, PUT replaces every field while PATCH only touches the ones sent
+    const { data, errors } = partial
+      ? validate(updatePropertySchema, body)
+      : validate(createPropertySchema, body);
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+    const fields: Partial<PropertyFields> = data;
+
+    // Validate property type exists
+    const typeChanged = fields.type !== undefined && fields.type !== property.type.toString();
+    const propertyType = await PropertyType.findById(fields.type ?? property.type);
+    if (typeChanged && !propertyType) {
+      return validationErrorResponse({ type: 'Property type does not exist' });
+    }
+
+    // Attributes are re-validated when they are sent or the type changes. On a
+    // type change without new attributes, only the values the new type also
+    // defines are kept
+    if (fields.attributes !== undefined || typeChanged) {
+      const definitions: PropertyAttributeDefinition[] = propertyType?.attributes || [];
+      const definedKeys = new Set(definitions.map(definition => definition.key));
+      const current: PropertyAttributes = Object.fromEntries(
+        Object.entries((property.attributes ?? {}) as PropertyAttributes).filter(([key]) => definedKeys.has(key))
       );
+
+      const { attributes, errors: attributesErrors } = parsePropertyAttributes(
+        definitions,
+        fields.attributes ?? current
+      );
+      if (attributesErrors) {
+        return validationErrorResponse(attributeErrors(attributesErrors));
+      }
+      fields.attributes = attributes;
+    }
+
+    const before = snapshotProperty(property);
+    const priceDrop = fields.price !== undefined ? applyPriceChange(property, fields.price) : null;
+    property.set(fields);
+    await property.save();
+
+    await recordRevision({
+      property,
+      action: 'update',
+      changes: diffSnapshots(before, snapshotProperty(property)),
+      actor: user
+    });
+
+    // Watchers hear about drops of listings on the market once the response is sent
+    if (priceDrop && isOnMarket(property)) {
+      const event = priceDropEvent(property, priceDrop, process.env.APP_URL || new URL(request.url).origin);
+      after(() => publish('price.dropped', event));
     }
 
     return NextResponse.json({
       success: true,
-      data: property
+      data: property,
+      message: 'Property updated successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error updating property');
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateProperty(request, params, false);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateProperty(request, params, true);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:write');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.update', user);
+    if (limited) {
+      return limited;
+    }
+
+    const { id } = await params;
+
+    const property = await Property.findById(id);
+    if (!property) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    const accessError = authorizeProperty(user, property);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Move to the trash, images stay in storage until the listing is purged
+    property.deleted_at = new Date();
+    await property.save();
+
+    await recordRevision({ property, action: 'delete', changes: [], actor: user });
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted: true },
+      message: 'Property moved to trash'
     });
 
   } catch (error) {
-    console.error('Error fetching property:', error);
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleApiError(error, 'Error deleting property');
   }
-} 
\ No newline at end of file
+}
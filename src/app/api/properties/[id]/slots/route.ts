@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize, authorizeProperty } from '@/lib/authorization';
+import { isOnMarket } from '@/lib/propertyStatus';
+import { canModifyProperty } from '@/lib/roles';
+import { validate } from '@/lib/schema';
+import { MAX_UPCOMING_SLOTS, toViewingInfo, viewingSlotSchema } from '@/lib/viewings';
+import { Property } from '@/models/Property';
+import { IViewing, Viewing } from '@/models/Viewing';
+import { IViewingSlot, ViewingSlot } from '@/models/ViewingSlot';
+
+/**
+ * Upcoming viewing slots of a listing. Everyone sees whether a slot is free,
+ * the listing's owner also sees who booked it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:read');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const property = await Property.findById(id);
+    if (!property) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    // Listings off the market cannot be booked, only their owner sees the slots
+    const canManage = canModifyProperty(user, property);
+    if (!isOnMarket(property) && !canManage) {
+      return NextResponse.json({ success: true, data: [] });
+    }
+
+    const slots: IViewingSlot[] = await ViewingSlot.find({ property: property._id, end: { $gt: new Date() } })
+      .sort({ start: 1 })
+      .limit(MAX_UPCOMING_SLOTS);
+
+    const viewings: IViewing[] = await Viewing.find({
+      slot: { $in: slots.map(slot => slot._id) },
+      status: 'confirmed'
+    });
+    const bySlot = new Map(viewings.map(viewing => [String(viewing.slot), viewing]));
+
+    return NextResponse.json({
+      success: true,
+      data: slots.map(slot => {
+        const viewing = bySlot.get(String(slot._id));
+        return {
+          _id: slot._id,
+          property: slot.property,
+          start: slot.start,
+          end: slot.end,
+          booked: !!viewing,
+          ...(viewing && canManage ? { viewing: toViewingInfo(viewing, user?._id) } : {})
+        };
+      })
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching viewing slots');
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'viewings:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const property = await Property.findById(id);
+    if (!property) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    const forbidden = authorizeProperty(user, property);
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const body = await request.json();
+
+    const { data, errors } = validate(viewingSlotSchema, body);
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const overlapFilter = {
+      property: property._id,
+      start: { $lt: data.end },
+      end: { $gt: data.start }
+    };
+    if (await ViewingSlot.exists(overlapFilter)) {
+      return errorResponse('SLOT_OVERLAP');
+    }
+
+    // Admins adding slots to listings without an owner host them themselves
+    let slot: IViewingSlot;
+    try {
+      slot = await ViewingSlot.create({
+        property: property._id,
+        owner: property.owner || user._id,
+        start: data.start,
+        end: data.end
+      });
+    } catch (error) {
+      if ((error as { code?: unknown })?.code === 11000) {
+        return errorResponse('SLOT_OVERLAP');
+      }
+      throw error;
+    }
+
+    // A racing request can insert an overlapping slot between the check and
+    // the create. The later of two inserts sees the other here and is taken
+    // back, when both do both are
+    if (await ViewingSlot.exists({ ...overlapFilter, _id: { $ne: slot._id } })) {
+      await slot.deleteOne();
+      return errorResponse('SLOT_OVERLAP');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        _id: slot._id,
+        property: slot.property,
+        start: slot.start,
+        end: slot.end,
+        booked: false
+      },
+      message: 'Viewing slot added successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleApiError(error, 'Error adding viewing slot');
+  }
+}
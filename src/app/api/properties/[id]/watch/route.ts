@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { isOnMarket } from '@/lib/propertyStatus';
+import { PriceWatch } from '@/models/PriceWatch';
+import { Property } from '@/models/Property';
+
+/**
+ * Whether the signed-in user watches the listing's price
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'priceWatches:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const watching = await PriceWatch.exists({ property: id, user: user._id });
+
+    return NextResponse.json({
+      success: true,
+      data: { watching: !!watching }
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching price watch');
+  }
+}
+
+/**
+ * Watch the price of a listing on the market, drops are sent through the notifier
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'priceWatches:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const property = await Property.findById(id);
+    if (!property || !isOnMarket(property)) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    // Watching twice keeps the first watch
+    await PriceWatch.updateOne(
+      { property: property._id, user: user._id },
+      { $setOnInsert: { created_at: new Date() } },
+      { upsert: true }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { watching: true },
+      message: 'Watching price'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error watching price');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'priceWatches:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    await PriceWatch.deleteOne({ property: id, user: user._id });
+
+    return NextResponse.json({
+      success: true,
+      data: { watching: false },
+      message: 'Stopped watching price'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error removing price watch');
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { authorize, authorizeStatusFilter } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
+import { handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { buildPropertyFilter } from '@/lib/propertyQuery';
+import {
+  ExportRecord,
+  ExportSource,
+  buildExportColumns,
+  createExportStream,
+  exportContentTypes,
+  exportFormats,
+  toExportRecord
+} from '@/lib/propertyExport';
+import { Property } from '@/models/Property';
+import { PropertyType, IPropertyType } from '@/models/PropertyType';
+import { ExportFormat } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:read');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.export', user);
+    if (limited) {
+      return limited;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const format = (searchParams.get('format') || 'csv') as ExportFormat;
+    if (!exportFormats.includes(format)) {
+      return validationErrorResponse({ format: `Format must be one of: ${exportFormats.join(', ')}` });
+    }
+
+    // Same filters as the listing route
+    const { query, params, errors } = buildPropertyFilter(searchParams);
+    if (errors || !params) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const statusError = authorizeStatusFilter(user, params, query);
+    if (statusError) {
+      return statusError;
+    }
+
+    const searching = Boolean(query.$text);
+
+    // Exports are not ordered by distance, near with a radius only filters
+    const sort: Record<string, 1 | -1 | { $meta: 'textScore' }> = {};
+    if (params.sortBy === 'relevance' && searching) {
+      sort.score = { $meta: 'textScore' };
+    } else if (params.sortBy && params.sortBy !== 'relevance' && params.sortBy !== 'distance') {
+      sort[params.sortBy] = params.sortOrder === 'asc' ? 1 : -1;
+    } else {
+      sort.created_at = -1;
+    }
+    sort._id = -1;
+
+    // Types are few, their labels and attribute columns are resolved up front
+    const propertyTypes: IPropertyType[] = await PropertyType.find().sort({ label: 1 });
+    const typeLabels = new Map(propertyTypes.map(type => [String(type._id), type.label]));
+    const columns = buildExportColumns(
+      params.type ? propertyTypes.filter(type => String(type._id) === params.type) : propertyTypes
+    );
+
+    // The cursor reads listings in batches as the response is consumed
+    const cursor = Property.find(query, searching ? { score: { $meta: 'textScore' } } : undefined)
+      .select('-priceHistory')
+      .sort(sort)
+      .lean<ExportSource[]>()
+      .batchSize(500)
+      .cursor();
+
+    async function* records(): AsyncGenerator<ExportRecord> {
+      try {
+        for await (const property of cursor) {
+          yield toExportRecord(property as ExportSource, typeLabels);
+        }
+      } finally {
+        await cursor.close();
+      }
+    }
+
+    const fileName = `properties-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new NextResponse(createExportStream(format, records(), columns), {
+      headers: {
+        'Content-Type': exportContentTypes[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error exporting properties');
+  }
+}
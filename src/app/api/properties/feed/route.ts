@@ -0,0 +1,90 @@
+import { NextRequest } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { authorize } from '@/lib/authorization';
+import { handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { buildPropertyFilter } from '@/lib/propertyQuery';
+import { conditionalResponse } from '@/lib/conditionalGet';
+import {
+  DEFAULT_FEED_SIZE,
+  Feed,
+  FeedSource,
+  feedContentTypes,
+  feedFormats,
+  renderFeed,
+  toFeedEntry
+} from '@/lib/feeds';
+import { Property } from '@/models/Property';
+import { PropertyType, IPropertyType } from '@/models/PropertyType';
+import { FeedFormat } from '@/types';
+
+type FeedRow = FeedSource & { type: unknown };
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { response: authError } = await authorize(request, 'listings:read');
+    if (authError) {
+      return authError;
+    }
+
+    const { searchParams, origin } = new URL(request.url);
+
+    const format = (searchParams.get('format') || 'atom') as FeedFormat;
+    if (!feedFormats.includes(format)) {
+      return validationErrorResponse({ format: `Format must be one of: ${feedFormats.join(', ')}` });
+    }
+
+    // Same filters as the listing route, but feeds only carry published listings
+    const filterParams = new URLSearchParams(searchParams);
+    filterParams.delete('status');
+    const { query, params, errors } = buildPropertyFilter(filterParams);
+    if (errors || !params) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const limit = searchParams.has('limit') ? params.limit : DEFAULT_FEED_SIZE;
+
+    const properties = await Property.find(query)
+      .select('title type price description images statusHistory created_at')
+      .sort({ created_at: -1, _id: -1 })
+      .limit(limit)
+      .lean<FeedRow[]>();
+
+    // The filtered type is looked up too, it names the feed even when empty
+    const typeIds = new Set(properties.map(property => String(property.type)));
+    if (params.type) typeIds.add(params.type);
+    const propertyTypes: IPropertyType[] = await PropertyType.find({ _id: { $in: [...typeIds] } });
+    const typeLabels = new Map(propertyTypes.map(type => [String(type._id), type.label]));
+
+    const entries = properties.map(property =>
+      toFeedEntry(property, typeLabels.get(String(property.type)) || 'Property', origin)
+    );
+
+    // An empty feed has not changed since the epoch
+    const updated = entries.reduce(
+      (latest, entry) => entry.updated > latest ? entry.updated : latest,
+      new Date(0)
+    );
+
+    const typeLabel = params.type ? typeLabels.get(params.type) : undefined;
+    const feed: Feed = {
+      title: typeLabel ? `Propertio: new ${typeLabel} listings` : 'Propertio: new listings',
+      feedUrl: request.url,
+      homeUrl: origin,
+      updated,
+      entries
+    };
+
+    // Pollers send the ETag or Last-Modified back and get an empty 304 until
+    // the feed changes
+    return conditionalResponse(request, renderFeed(format, feed), {
+      contentType: feedContentTypes[format],
+      lastModified: updated,
+      cacheControl: 'public, max-age=300'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error building property feed');
+  }
+}
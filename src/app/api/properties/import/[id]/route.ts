@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { ImportJob } from '@/models/ImportJob';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { response: authError } = await authorize(request, 'listings:import');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+
+    const job = await ImportJob.findById(id);
+    if (!job) {
+      return errorResponse('IMPORT_JOB_NOT_FOUND');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching import job');
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
+import { isR2Configured } from '@/lib/r2';
+import { readFormData } from '@/lib/requestBody';
+import {
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_REQUEST_BYTES,
+  detectImportFormat,
+  parseImportFile,
+  prepareImportRows,
+  runImportJob
+} from '@/lib/propertyImport';
+import { ImportJob } from '@/models/ImportJob';
+import { ImportPreview, ImportRowError } from '@/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { response: authError } = await authorize(request, 'listings:import');
+    if (authError) {
+      return authError;
+    }
+
+    const jobs = await ImportJob.find()
+      .sort({ created_at: -1 })
+      .limit(20);
+
+    return NextResponse.json({
+      success: true,
+      data: jobs
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching import jobs');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:import');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.import', user);
+    if (limited) {
+      return limited;
+    }
+
+    // Oversized bodies are rejected while they stream in
+    const formData = await readFormData(request, MAX_IMPORT_REQUEST_BYTES);
+    const file = formData.get('file');
+    const dryRun = formData.get('dryRun') === 'true';
+    const fetchImages = formData.get('fetchImages') === 'true';
+    const publish = formData.get('publish') === 'true';
+
+    if (!(file instanceof File)) {
+      return errorResponse('INVALID_REQUEST', 'No file provided');
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      return errorResponse('PAYLOAD_TOO_LARGE', `Import files must be at most ${MAX_IMPORT_BYTES / 1024 / 1024}MB`);
+    }
+
+    const text = await file.text();
+    const format = detectImportFormat(file.name, text);
+    const { records, error } = parseImportFile(text, format);
+    if (error || !records) {
+      return errorResponse('INVALID_REQUEST', error);
+    }
+
+    const rows = await prepareImportRows(records);
+    const validRows = rows.filter(row => row.data);
+    const rowErrors: ImportRowError[] = rows
+      .filter(row => row.errors)
+      .map(row => ({ row: row.row, errors: row.errors! }));
+
+    // A dry run only reports what would be imported
+    if (dryRun) {
+      const preview: ImportPreview = {
+        total: rows.length,
+        valid: validRows.length,
+        invalid: rowErrors.length,
+        rowErrors
+      };
+
+      return NextResponse.json({
+        success: true,
+        data: preview
+      });
+    }
+
+    if (validRows.length === 0) {
+      return errorResponse('INVALID_REQUEST', 'The file has no valid listings to import');
+    }
+
+    if (fetchImages && !isR2Configured()) {
+      return errorResponse('STORAGE_NOT_CONFIGURED');
+    }
+
+    // Invalid rows are reported on the job and skipped
+    const job = await ImportJob.create({
+      fileName: file.name,
+      format,
+      fetchImages,
+      publish,
+      total: validRows.length,
+      rowErrors,
+      user: user._id
+    });
+
+    // Listings are created after the response is sent, clients poll the job
+    after(() => runImportJob(job, validRows, user));
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+      message: `Importing ${validRows.length} listing(s)`
+    }, { status: 202 });
+
+  } catch (error) {
+    return handleApiError(error, 'Error importing properties');
+  }
+}
@@ -1,43 +1,85 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { PipelineStage } from 'mongoose';
 import { ensureConnection } from '@/lib/db';
+import { authorize, authorizeStatusFilter } from '@/lib/authorization';
+import { rateLimit } from '@/lib/rateLimit';
 import { Property } from '@/models/Property';
 import { PropertyType } from '@/models/PropertyType';
+import { parsePropertyAttributes } from '@/lib/propertyValidation';
+import { validate } from '@/lib/schema';
+import { createPropertySchema } from '@/lib/propertySchemas';
+import { attributeErrors, errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import {
+  NearQuery,
+  PropertyFilter,
+  buildCursorFilter,
+  buildPropertyFilter,
+  decodeCursor,
+  encodeCursor,
+  isCursorSortField
+} from '@/lib/propertyQuery';
+import { buildSearchHighlights } from '@/lib/search';
+import { computePropertyFacets } from '@/lib/propertyFacets';
+import { diffSnapshots, recordRevision, snapshotProperty } from '@/lib/revisions';
 
 export async function POST(request: NextRequest) {
   try {
     await ensureConnection();
 
+    const { user, response: authError } = await authorize(request, 'listings:write');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'properties.create', user);
+    if (limited) {
+      return limited;
+    }
+
     const body = await request.json();
-    const { title, type, price, description } = body;
-
-    // Validate required fields
-    if (!title || !type || !price || !description) {
-      return NextResponse.json(
-        { success: false, error: 'Missing required fields' },
-        { status: 400 }
-      );
+
+    // Validate the body against the shared schema
+    const { data, errors } = validate(createPropertySchema, body);
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
     }
 
     // Validate property type exists
-    const propertyType = await PropertyType.findById(type);
+    const propertyType = await PropertyType.findById(data.type);
     if (!propertyType) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid property type' },
-        { status: 400 }
-      );
+      return validationErrorResponse({ type: 'Property type does not exist' });
+    }
+
+    // Validate custom attributes against the type's attribute schema
+    const { attributes, errors: attributesErrors } = parsePropertyAttributes(
+      propertyType.attributes,
+      data.attributes
+    );
+    if (attributesErrors) {
+      return validationErrorResponse(attributeErrors(attributesErrors));
     }
 
-    // Create new property
+    // Create new property as a draft, it goes live once published
+    const now = new Date();
     const property = new Property({
-      title: title.trim(),
-      type,
-      price: parseFloat(price),
-      description: description.trim(),
-      images: []
+      ...data,
+      attributes,
+      images: [],
+      status: 'draft',
+      statusHistory: [{ from: null, to: 'draft', changed_at: now }],
+      priceHistory: [{ price: data.price, changed_at: now }],
+      owner: user._id
     });
 
     await property.save();
 
+    await recordRevision({
+      property,
+      action: 'create',
+      changes: diffSnapshots({}, snapshotProperty(property)),
+      actor: user
+    });
+
     return NextResponse.json({
       success: true,
       data: property,
@@ -45,11 +87,7 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('Error creating property:', error);
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleApiError(error, 'Error creating property');
   }
 }
 
@@ -57,73 +95,245 @@ export async function GET(request: NextRequest) {
   try {
     await ensureConnection();
 
+    const { user, response: authError } = await authorize(request, 'listings:read');
+    if (authError) {
+      return authError;
+    }
+
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const type = searchParams.get('type');
-    const minPrice = searchParams.get('minPrice');
-    const maxPrice = searchParams.get('maxPrice');
-    const search = searchParams.get('search');
-    const sortBy = searchParams.get('sortBy') || 'created_at';
-    const sortOrder = searchParams.get('sortOrder') || 'desc';
-
-    // Build query
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const query: Record<string, any> = {};
-
-    if (type) {
-      query.type = type;
+
+    // Validate the query parameters and build the filter
+    const { query, near, params, errors } = buildPropertyFilter(searchParams);
+    if (errors || !params) {
+      return validationErrorResponse(errors || {});
     }
 
-    if (minPrice || maxPrice) {
-      query.price = {};
-      if (minPrice) query.price.$gte = parseFloat(minPrice);
-      if (maxPrice) query.price.$lte = parseFloat(maxPrice);
+    const statusError = authorizeStatusFilter(user, params, query);
+    if (statusError) {
+      return statusError;
     }
+    const { page, limit, sortOrder } = params;
 
-    if (search) {
-      query.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } }
-      ];
+    // Near queries are ordered by distance unless another sort is requested
+    const sortBy = params.sortBy || (near ? 'distance' : 'created_at');
+
+    // Facet counts for the same query are computed alongside the page
+    const facetBoundaries = params.facets ? params.priceBuckets : null;
+
+    if (near) {
+      if (searchParams.has('cursor')) {
+        return errorResponse('INVALID_REQUEST', 'Cursor pagination is not available for near queries');
+      }
+      return getNearPage(query, near, page, limit, sortBy, sortOrder, facetBoundaries);
     }
 
-    // Build sort object
-    const sort: Record<string, 1 | -1> = {};
-    sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+    // Cursor mode: `cursor` is present (empty for the first page)
+    if (searchParams.has('cursor')) {
+      return getCursorPage(query, params.cursor || '', limit, sortBy, sortOrder, facetBoundaries);
+    }
+
+    const searching = Boolean(query.$text);
+
+    // Build sort object, relevance only applies while searching
+    const sort: Record<string, 1 | -1 | { $meta: 'textScore' }> = {};
+    if (sortBy === 'relevance') {
+      if (searching) {
+        sort.score = { $meta: 'textScore' };
+      }
+      sort.created_at = -1;
+    } else {
+      sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+    }
 
     // Calculate skip value for pagination
     const skip = (page - 1) * limit;
 
     // Execute queries
-    const [properties, total] = await Promise.all([
-      Property.find(query)
+    const [properties, total, facetCounts] = await Promise.all([
+      Property.find(query, searching ? { score: { $meta: 'textScore' } } : undefined)
+        .select('-priceHistory')
         .populate('type', 'label')
         .sort(sort)
         .skip(skip)
         .limit(limit)
-        .lean(),
-      Property.countDocuments(query)
+        .lean<PropertyRow[]>(),
+      Property.countDocuments(query),
+      facetBoundaries ? computePropertyFacets(query, facetBoundaries) : undefined
     ]);
 
     const totalPages = Math.ceil(total / limit);
 
     return NextResponse.json({
       success: true,
-      data: properties,
+      data: withSearchHighlights(properties, query),
       pagination: {
         page,
         limit,
         total,
         totalPages
-      }
+      },
+      facets: facetCounts
     });
 
   } catch (error) {
-    console.error('Error fetching properties:', error);
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleApiError(error, 'Error fetching properties');
   }
-} 
\ No newline at end of file
+} 
+
+type PropertyRow = { _id: unknown; title: string; description: string; [key: string]: unknown };
+
+/**
+ * Listing page around a point using `$geoNear`, which adds the distance in
+ * meters to every result. `$geoNear` cannot be combined with text search.
+ */
+async function getNearPage(
+  query: PropertyFilter,
+  near: NearQuery,
+  page: number,
+  limit: number,
+  sortBy: string,
+  sortOrder: string,
+  facetBoundaries: number[] | null
+) {
+  if (query.$text) {
+    return errorResponse('INVALID_REQUEST', 'Text search cannot be combined with near');
+  }
+
+  // The radius is applied through maxDistance instead of the $geoWithin filter
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { location, ...nearQuery } = query;
+
+  const pipeline: PipelineStage[] = [
+    {
+      $geoNear: {
+        near: { type: 'Point', coordinates: near.coordinates },
+        distanceField: 'distance',
+        spherical: true,
+        query: nearQuery,
+        ...(near.radius ? { maxDistance: near.radius } : {})
+      }
+    }
+  ];
+
+  if (sortBy !== 'distance' && sortBy !== 'relevance') {
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    pipeline.push({ $sort: { [sortBy]: direction, _id: direction } });
+  }
+
+  pipeline.push({ $skip: (page - 1) * limit }, { $limit: limit }, { $project: { priceHistory: 0 } });
+
+  const [rows, total, facetCounts] = await Promise.all([
+    Property.aggregate<PropertyRow>(pipeline),
+    Property.countDocuments(query),
+    facetBoundaries ? computePropertyFacets(query, facetBoundaries) : undefined
+  ]);
+
+  const properties = await Property.populate(rows, { path: 'type', select: 'label' });
+
+  return NextResponse.json({
+    success: true,
+    data: properties,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    },
+    facets: facetCounts
+  });
+}
+
+/**
+ * Attach highlighted title/description snippets to each result when the
+ * query is a full-text search.
+ */
+function withSearchHighlights(properties: PropertyRow[], query: PropertyFilter) {
+  const search: string | undefined = query.$text?.$search;
+  if (!search) return properties;
+
+  return properties.map(property => ({
+    ...property,
+    highlights: buildSearchHighlights(property, search)
+  }));
+}
+
+/**
+ * Keyset pagination on the active sort field plus `_id`, which stays stable
+ * while listings are inserted and does not slow down on deep pages.
+ */
+async function getCursorPage(
+  query: PropertyFilter,
+  rawCursor: string,
+  limit: number,
+  sortBy: string,
+  sortOrder: string,
+  facetBoundaries: number[] | null
+) {
+  if (!isCursorSortField(sortBy) || (sortOrder !== 'asc' && sortOrder !== 'desc')) {
+    return errorResponse('INVALID_CURSOR', 'Unsupported sort for cursor pagination');
+  }
+
+  const cursor = rawCursor ? decodeCursor(rawCursor, sortBy, sortOrder, query) : null;
+  if (rawCursor && !cursor) {
+    return errorResponse('INVALID_CURSOR');
+  }
+
+  const backwards = cursor?.direction === 'prev';
+  const ascending = (sortOrder === 'asc') !== backwards;
+  const sort: Record<string, 1 | -1> = {
+    [sortBy]: ascending ? 1 : -1,
+    _id: ascending ? 1 : -1
+  };
+
+  const pageQuery = cursor ? { $and: [query, buildCursorFilter(cursor)] } : query;
+
+  // Fetch one extra row to know whether another page follows. Matches are
+  // only counted for the first page, later cursors carry that total along,
+  // signed so clients cannot change it
+  const [rows, total, facetCounts] = await Promise.all([
+    Property.find(pageQuery)
+      .select('-priceHistory')
+      .populate('type', 'label')
+      .sort(sort)
+      .limit(limit + 1)
+      .lean<PropertyRow[]>(),
+    cursor?.total ?? Property.countDocuments(query),
+    facetBoundaries ? computePropertyFacets(query, facetBoundaries) : undefined
+  ]);
+
+  const hasMore = rows.length > limit;
+  const properties = rows.slice(0, limit);
+  if (backwards) {
+    properties.reverse();
+  }
+
+  const page = cursor?.page || 1;
+  const first = properties[0];
+  const last = properties[properties.length - 1];
+
+  // Going forward there is a previous page whenever we started from a cursor,
+  // going backward there is always a next page (the one we came from)
+  const hasNext = backwards ? true : hasMore;
+  const hasPrev = backwards ? hasMore : Boolean(cursor);
+
+  const nextCursor = hasNext && last
+    ? encodeCursor(last, sortBy, sortOrder, 'next', page + 1, total, query)
+    : null;
+  const prevCursor = hasPrev && first && page > 1
+    ? encodeCursor(first, sortBy, sortOrder, 'prev', page - 1, total, query)
+    : null;
+
+  return NextResponse.json({
+    success: true,
+    data: withSearchHighlights(properties, query),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    },
+    nextCursor,
+    prevCursor,
+    facets: facetCounts
+  });
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { authorize, authorizeStatusFilter } from '@/lib/authorization';
+import { Property } from '@/models/Property';
+import { PropertyType } from '@/models/PropertyType';
+import { buildPropertyFilter } from '@/lib/propertyQuery';
+import { handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { PropertyStats } from '@/types';
+
+interface StatsAggregation {
+  summary: { total: number; averagePrice: number | null; minPrice: number | null; maxPrice: number | null }[];
+  byType: { label: string | null; count: number }[];
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:read');
+    if (authError) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Accept the same filters as the listing route
+    const { query, params, errors } = buildPropertyFilter(searchParams);
+    if (errors || !params) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const statusError = authorizeStatusFilter(user, params, query);
+    if (statusError) {
+      return statusError;
+    }
+
+    const [result] = await Property.aggregate<StatsAggregation>([
+      { $match: query },
+      {
+        $facet: {
+          summary: [
+            {
+              $group: {
+                _id: null,
+                total: { $sum: 1 },
+                averagePrice: { $avg: '$price' },
+                minPrice: { $min: '$price' },
+                maxPrice: { $max: '$price' }
+              }
+            }
+          ],
+          byType: [
+            { $group: { _id: '$type', count: { $sum: 1 } } },
+            {
+              $lookup: {
+                from: PropertyType.collection.name,
+                localField: '_id',
+                foreignField: '_id',
+                as: 'propertyType'
+              }
+            },
+            {
+              $project: {
+                _id: 0,
+                count: 1,
+                label: { $first: '$propertyType.label' }
+              }
+            },
+            { $sort: { count: -1 } }
+          ]
+        }
+      }
+    ]);
+
+    const summary = result?.summary[0];
+
+    // Key counts by type label, listings whose type was removed fall under "Unknown"
+    const byType: Record<string, number> = {};
+    for (const { label, count } of result?.byType || []) {
+      const key = label || 'Unknown';
+      byType[key] = (byType[key] || 0) + count;
+    }
+
+    const stats: PropertyStats = {
+      total: summary?.total || 0,
+      byType,
+      averagePrice: summary?.averagePrice ? Math.round(summary.averagePrice * 100) / 100 : 0,
+      priceRange: {
+        min: summary?.minPrice ?? 0,
+        max: summary?.maxPrice ?? 0
+      }
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: stats
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching property stats');
+  }
+}
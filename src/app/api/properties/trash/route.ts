@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { hasPermission } from '@/lib/roles';
+import { validate } from '@/lib/schema';
+import { trashQuerySchema } from '@/lib/propertySchemas';
+import { Property } from '@/models/Property';
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'listings:write');
+    if (authError) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { data: params, errors } = validate(trashQuerySchema, Object.fromEntries(searchParams));
+    if (errors || !params) {
+      return validationErrorResponse(errors || {});
+    }
+    const { page, limit } = params;
+
+    // Agents only see their own trash, admins see everything
+    const query = hasPermission(user.role, 'listings:moderate')
+      ? { deleted_at: { $ne: null } }
+      : { deleted_at: { $ne: null }, owner: user._id };
+
+    // Most recently deleted first
+    const [properties, total] = await Promise.all([
+      Property.find(query)
+        .select('-priceHistory')
+        .populate('type', 'label')
+        .sort({ deleted_at: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      Property.countDocuments(query)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: properties,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching trash');
+  }
+}
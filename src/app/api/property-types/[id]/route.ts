@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { Property } from '@/models/Property';
+import { PropertyType, labelCollation } from '@/models/PropertyType';
+import { updatePropertyTypeSchema } from '@/lib/propertySchemas';
+import { parseAttributeDefinitions } from '@/lib/propertyValidation';
+import { validate } from '@/lib/schema';
+import { PropertyAttributeDefinition, PropertyAttributes } from '@/types';
+import { diffSnapshots, recordRevision, snapshotProperty } from '@/lib/revisions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { response: authError } = await authorize(request, 'listings:read');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+
+    const propertyType = await PropertyType.findById(id);
+
+    if (!propertyType) {
+      return errorResponse('PROPERTY_TYPE_NOT_FOUND');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: propertyType
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching property type');
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { response: authError } = await authorize(request, 'propertyTypes:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+
+    const propertyType = await PropertyType.findById(id);
+    if (!propertyType) {
+      return errorResponse('PROPERTY_TYPE_NOT_FOUND');
+    }
+
+    const { data, errors } = validate(updatePropertyTypeSchema, await request.json());
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const { label } = data;
+    if (label !== undefined) {
+
+      // Reject labels that only differ in case from another type, renaming a
+      // type to a different casing of its own label is allowed
+      const existing = await PropertyType.findOne({ label, _id: { $ne: propertyType._id } })
+        .collation(labelCollation);
+      if (existing) {
+        return errorResponse('PROPERTY_TYPE_EXISTS', `Property type "${existing.label}" already exists`);
+      }
+
+      propertyType.label = label;
+    }
+
+    // Replaces the attribute schema, existing listings keep their stored values
+    // until they are next updated
+    if (data.attributes !== undefined) {
+      const { attributes, error } = parseAttributeDefinitions(data.attributes);
+      if (error || !attributes) {
+        return validationErrorResponse({ attributes: error || 'Invalid attributes' });
+      }
+
+      propertyType.attributes = attributes;
+    }
+
+    await propertyType.save();
+
+    return NextResponse.json({
+      success: true,
+      data: propertyType,
+      message: 'Property type updated successfully'
+    });
+
+  } catch (error) {
+    // Unique index violation from a concurrent rename
+    if ((error as { code?: number }).code === 11000) {
+      return errorResponse('PROPERTY_TYPE_EXISTS');
+    }
+
+    return handleApiError(error, 'Error updating property type');
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'propertyTypes:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const reassignTo = searchParams.get('reassignTo');
+
+    const propertyType = await PropertyType.findById(id);
+    if (!propertyType) {
+      return errorResponse('PROPERTY_TYPE_NOT_FOUND');
+    }
+
+    // Listings in the trash count too, they could be restored later
+    const inUse = await Property.countDocuments({ type: propertyType._id })
+      .setOptions({ withDeleted: true });
+    let reassigned = 0;
+
+    if (inUse > 0) {
+      // Listings still reference this type, they have to be moved first
+      if (!reassignTo) {
+        return errorResponse(
+          'PROPERTY_TYPE_IN_USE',
+          `Property type is used by ${inUse} listing(s), pass reassignTo to move them to another type`
+        );
+      }
+
+      const target = await PropertyType.findById(reassignTo);
+      if (!target || target._id.equals(propertyType._id)) {
+        return errorResponse('INVALID_REQUEST', 'Invalid reassignment property type');
+      }
+
+      // Listings are moved one by one so each keeps only the attribute values
+      // the target type defines and gets the move in its history
+      const definitions: PropertyAttributeDefinition[] = target.attributes;
+      const definedKeys = new Set(definitions.map(definition => definition.key));
+      const listings = Property.find({ type: propertyType._id })
+        .setOptions({ withDeleted: true })
+        .cursor();
+
+      for await (const property of listings) {
+        const before = snapshotProperty(property);
+        property.set({
+          type: target._id,
+          attributes: Object.fromEntries(
+            Object.entries((property.attributes ?? {}) as PropertyAttributes).filter(([key]) => definedKeys.has(key))
+          )
+        });
+        await property.save();
+
+        await recordRevision({
+          property,
+          action: 'update',
+          changes: diffSnapshots(before, snapshotProperty(property)),
+          actor: user
+        });
+        reassigned++;
+      }
+    }
+
+    await propertyType.deleteOne();
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted: true, reassigned },
+      message: 'Property type deleted successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error deleting property type');
+  }
+}
@@ -1,12 +1,22 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { ensureConnection } from '@/lib/db';
-import { PropertyType } from '@/models/PropertyType';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { PropertyType, labelCollation } from '@/models/PropertyType';
+import { propertyTypeSchema } from '@/lib/propertySchemas';
+import { parseAttributeDefinitions } from '@/lib/propertyValidation';
+import { validate } from '@/lib/schema';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     await ensureConnection();
 
-    const propertyTypes = await PropertyType.find().sort({ label: 1 }).lean();
+    const { response: authError } = await authorize(request, 'listings:read');
+    if (authError) {
+      return authError;
+    }
+
+    const propertyTypes = await PropertyType.find().collation(labelCollation).sort({ label: 1 }).lean();
 
     return NextResponse.json({
       success: true,
@@ -14,10 +24,52 @@ export async function GET() {
     });
 
   } catch (error) {
-    console.error('Error fetching property types:', error);
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleApiError(error, 'Error fetching property types');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { response: authError } = await authorize(request, 'propertyTypes:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { data, errors } = validate(propertyTypeSchema, await request.json());
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+    const { label } = data;
+
+    // Reject labels that only differ in case from an existing one
+    const existing = await PropertyType.findOne({ label }).collation(labelCollation);
+    if (existing) {
+      return errorResponse('PROPERTY_TYPE_EXISTS', `Property type "${existing.label}" already exists`);
+    }
+
+    // Optional attribute schema for listings of this type
+    const { attributes, error } = parseAttributeDefinitions(data.attributes);
+    if (error || !attributes) {
+      return validationErrorResponse({ attributes: error || 'Invalid attributes' });
+    }
+
+    const propertyType = new PropertyType({ label, attributes });
+    await propertyType.save();
+
+    return NextResponse.json({
+      success: true,
+      data: propertyType,
+      message: 'Property type created successfully'
+    });
+
+  } catch (error) {
+    // Unique index violation from a concurrent create
+    if ((error as { code?: number }).code === 11000) {
+      return errorResponse('PROPERTY_TYPE_EXISTS');
+    }
+
+    return handleApiError(error, 'Error creating property type');
   }
-} 
\ No newline at end of file
+}
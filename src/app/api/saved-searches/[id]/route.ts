@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { SavedSearch } from '@/models/SavedSearch';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'savedSearches:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+
+    // Other users' searches are reported as missing
+    const search = await SavedSearch.findOneAndDelete({ _id: id, user: user._id });
+    if (!search) {
+      return errorResponse('SAVED_SEARCH_NOT_FOUND');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted: true },
+      message: 'Saved search deleted successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error deleting saved search');
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { validate } from '@/lib/schema';
+import { MAX_SAVED_SEARCHES, parseSavedSearchParams, savedSearchSchema } from '@/lib/savedSearches';
+import { SavedSearch } from '@/models/SavedSearch';
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'savedSearches:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const searches = await SavedSearch.find({ user: user._id }).sort({ created_at: -1 });
+
+    return NextResponse.json({
+      success: true,
+      data: searches
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching saved searches');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'savedSearches:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const body = await request.json();
+
+    const { data, errors } = validate(savedSearchSchema, body);
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+
+    // The filters are checked like listing query parameters
+    const { params, errors: paramErrors } = parseSavedSearchParams(data.params);
+    if (paramErrors || !params) {
+      return validationErrorResponse(paramErrors || {});
+    }
+
+    const count = await SavedSearch.countDocuments({ user: user._id });
+    if (count >= MAX_SAVED_SEARCHES) {
+      return errorResponse('INVALID_REQUEST', `You can save at most ${MAX_SAVED_SEARCHES} searches`);
+    }
+
+    // Only listings that show up from now on are matched
+    const search = await SavedSearch.create({
+      user: user._id,
+      name: data.name,
+      params,
+      lastCheckedAt: new Date()
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: search,
+      message: 'Search saved successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error saving search');
+  }
+}
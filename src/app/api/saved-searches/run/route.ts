@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { handleApiError } from '@/lib/apiResponses';
+import { authorize, isCronRequest } from '@/lib/authorization';
+import { runSavedSearches } from '@/lib/savedSearches';
+
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    // Called by a scheduler with the cron secret, or by an admin
+    if (!isCronRequest(request)) {
+      const { response: authError } = await authorize(request, 'savedSearches:run');
+      if (authError) {
+        return authError;
+      }
+    }
+
+    // Links in the digests point at APP_URL when the scheduler calls an internal address
+    const result = await runSavedSearches({ origin: process.env.APP_URL || new URL(request.url).origin });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Checked ${result.checked} saved search(es), sent ${result.notified} digest(s)`
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error running saved searches');
+  }
+}
@@ -1,10 +1,17 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { ensureConnection } from '@/lib/db';
+import { handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
 import { seedPropertyTypes } from '@/models/seed';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
     await ensureConnection();
+
+    const { response: authError } = await authorize(request, 'seed:run');
+    if (authError) {
+      return authError;
+    }
     await seedPropertyTypes();
 
     return NextResponse.json({
@@ -13,10 +20,6 @@ export async function POST() {
     });
 
   } catch (error) {
-    console.error('Error seeding database:', error);
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleApiError(error, 'Error seeding database');
   }
 } 
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { toAuthUser, updateUserRoleSchema } from '@/lib/auth';
+import { validate } from '@/lib/schema';
+import { User } from '@/models/User';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user: currentUser, response: authError } = await authorize(request, 'users:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const { data, errors } = validate(updateUserRoleSchema, await request.json());
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+
+    // Keeps admins from locking themselves out
+    if (String(currentUser._id) === id) {
+      return errorResponse('INVALID_REQUEST', 'You cannot change your own role');
+    }
+
+    const user = await User.findById(id);
+    if (!user) {
+      return errorResponse('USER_NOT_FOUND');
+    }
+
+    user.role = data.role;
+    await user.save();
+
+    return NextResponse.json({
+      success: true,
+      data: toAuthUser(user),
+      message: 'User role updated successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error updating user role');
+  }
+}
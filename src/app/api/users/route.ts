@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { toAuthUser, userQuerySchema } from '@/lib/auth';
+import { validate } from '@/lib/schema';
+import { User, IUser } from '@/models/User';
+
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { response: authError } = await authorize(request, 'users:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { data: params, errors } = validate(userQuerySchema, Object.fromEntries(searchParams));
+    if (errors || !params) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const { page, limit } = params;
+
+    const [users, total] = await Promise.all([
+      User.find()
+        .sort({ created_at: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: users.map((user: IUser) => toAuthUser(user)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching users');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { ICS_CONTENT_TYPE, renderCalendar } from '@/lib/ical';
+import { findUserViewing, toCalendarEvent } from '@/lib/viewings';
+import { IProperty, Property } from '@/models/Property';
+import { IUser, User } from '@/models/User';
+
+/**
+ * The viewing as an `.ics` file to add to a calendar
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'viewings:book');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const viewing = await findUserViewing(user, id);
+    if (!viewing) {
+      return errorResponse('VIEWING_NOT_FOUND');
+    }
+
+    const [property, host]: [IProperty | null, IUser | null] = await Promise.all([
+      Property.findById(viewing.property),
+      User.findById(viewing.host)
+    ]);
+    if (!property) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    const origin = process.env.APP_URL || new URL(request.url).origin;
+    const body = renderCalendar({ events: [toCalendarEvent(viewing, property, host, origin)] });
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': ICS_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="viewing-${viewing._id}.ics"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error exporting viewing');
+  }
+}
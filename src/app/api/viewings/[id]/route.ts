@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { findUserViewing, notifyViewing, toViewingInfo } from '@/lib/viewings';
+
+/**
+ * Cancel a viewing, by the person who booked it or its host. The slot can be
+ * booked again, both sides get a cancellation for their calendar.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'viewings:book');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const viewing = await findUserViewing(user, id);
+    if (!viewing) {
+      return errorResponse('VIEWING_NOT_FOUND');
+    }
+
+    // Cancelling twice is a no-op
+    if (viewing.status === 'confirmed') {
+      viewing.status = 'cancelled';
+      viewing.cancelled_at = new Date();
+      viewing.sequence += 1;
+      await viewing.save();
+
+      after(() => notifyViewing(viewing, process.env.APP_URL || new URL(request.url).origin));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toViewingInfo(viewing, user._id),
+      message: 'Viewing cancelled successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error cancelling viewing');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { conditionalResponse } from '@/lib/conditionalGet';
+import { ICS_CONTENT_TYPE, renderCalendar } from '@/lib/ical';
+import { feedHistoryStart, toCalendarEvent } from '@/lib/viewings';
+import { IProperty, Property } from '@/models/Property';
+import { IUser, User } from '@/models/User';
+import { IViewing, Viewing } from '@/models/Viewing';
+
+/**
+ * iCalendar feed of the confirmed viewings a host has, for calendar apps to
+ * subscribe to. The secret token in the URL stands in for a session.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { token } = await params;
+    const host: IUser | null = await User.findOne({ calendarToken: token.replace(/\.ics$/, '') });
+    if (!host) {
+      return errorResponse('NOT_FOUND');
+    }
+
+    const viewings: IViewing[] = await Viewing.find({
+      host: host._id,
+      status: 'confirmed',
+      end: { $gte: feedHistoryStart() }
+    }).sort({ start: 1 });
+
+    const properties: IProperty[] = await Property.find({
+      _id: { $in: [...new Set(viewings.map(viewing => String(viewing.property)))] }
+    }).select('title address');
+    const byId = new Map(properties.map(property => [String(property._id), property]));
+
+    const origin = process.env.APP_URL || new URL(request.url).origin;
+    const events = viewings.flatMap(viewing => {
+      const property = byId.get(String(viewing.property));
+      return property ? [toCalendarEvent(viewing, property, host, origin)] : [];
+    });
+
+    // Calendar apps poll the feed, they get an empty 304 until it changes
+    return conditionalResponse(request, renderCalendar({ name: `Viewings of ${host.name}`, events }), {
+      contentType: ICS_CONTENT_TYPE,
+      cacheControl: 'private, max-age=300'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error building viewing calendar');
+  }
+}
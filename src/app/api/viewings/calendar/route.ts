@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { handleApiError } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { calendarFeedUrl, generateCalendarToken } from '@/lib/viewings';
+import { User } from '@/models/User';
+
+function origin(request: NextRequest): string {
+  return process.env.APP_URL || new URL(request.url).origin;
+}
+
+/**
+ * Subscription URL of the signed-in host's viewing calendar, null until one
+ * was created
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'viewings:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const withToken = await User.findById(user._id).select('+calendarToken');
+    const token: string | undefined = withToken?.calendarToken;
+
+    return NextResponse.json({
+      success: true,
+      data: { url: token ? calendarFeedUrl(token, origin(request)) : null }
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching viewing calendar');
+  }
+}
+
+/**
+ * Create the calendar URL, or replace it so the old one stops working
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'viewings:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const token = generateCalendarToken();
+    await User.updateOne({ _id: user._id }, { calendarToken: token });
+
+    return NextResponse.json({
+      success: true,
+      data: { url: calendarFeedUrl(token, origin(request)) },
+      message: 'Calendar link created successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error creating viewing calendar');
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError, validationErrorResponse } from '@/lib/apiResponses';
+import { authorize } from '@/lib/authorization';
+import { isOnMarket } from '@/lib/propertyStatus';
+import { rateLimit } from '@/lib/rateLimit';
+import { validate } from '@/lib/schema';
+import { bookViewingSchema, notifyViewing, toViewingInfo, viewingQuerySchema } from '@/lib/viewings';
+import { Property } from '@/models/Property';
+import { IViewing, Viewing } from '@/models/Viewing';
+import { ViewingSlot } from '@/models/ViewingSlot';
+
+// Viewings listed at once, upcoming ones soonest first and past ones latest first
+const MAX_VIEWINGS = 100;
+
+/**
+ * Viewings the signed-in user booked or hosts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'viewings:book');
+    if (authError) {
+      return authError;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { data: params, errors } = validate(viewingQuerySchema, Object.fromEntries(searchParams));
+    if (errors || !params) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const now = new Date();
+    const upcoming = params.scope === 'upcoming';
+    const viewings: IViewing[] = await Viewing.find({
+      $or: [{ user: user._id }, { host: user._id }],
+      end: upcoming ? { $gt: now } : { $lte: now }
+    })
+      .populate('property', 'title')
+      .sort({ start: upcoming ? 1 : -1 })
+      .limit(MAX_VIEWINGS);
+
+    return NextResponse.json({
+      success: true,
+      data: viewings.map(viewing => toViewingInfo(viewing, user._id))
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error fetching viewings');
+  }
+}
+
+/**
+ * Book a viewing slot. Two people booking the same slot at once are kept
+ * apart by the unique index on confirmed bookings, the second gets a 409.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'viewings:book');
+    if (authError) {
+      return authError;
+    }
+
+    const limited = await rateLimit(request, 'viewings.book', user);
+    if (limited) {
+      return limited;
+    }
+
+    const body = await request.json();
+
+    const { data, errors } = validate(bookViewingSchema, body);
+    if (errors || !data) {
+      return validationErrorResponse(errors || {});
+    }
+
+    const slot = await ViewingSlot.findById(data.slot);
+    if (!slot) {
+      return errorResponse('SLOT_NOT_FOUND');
+    }
+    if (slot.start.getTime() <= Date.now()) {
+      return validationErrorResponse({ slot: 'This slot has already started' });
+    }
+    if (String(slot.owner) === String(user._id)) {
+      return errorResponse('FORBIDDEN', 'You cannot book a viewing you host');
+    }
+
+    const property = await Property.findById(slot.property);
+    if (!property || !isOnMarket(property)) {
+      return errorResponse('PROPERTY_NOT_FOUND');
+    }
+
+    let viewing: IViewing;
+    try {
+      viewing = await Viewing.create({
+        slot: slot._id,
+        property: property._id,
+        host: slot.owner,
+        user: user._id,
+        start: slot.start,
+        end: slot.end,
+        name: user.name,
+        email: user.email,
+        phone: data.phone
+      });
+    } catch (error) {
+      if ((error as { code?: unknown })?.code === 11000) {
+        return errorResponse('SLOT_BOOKED');
+      }
+      throw error;
+    }
+
+    // Confirmations go out after the response is sent
+    after(() => notifyViewing(viewing, process.env.APP_URL || new URL(request.url).origin));
+
+    return NextResponse.json({
+      success: true,
+      data: toViewingInfo(viewing, user._id),
+      message: 'Viewing booked successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    return handleApiError(error, 'Error booking viewing');
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureConnection } from '@/lib/db';
+import { errorResponse, handleApiError } from '@/lib/apiResponses';
+import { authorize, authorizeProperty } from '@/lib/authorization';
+import { Property } from '@/models/Property';
+import { Viewing } from '@/models/Viewing';
+import { ViewingSlot } from '@/models/ViewingSlot';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureConnection();
+
+    const { user, response: authError } = await authorize(request, 'viewings:manage');
+    if (authError) {
+      return authError;
+    }
+
+    const { id } = await params;
+    const slot = await ViewingSlot.findById(id);
+    if (!slot) {
+      return errorResponse('SLOT_NOT_FOUND');
+    }
+
+    // Slots of deleted listings stay manageable by their host
+    const property = await Property.findById(slot.property);
+    const forbidden = property
+      ? authorizeProperty(user, property)
+      : authorizeProperty(user, { owner: slot.owner });
+    if (forbidden) {
+      return forbidden;
+    }
+
+    // Booked slots are cancelled first, so the person who booked is told
+    if (await Viewing.exists({ slot: slot._id, status: 'confirmed' })) {
+      return errorResponse('SLOT_BOOKED', 'Cancel the viewing booked in this slot before removing it');
+    }
+
+    await slot.deleteOne();
+
+    return NextResponse.json({
+      success: true,
+      data: { deleted: true },
+      message: 'Viewing slot removed successfully'
+    });
+
+  } catch (error) {
+    return handleApiError(error, 'Error removing viewing slot');
+  }
+}
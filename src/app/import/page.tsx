@@ -0,0 +1,313 @@
+"use client"
+
+import {
+  Badge,
+  Banner,
+  Button,
+  Card,
+  Checkbox,
+  DropZone,
+  Layout,
+  Page,
+  ProgressBar,
+  Spinner,
+  Text
+} from '@shopify/polaris';
+import { useCallback, useEffect, useState } from 'react';
+import apiClient from '@/lib/apiClient';
+import { useAuth } from '@/lib/hooks';
+import { ImportJob, ImportPreview, ImportRowError } from '@/types';
+
+const POLL_INTERVAL_MS = 2000;
+
+const statusTones: Record<ImportJob['status'], 'info' | 'success' | 'critical'> = {
+  running: 'info',
+  completed: 'success',
+  failed: 'critical'
+};
+
+const rowStyle = {
+  padding: '0.5rem 0',
+  borderBottom: '1px solid #e1e3e5'
+};
+
+function RowErrors({ rowErrors }: { rowErrors: ImportRowError[] }) {
+  return (
+    <div style={{ marginTop: '1rem' }}>
+      {rowErrors.map(({ row, errors }) => (
+        <div key={row} style={rowStyle}>
+          <Text variant="bodySm" as="p" fontWeight="semibold">Row {row}</Text>
+          {Object.entries(errors).map(([field, message]) => (
+            <Text key={field} variant="bodySm" as="p" tone="critical">
+              {field === '_' ? message : `${field}: ${message}`}
+            </Text>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function Import() {
+  const { loading: authLoading, can } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [fetchImages, setFetchImages] = useState(false);
+  const [publish, setPublish] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canImport = can('listings:import');
+
+  const fetchJobs = useCallback(async () => {
+    const response = await apiClient.getImportJobs();
+    if (response.success && response.data) {
+      setJobs(response.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canImport) {
+      fetchJobs();
+    }
+  }, [canImport, fetchJobs]);
+
+  // Poll the running job until it completes or fails
+  const jobId = job?._id;
+  const jobRunning = job?.status === 'running';
+  useEffect(() => {
+    if (!jobId || !jobRunning) return;
+
+    const timer = setInterval(async () => {
+      const response = await apiClient.getImportJob(jobId);
+      if (response.success && response.data) {
+        setJob(response.data);
+        if (response.data.status !== 'running') {
+          fetchJobs();
+        }
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [jobId, jobRunning, fetchJobs]);
+
+  const handleDrop = useCallback((dropFiles: File[]) => {
+    setFile(dropFiles[0] || null);
+    setPreview(null);
+    setJob(null);
+    setError(null);
+  }, []);
+
+  const handleCheck = useCallback(async () => {
+    if (!file) return;
+
+    setChecking(true);
+    setError(null);
+    const response = await apiClient.previewImport(file);
+    if (response.success && response.data) {
+      setPreview(response.data);
+    } else {
+      setError(response.error || 'Failed to check the file');
+    }
+    setChecking(false);
+  }, [file]);
+
+  const handleImport = useCallback(async () => {
+    if (!file) return;
+
+    setStarting(true);
+    setError(null);
+    const response = await apiClient.startImport(file, { fetchImages, publish });
+    if (response.success && response.data) {
+      setJob(response.data);
+      setPreview(null);
+      fetchJobs();
+    } else {
+      setError(response.error || 'Failed to start the import');
+    }
+    setStarting(false);
+  }, [file, fetchImages, publish, fetchJobs]);
+
+  if (authLoading) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Import listings">
+        <div style={{ textAlign: 'center', padding: '4rem' }}>
+          <Spinner size="large" />
+        </div>
+      </Page>
+    );
+  }
+
+  if (!canImport) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Import listings">
+        <Banner tone="warning">
+          <p>Only admins can import listings.</p>
+        </Banner>
+      </Page>
+    );
+  }
+
+  return (
+    <Page backAction={{ content: 'Home', url: '/' }} title="Import listings">
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" onDismiss={() => setError(null)}>
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              <Text variant="headingMd" as="h2">File</Text>
+              <Text variant="bodyMd" as="p" tone="subdued">
+                A CSV file with a header row or a JSON array of listings. Columns are title, type
+                (label or id), price, description, latitude, longitude, address.*, attributes.* and
+                images (URLs separated by spaces or |).
+              </Text>
+
+              <div style={{ marginTop: '1rem' }}>
+                <DropZone
+                  dropOnPage={false}
+                  onDrop={handleDrop}
+                  accept=".csv,.json,text/csv,application/json"
+                  allowMultiple={false}
+                >
+                  {file ? (
+                    <div style={{ padding: '1rem' }}>
+                      <Text variant="bodyMd" as="p">{file.name}</Text>
+                      <Text variant="bodySm" as="p" tone="subdued">
+                        {(file.size / 1024).toFixed(1)} KB
+                      </Text>
+                    </div>
+                  ) : (
+                    <DropZone.FileUpload actionHint="Accepts .csv and .json files" />
+                  )}
+                </DropZone>
+              </div>
+
+              <div style={{ marginTop: '1rem' }}>
+                <Checkbox
+                  label="Copy images into storage"
+                  helpText="Downloads the image URLs instead of linking to them"
+                  checked={fetchImages}
+                  onChange={setFetchImages}
+                />
+                <Checkbox
+                  label="Publish imported listings"
+                  helpText="Listings are created as drafts otherwise"
+                  checked={publish}
+                  onChange={setPublish}
+                />
+              </div>
+
+              <div style={{ marginTop: '1rem', display: 'flex', gap: '0.5rem' }}>
+                <Button onClick={handleCheck} loading={checking} disabled={!file || jobRunning}>
+                  Check file
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={handleImport}
+                  loading={starting}
+                  disabled={!file || jobRunning || preview?.valid === 0}
+                >
+                  {preview ? `Import ${preview.valid} valid listing(s)` : 'Import'}
+                </Button>
+              </div>
+            </div>
+          </Card>
+        </Layout.Section>
+
+        {preview && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: '1rem' }}>
+                <Text variant="headingMd" as="h2">Check results</Text>
+                <Text variant="bodyMd" as="p">
+                  {preview.valid} of {preview.total} listing(s) can be imported
+                  {preview.invalid > 0 && `, ${preview.invalid} will be skipped`}
+                </Text>
+                {preview.rowErrors.length > 0 && <RowErrors rowErrors={preview.rowErrors} />}
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {job && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: '1rem' }}>
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                  <Text variant="headingMd" as="h2">{job.fileName}</Text>
+                  <Badge tone={statusTones[job.status]}>{job.status}</Badge>
+                </div>
+
+                <div style={{ margin: '1rem 0' }}>
+                  <ProgressBar
+                    progress={job.total > 0 ? Math.round((job.processed / job.total) * 100) : 100}
+                    tone={job.status === 'failed' ? 'critical' : 'primary'}
+                  />
+                </div>
+
+                <Text variant="bodyMd" as="p">
+                  {job.processed} of {job.total} processed, {job.created} created, {job.failed} failed
+                  {job.fetchImages && `, ${job.imagesFetched} image(s) copied`}
+                </Text>
+                {job.error && (
+                  <Text variant="bodyMd" as="p" tone="critical">{job.error}</Text>
+                )}
+
+                {job.rowErrors.length > 0 && <RowErrors rowErrors={job.rowErrors} />}
+
+                {job.imageErrors.length > 0 && (
+                  <div style={{ marginTop: '1rem' }}>
+                    <Text variant="headingSm" as="h3">Images that could not be copied</Text>
+                    {job.imageErrors.map(({ row, url, error: imageError }) => (
+                      <div key={`${row}-${url}`} style={rowStyle}>
+                        <Text variant="bodySm" as="p">Row {row}: {url}</Text>
+                        <Text variant="bodySm" as="p" tone="critical">{imageError}</Text>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+
+        {jobs.length > 0 && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: '1rem' }}>
+                <Text variant="headingMd" as="h2">Recent imports</Text>
+                {jobs.map(entry => (
+                  <div
+                    key={entry._id}
+                    style={{ ...rowStyle, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
+                  >
+                    <div>
+                      <Text variant="bodyMd" as="p" fontWeight="semibold">{entry.fileName}</Text>
+                      <Text variant="bodySm" as="p" tone="subdued">
+                        {new Date(entry.created_at).toLocaleString()} · {entry.created} of {entry.total} created
+                      </Text>
+                    </div>
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                      <Badge tone={statusTones[entry.status]}>{entry.status}</Badge>
+                      <Button variant="plain" onClick={() => setJob(entry)}>Details</Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,244 @@
+"use client"
+
+import { Badge, Banner, Button, Card, Layout, Page, Pagination, Select, Spinner, Text } from '@shopify/polaris';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import apiClient from '@/lib/apiClient';
+import { useAuth } from '@/lib/hooks';
+import { contactTimeLabels, getInquiryState } from '@/lib/inquiries';
+import { Inquiry, InquiryState } from '@/types';
+
+const stateOptions = [
+  { label: 'All inquiries', value: '' },
+  { label: 'New', value: 'new' },
+  { label: 'Read', value: 'read' },
+  { label: 'Replied', value: 'replied' },
+];
+
+const stateBadges: Record<InquiryState, { tone?: 'info' | 'success'; label: string }> = {
+  new: { tone: 'info', label: 'New' },
+  read: { label: 'Read' },
+  replied: { tone: 'success', label: 'Replied' },
+};
+
+const PAGE_SIZE = 50;
+
+export default function Inbox() {
+  const { loading: authLoading, can } = useAuth();
+  const [inquiries, setInquiries] = useState<Inquiry[]>([]);
+  const [state, setState] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [unread, setUnread] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManageInquiries = can('inquiries:manage');
+
+  const fetchInquiries = useCallback(async () => {
+    setLoading(true);
+    const response = await apiClient.getInquiries({
+      page,
+      limit: PAGE_SIZE,
+      state: (state || undefined) as InquiryState | undefined,
+    });
+    if (response.success && response.data) {
+      setInquiries(response.data);
+      setTotalPages(response.pagination.totalPages);
+      setUnread(response.unread || 0);
+    } else {
+      setError(response.error || 'Failed to load inquiries');
+    }
+    setLoading(false);
+  }, [page, state]);
+
+  useEffect(() => {
+    if (canManageInquiries) {
+      fetchInquiries();
+    }
+  }, [canManageInquiries, fetchInquiries]);
+
+  const handleStateChange = useCallback((value: string) => {
+    setState(value);
+    setPage(1);
+  }, []);
+
+  const handleUpdate = useCallback(async (inquiry: Inquiry, changes: { read?: boolean; replied?: boolean }) => {
+    setUpdatingId(inquiry._id);
+    setError(null);
+
+    const response = await apiClient.updateInquiry({ id: inquiry._id, ...changes });
+    if (response.success && response.data) {
+      const { read_at, replied_at } = response.data;
+      const wasNew = getInquiryState(inquiry) === 'new';
+      const isNew = getInquiryState({ read_at, replied_at }) === 'new';
+      setInquiries(prev => prev.map(item => item._id === inquiry._id ? { ...item, read_at, replied_at } : item));
+      setUnread(prev => prev + (isNew ? 1 : 0) - (wasNew ? 1 : 0));
+    } else {
+      setError(response.error || 'Failed to update inquiry');
+    }
+    setUpdatingId(null);
+  }, []);
+
+  // Inquiries come newest first, grouped by listing in order of their latest inquiry
+  const groups = useMemo(() => {
+    const byProperty = new Map<string, { title: string; inquiries: Inquiry[] }>();
+    for (const inquiry of inquiries) {
+      const id = typeof inquiry.property === 'string' ? inquiry.property : inquiry.property._id;
+      const title = typeof inquiry.property === 'string' ? 'Deleted listing' : inquiry.property.title;
+      const group = byProperty.get(id) || { title, inquiries: [] };
+      group.inquiries.push(inquiry);
+      byProperty.set(id, group);
+    }
+    return [...byProperty.entries()].map(([id, group]) => ({ id, ...group }));
+  }, [inquiries]);
+
+  if (authLoading) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Inbox">
+        <div style={{ textAlign: 'center', padding: '4rem' }}>
+          <Spinner size="large" />
+        </div>
+      </Page>
+    );
+  }
+
+  if (!canManageInquiries) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Inbox">
+        <Banner tone="warning">
+          <p>Only agents can read inquiries about their listings.</p>
+        </Banner>
+      </Page>
+    );
+  }
+
+  return (
+    <Page
+      backAction={{ content: 'Home', url: '/' }}
+      title="Inbox"
+      subtitle={unread > 0 ? `${unread} new inquir${unread === 1 ? 'y' : 'ies'}` : undefined}
+    >
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" onDismiss={() => setError(null)}>
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              <div style={{ maxWidth: '240px', marginBottom: '1rem' }}>
+                <Select
+                  label="Show"
+                  options={stateOptions}
+                  value={state}
+                  onChange={handleStateChange}
+                />
+              </div>
+
+              {loading ? (
+                <div style={{ textAlign: 'center', padding: '2rem' }}>
+                  <Spinner size="large" />
+                </div>
+              ) : groups.length === 0 ? (
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  No inquiries yet.
+                </Text>
+              ) : (
+                groups.map(group => (
+                  <div key={group.id} style={{ marginBottom: '1.5rem' }}>
+                    <Text variant="headingMd" as="h2">
+                      <a href={`/${group.id}`}>{group.title}</a>
+                    </Text>
+                    {group.inquiries.map(inquiry => {
+                      const inquiryState = getInquiryState(inquiry);
+                      const badge = stateBadges[inquiryState];
+                      return (
+                        <div
+                          key={inquiry._id}
+                          style={{ padding: '0.75rem 0', borderBottom: '1px solid #e1e3e5' }}
+                        >
+                          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                              <Text variant="bodyMd" as="span" fontWeight={inquiryState === 'new' ? 'bold' : 'semibold'}>
+                                {inquiry.name}
+                              </Text>
+                              <Badge tone={badge.tone}>{badge.label}</Badge>
+                            </div>
+                            <Text variant="bodySm" as="span" tone="subdued">
+                              {new Date(inquiry.created_at).toLocaleString()}
+                            </Text>
+                          </div>
+                          <Text variant="bodySm" as="p" tone="subdued">
+                            {inquiry.email}
+                            {inquiry.phone ? ` · ${inquiry.phone}` : ''}
+                            {` · Prefers ${contactTimeLabels[inquiry.preferredContactTime].toLowerCase()}`}
+                          </Text>
+                          <div style={{ margin: '0.5rem 0', whiteSpace: 'pre-wrap' }}>
+                            <Text variant="bodyMd" as="p">
+                              {inquiry.message}
+                            </Text>
+                          </div>
+                          <div style={{ display: 'flex', gap: '1rem' }}>
+                            <Button
+                              variant="plain"
+                              url={`mailto:${inquiry.email}?subject=${encodeURIComponent(`Re: ${group.title}`)}`}
+                            >
+                              Reply by email
+                            </Button>
+                            {inquiryState === 'replied' ? (
+                              <Button
+                                variant="plain"
+                                onClick={() => handleUpdate(inquiry, { replied: false })}
+                                loading={updatingId === inquiry._id}
+                              >
+                                Mark as not replied
+                              </Button>
+                            ) : (
+                              <>
+                                <Button
+                                  variant="plain"
+                                  onClick={() => handleUpdate(inquiry, { replied: true })}
+                                  loading={updatingId === inquiry._id}
+                                >
+                                  Mark as replied
+                                </Button>
+                                <Button
+                                  variant="plain"
+                                  onClick={() => handleUpdate(inquiry, { read: inquiryState === 'new' })}
+                                  disabled={updatingId === inquiry._id}
+                                >
+                                  {inquiryState === 'new' ? 'Mark as read' : 'Mark as unread'}
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))
+              )}
+
+              {totalPages > 1 && (
+                <div style={{ marginTop: '2rem', display: 'flex', justifyContent: 'center' }}>
+                  <Pagination
+                    label={`Page ${page} of ${totalPages}`}
+                    hasPrevious={page > 1}
+                    onPrevious={() => setPage(page - 1)}
+                    hasNext={page < totalPages}
+                    onNext={() => setPage(page + 1)}
+                  />
+                </div>
+              )}
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
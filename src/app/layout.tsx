@@ -16,6 +16,13 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "Propertio",
   description: "Real Estate Management System",
+  alternates: {
+    types: {
+      "application/atom+xml": "/api/properties/feed",
+      "application/rss+xml": "/api/properties/feed?format=rss",
+      "application/feed+json": "/api/properties/feed?format=json",
+    },
+  },
 };
 
 export default function RootLayout({
@@ -0,0 +1,75 @@
+"use client"
+
+import { Banner, Button, Card, FormLayout, Layout, Page, Text, TextField } from '@shopify/polaris';
+import { useCallback, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/hooks';
+
+// Only same-site paths are followed after signing in
+function getRedirectTarget(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+export default function Login() {
+  const router = useRouter();
+  const { login, loading, error, clearError } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = useCallback(async () => {
+    const result = await login({ email: email.trim(), password });
+    if (result.success) {
+      router.replace(getRedirectTarget());
+    }
+  }, [email, password, login, router]);
+
+  return (
+    <Page backAction={{ content: 'Home', url: '/' }} title="Sign in" narrowWidth>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              {error && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <Banner tone="critical" onDismiss={clearError}>
+                    <p>{error}</p>
+                  </Banner>
+                </div>
+              )}
+
+              <form onSubmit={event => { event.preventDefault(); handleSubmit(); }}>
+                <FormLayout>
+                  <TextField
+                    label="Email"
+                    type="email"
+                    value={email}
+                    onChange={setEmail}
+                    autoComplete="email"
+                  />
+                  <TextField
+                    label="Password"
+                    type="password"
+                    value={password}
+                    onChange={setPassword}
+                    autoComplete="current-password"
+                  />
+                  <Button variant="primary" submit loading={loading} fullWidth>
+                    Sign in
+                  </Button>
+                </FormLayout>
+              </form>
+
+              <div style={{ marginTop: '1rem', textAlign: 'center' }}>
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  No account yet? <Link href="/signup">Create one</Link>
+                </Text>
+              </div>
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
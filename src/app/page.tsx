@@ -14,51 +14,105 @@ import {
   TextField,
   Select,
   LegacyStack,
-  Icon
+  Icon,
+  Banner,
+  Modal,
+  Checkbox
 } from '@shopify/polaris';
 import { ImageIcon, SearchIcon } from '@shopify/polaris-icons';
 import Link from 'next/link';
-import { useProperties, usePropertyTypes } from '@/lib/hooks';
-import { useCallback, useState, useEffect } from 'react';
+import { useAuth, useProperties, usePropertyTypes } from '@/lib/hooks';
+import apiClient from '@/lib/apiClient';
+import { useCallback, useMemo, useState, useEffect } from 'react';
+import HighlightedText from '@/components/HighlightedText';
+import { ExportFormat, PropertyQueryParams, PropertySearchHighlights } from '@/types';
+import { recentlyReducedSince, reductionPercent } from '@/lib/priceHistory';
+
+// Sort choices, the default lists the newest first or, when searching, the best matches
+const sortChoices: Record<string, Pick<PropertyQueryParams, 'sortBy' | 'sortOrder'>> = {
+  price_asc: { sortBy: 'price', sortOrder: 'asc' },
+  price_desc: { sortBy: 'price', sortOrder: 'desc' },
+  reduced_at: { sortBy: 'reduced_at', sortOrder: 'desc' },
+};
+
+const sortOptions = [
+  { label: 'Newest', value: '' },
+  { label: 'Price: low to high', value: 'price_asc' },
+  { label: 'Price: high to low', value: 'price_desc' },
+  { label: 'Recently reduced', value: 'reduced_at' },
+];
 
 export default function Home() {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedType, setSelectedType] = useState('');
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [recentlyReduced, setRecentlyReduced] = useState(false);
+  const [sort, setSort] = useState('');
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const [debouncedPrices, setDebouncedPrices] = useState({ min: '', max: '' });
+  const [saveModalOpen, setSaveModalOpen] = useState(false);
+  const [searchName, setSearchName] = useState('');
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savedSearchName, setSavedSearchName] = useState<string | null>(null);
 
-  const { properties, loading, error, pagination, fetchProperties } = useProperties({
+  const { properties, loading, error, pagination, facets, fetchProperties } = useProperties({
     initialParams: { page: 1, limit: 6 },
     autoFetch: true
   });
   const { propertyTypes } = usePropertyTypes();
+  const { user, logout, can } = useAuth();
 
-  // Debounce search term
+  // Signed-out visitors are sent to sign in, viewers cannot post at all
+  const canPost = !user || can('listings:write');
+
+  // Debounce search term and price range
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedSearchTerm(searchTerm);
+      setDebouncedPrices({ min: minPrice, max: maxPrice });
     }, 500);
 
     return () => clearTimeout(timer);
-  }, [searchTerm]);
+  }, [searchTerm, minPrice, maxPrice]);
+
+  // Filters shown on the page, shared by the listing, exports and saved searches
+  const filters = useMemo(() => ({
+    search: debouncedSearchTerm || undefined,
+    type: selectedType || undefined,
+    minPrice: debouncedPrices.min ? Number(debouncedPrices.min) : undefined,
+    maxPrice: debouncedPrices.max ? Number(debouncedPrices.max) : undefined
+  }), [debouncedSearchTerm, selectedType, debouncedPrices]);
 
-  // Apply filters when search term or type changes
+  const hasFilters = Object.values(filters).some(value => value !== undefined);
+
+  // The listing and exports also narrow to recent price drops and sort, saved
+  // searches do not
+  const listParams = useMemo((): PropertyQueryParams => ({
+    ...filters,
+    recentlyReduced: recentlyReduced || undefined,
+    ...(sortChoices[sort] || { sortBy: filters.search ? 'relevance' : undefined })
+  }), [filters, recentlyReduced, sort]);
+
+  // Apply filters when they change
   useEffect(() => {
     fetchProperties({ 
       page: 1, 
       limit: 6, 
-      search: debouncedSearchTerm || undefined,
-      type: selectedType || undefined
+      ...listParams,
+      facets: true
     });
-  }, [debouncedSearchTerm, selectedType, fetchProperties]);
+  }, [listParams, fetchProperties]);
 
   const handlePageChange = useCallback((page: number) => {
     fetchProperties({ 
       page, 
       limit: 6,
-      search: debouncedSearchTerm || undefined,
-      type: selectedType || undefined
+      ...listParams,
+      facets: true
     });
-  }, [fetchProperties, debouncedSearchTerm, selectedType]);
+  }, [fetchProperties, listParams]);
 
   const handleSearchChange = useCallback((value: string) => {
     setSearchTerm(value);
@@ -71,9 +125,46 @@ export default function Home() {
   const clearFilters = useCallback(() => {
     setSearchTerm('');
     setSelectedType('');
+    setMinPrice('');
+    setMaxPrice('');
+    setRecentlyReduced(false);
     setDebouncedSearchTerm('');
+    setDebouncedPrices({ min: '', max: '' });
   }, []);
 
+  // Exports follow the filters shown on the page, the file downloads
+  // without leaving the page
+  const exportUrl = useCallback((format: ExportFormat) => apiClient.getExportUrl({
+    format,
+    ...listParams
+  }), [listParams]);
+
+  const openSaveModal = useCallback(() => {
+    setSearchName(filters.search || '');
+    setSaveError(null);
+    setSaveModalOpen(true);
+  }, [filters.search]);
+
+  const handleSaveSearch = useCallback(async () => {
+    setSavingSearch(true);
+    setSaveError(null);
+
+    const response = await apiClient.createSavedSearch({ name: searchName.trim(), params: filters });
+    if (response.success && response.data) {
+      setSavedSearchName(response.data.name);
+      setSaveModalOpen(false);
+    } else {
+      setSaveError(response.errors ? Object.values(response.errors).join(', ') : response.error || 'Failed to save search');
+    }
+    setSavingSearch(false);
+  }, [searchName, filters]);
+
+  const getPropertyTypeOptionLabel = useCallback((typeId: string, label: string) => {
+    if (!facets) return label;
+    const count = facets.types.find(type => type._id === typeId)?.count || 0;
+    return `${label} (${count})`;
+  }, [facets]);
+
   const getPropertyTypeLabel = useCallback((typeId: string) => {
     const propertyType = propertyTypes.find(type => type._id?.toString() === typeId);
     return propertyType?.label || 'Unknown';
@@ -98,7 +189,37 @@ export default function Home() {
   }, []);
 
   return (
-    <Page title="Propertio - Real Estate Management">
+    <Page
+      title="Propertio - Real Estate Management"
+      actionGroups={[
+        {
+          title: 'Export',
+          actions: [
+            { content: 'CSV', onAction: () => window.location.assign(exportUrl('csv')) },
+            { content: 'Excel (XLSX)', onAction: () => window.location.assign(exportUrl('xlsx')) },
+            { content: 'JSON Lines', onAction: () => window.location.assign(exportUrl('ndjson')) }
+          ]
+        }
+      ]}
+      secondaryActions={
+        user
+          ? [
+              ...(can('apiKeys:manage') ? [{ content: 'API keys', url: '/api-keys' }] : []),
+              ...(can('users:manage') ? [{ content: 'Users', url: '/users' }] : []),
+              ...(can('listings:import') ? [{ content: 'Import', url: '/import' }] : []),
+              ...(can('savedSearches:manage') ? [{ content: 'Saved searches', url: '/saved-searches' }] : []),
+              ...(can('inquiries:manage') ? [{ content: 'Inbox', url: '/inbox' }] : []),
+              ...(can('viewings:book') ? [{ content: 'Viewings', url: '/viewings' }] : []),
+              { content: 'API reference', url: '/api-docs' },
+              { content: `Sign out ${user.name}`, onAction: logout }
+            ]
+          : [
+              { content: 'API reference', url: '/api-docs' },
+              { content: 'Sign in', url: '/login' },
+              { content: 'Create account', url: '/signup' }
+            ]
+      }
+    >
       <Layout>
         <Layout.Section>
           <Card>
@@ -111,11 +232,13 @@ export default function Home() {
               </Text>
               
               <div style={{ marginTop: '2rem', display: 'flex', gap: '1rem', justifyContent: 'center' }}>
-                <Link href="/post">
-                  <Button variant="primary" size="large">
-                    Post New Property
-                  </Button>
-                </Link>
+                {canPost && (
+                  <Link href="/post">
+                    <Button variant="primary" size="large">
+                      Post New Property
+                    </Button>
+                  </Link>
+                )}
                 <Button size="large">
                   Browse Properties
                 </Button>
@@ -155,7 +278,7 @@ export default function Home() {
                       options={[
                         { label: 'All Types', value: '' },
                         ...propertyTypes.map(type => ({
-                          label: type.label,
+                          label: getPropertyTypeOptionLabel(type._id?.toString() || '', type.label),
                           value: type._id?.toString() || ''
                         }))
                       ]}
@@ -164,17 +287,74 @@ export default function Home() {
                       placeholder="Select type"
                     />
                   </div>
+
+                  <div style={{ width: '140px' }}>
+                    <TextField
+                      label="Min price"
+                      type="number"
+                      min={0}
+                      value={minPrice}
+                      onChange={setMinPrice}
+                      prefix="$"
+                      autoComplete="off"
+                    />
+                  </div>
+
+                  <div style={{ width: '140px' }}>
+                    <TextField
+                      label="Max price"
+                      type="number"
+                      min={0}
+                      value={maxPrice}
+                      onChange={setMaxPrice}
+                      prefix="$"
+                      autoComplete="off"
+                    />
+                  </div>
                   
-                  <div style={{ display: 'flex', alignItems: 'end' }}>
+                  <div style={{ minWidth: '180px' }}>
+                    <Select
+                      label="Sort by"
+                      options={sortOptions}
+                      value={sort}
+                      onChange={setSort}
+                    />
+                  </div>
+
+                  <div style={{ display: 'flex', alignItems: 'end', paddingBottom: '0.25rem' }}>
+                    <Checkbox
+                      label="Recently reduced"
+                      checked={recentlyReduced}
+                      onChange={setRecentlyReduced}
+                    />
+                  </div>
+
+                  <div style={{ display: 'flex', alignItems: 'end', gap: '0.5rem' }}>
                     <Button
                       onClick={clearFilters}
                       variant="plain"
-                      disabled={!searchTerm && !selectedType}
+                      disabled={!searchTerm && !selectedType && !minPrice && !maxPrice && !recentlyReduced}
                     >
                       Clear Filters
                     </Button>
+                    {user && can('savedSearches:manage') && (
+                      <Button onClick={openSaveModal} disabled={!hasFilters}>
+                        Save search
+                      </Button>
+                    )}
                   </div>
                 </LegacyStack>
+
+                {savedSearchName && (
+                  <div style={{ marginTop: '1rem' }}>
+                    <Banner tone="success" onDismiss={() => setSavedSearchName(null)}>
+                      <p>
+                        Saved &quot;{savedSearchName}&quot;. New listings matching it will be sent to you
+                        in a digest. <Link href="/saved-searches">Manage saved searches</Link>
+                      </p>
+                    </Banner>
+                  </div>
+                )}
               </div>
 
               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
@@ -212,79 +392,94 @@ export default function Home() {
                   image="https://cdn.shopify.com/s/files/1/0262/4071/2726/files/emptystate-files.png"
                 >
                   <p>Get started by posting your first property.</p>
-                  <Link href="/post">
-                    <Button variant="primary">Post New Property</Button>
-                  </Link>
+                  {canPost && (
+                    <Link href="/post">
+                      <Button variant="primary">Post New Property</Button>
+                    </Link>
+                  )}
                 </EmptyState>
               )}
 
               {!loading && !error && properties.length > 0 && (
                 <>
                   <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(300px, 1fr))', gap: '1rem' }}>
-                    {properties.map((property) => (
-                      <Card key={property._id?.toString() || Math.random().toString()}>
-                        <div style={{ padding: '1rem', display: 'flex', flexDirection: 'column', height: '100%' }}>
-                          <div style={{ marginBottom: '1rem' }}>
-                            <Thumbnail
-                              size="large"
-                              alt={property.title}
-                              source={
-                                property.images && property.images.length > 0
-                                  ? property.images[0]
-                                  : ImageIcon
-                              }
-                            />
-                          </div>
+                    {properties.map((property) => {
+                      const highlights = (property as typeof property & { highlights?: PropertySearchHighlights }).highlights;
+
+                      return (
+                        <Card key={property._id?.toString() || Math.random().toString()}>
+                          <div style={{ padding: '1rem', display: 'flex', flexDirection: 'column', height: '100%' }}>
+                            <div style={{ marginBottom: '1rem' }}>
+                              <Thumbnail
+                                size="large"
+                                alt={property.title}
+                                source={
+                                  property.images && property.images.length > 0
+                                    ? property.images[0]
+                                    : ImageIcon
+                                }
+                              />
+                            </div>
                           
-                          <div style={{ flex: 1 }}>
-                            <Text variant="headingMd" as="h3" fontWeight="bold">
-                              {property.title}
-                            </Text>
+                            <div style={{ flex: 1 }}>
+                              <Text variant="headingMd" as="h3" fontWeight="bold">
+                                <HighlightedText highlight={highlights?.title} fallback={property.title} />
+                              </Text>
                             
-                            <div style={{ marginTop: '0.5rem' }}>
-                              <Badge tone="info">
-                                {getPropertyTypeLabel(property.type._id.toString())}
-                              </Badge>
-                            </div>
+                              <div style={{ marginTop: '0.5rem' }}>
+                                <Badge tone="info">
+                                  {getPropertyTypeLabel(property.type._id.toString())}
+                                </Badge>
+                              </div>
                             
-                            <div style={{ marginTop: '0.5rem' }}>
-                              <Text variant="headingLg" as="p" fontWeight="bold" tone="success">
-                                {formatPrice(property.price)}
-                              </Text>
-                            </div>
+                              <div style={{ marginTop: '0.5rem', display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                                <Text variant="headingLg" as="p" fontWeight="bold" tone="success">
+                                  {formatPrice(property.price)}
+                                </Text>
+                                {property.reducedFrom && property.reduced_at
+                                  && new Date(property.reduced_at) >= recentlyReducedSince() && (
+                                  <Badge tone="success">
+                                    {`Reduced ${reductionPercent(property.reducedFrom, property.price)}%`}
+                                  </Badge>
+                                )}
+                              </div>
                             
-                            <div style={{ marginTop: '0.5rem' }}>
-                              <Text variant="bodyMd" as="p" tone="subdued">
-                                {property.description.length > 100
-                                  ? `${property.description.substring(0, 100)}...`
-                                  : property.description
-                                }
-                              </Text>
-                            </div>
+                              <div style={{ marginTop: '0.5rem' }}>
+                                <Text variant="bodyMd" as="p" tone="subdued">
+                                  <HighlightedText
+                                    highlight={highlights?.description}
+                                    fallback={property.description.length > 100
+                                      ? `${property.description.substring(0, 100)}...`
+                                      : property.description
+                                    }
+                                  />
+                                </Text>
+                              </div>
                             
-                            <div style={{ marginTop: '1rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                              <Text variant="bodySm" as="p" tone="subdued">
-                                Posted {formatDate(property.created_at)}
-                              </Text>
-                              
-                              {property.images && property.images.length > 0 && (
+                              <div style={{ marginTop: '1rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                                 <Text variant="bodySm" as="p" tone="subdued">
-                                  {property.images.length} image{property.images.length !== 1 ? 's' : ''}
+                                  Posted {formatDate(property.created_at)}
                                 </Text>
-                              )}
+                              
+                                {property.images && property.images.length > 0 && (
+                                  <Text variant="bodySm" as="p" tone="subdued">
+                                    {property.images.length} image{property.images.length !== 1 ? 's' : ''}
+                                  </Text>
+                                )}
+                              </div>
                             </div>
-                          </div>
                           
-                          <div style={{ marginTop: '1rem' }}>
-                            <Link href={`/${property._id}`}>
-                              <Button fullWidth variant="primary">
-                                View Details
-                              </Button>
-                            </Link>
+                            <div style={{ marginTop: '1rem' }}>
+                              <Link href={`/${property._id}`}>
+                                <Button fullWidth variant="primary">
+                                  View Details
+                                </Button>
+                              </Link>
+                            </div>
                           </div>
-                        </div>
-                      </Card>
-                    ))}
+                        </Card>
+                      );
+                    })}
                   </div>
 
                   {pagination.totalPages > 1 && (
@@ -304,6 +499,30 @@ export default function Home() {
           </Card>
         </Layout.Section>
       </Layout>
+
+      <Modal
+        open={saveModalOpen}
+        onClose={() => setSaveModalOpen(false)}
+        title="Save search"
+        primaryAction={{
+          content: 'Save',
+          onAction: handleSaveSearch,
+          loading: savingSearch,
+          disabled: !searchName.trim()
+        }}
+        secondaryActions={[{ content: 'Cancel', onAction: () => setSaveModalOpen(false) }]}
+      >
+        <Modal.Section>
+          <TextField
+            label="Name"
+            value={searchName}
+            onChange={setSearchName}
+            error={saveError || undefined}
+            helpText="You will get a digest when new listings match the current filters"
+            autoComplete="off"
+          />
+        </Modal.Section>
+      </Modal>
     </Page>
   );
 }
@@ -4,6 +4,7 @@ import {
   Banner,
   Button,
   Card,
+  Checkbox,
   DropZone,
   FormLayout,
   Icon,
@@ -18,11 +19,23 @@ import {
   Toast
 } from '@shopify/polaris';
 import { CheckIcon, DeleteIcon, ImageIcon, NoteIcon, RefreshIcon } from '@shopify/polaris-icons';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import apiClient from '@/lib/apiClient';
-import { usePropertyTypes } from '@/lib/hooks';
+import { useAuth, usePropertyTypes } from '@/lib/hooks';
 import { useUploadManager } from '@/hooks/useUploadManager';
+import { parsePropertyAttributes } from '@/lib/propertyValidation';
+import { createPropertySchema } from '@/lib/propertySchemas';
+import { MAX_IMAGE_BYTES } from '@/lib/imageLimits';
+import { FieldErrors, validate } from '@/lib/schema';
+import { PropertyAttributes } from '@/types';
+
+// Field errors are keyed like the request body, the form calls `type` propertyType
+function toFormErrors(errors: FieldErrors): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(errors).map(([key, message]) => [key === 'type' ? 'propertyType' : key, message])
+  );
+}
 
 // Extend File interface to include UUID
 interface FileWithUUID extends File {
@@ -31,12 +44,15 @@ interface FileWithUUID extends File {
 
 export default function Post() {
   const router = useRouter();
+  const { user, loading: authLoading, can } = useAuth();
   const { propertyTypes, loading: typesLoading } = usePropertyTypes();
   const { uploads, isUploading, uploadFiles, retryUpload, clearUploads } = useUploadManager();
   const [files, setFiles] = useState<FileWithUUID[]>([]);
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   const [toastError, setToastError] = useState(false);
+  // Created property waiting for its image uploads before it is published
+  const [draftPropertyId, setDraftPropertyId] = useState<string | null>(null);
   
   // Form state
   const [formData, setFormData] = useState({
@@ -46,41 +62,40 @@ export default function Post() {
     description: ''
   });
 
+  // Custom attribute values for the selected property type, keyed by attribute key
+  const [attributeValues, setAttributeValues] = useState<PropertyAttributes>({});
+
   // Form validation
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  const validateForm = useCallback(() => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.title.trim()) {
-      newErrors.title = 'Title is required';
-    }
-
-    if (!formData.propertyType) {
-      newErrors.propertyType = 'Property type is required';
-    }
-
-    if (!formData.price.trim()) {
-      newErrors.price = 'Price is required';
-    } else {
-      const price = parseFloat(formData.price);
-      if (isNaN(price) || price <= 0) {
-        newErrors.price = 'Price must be a positive number';
-      }
-    }
+  const attributeDefinitions = useMemo(() => {
+    const propertyType = propertyTypes.find(type => type._id?.toString() === formData.propertyType);
+    return propertyType?.attributes || [];
+  }, [propertyTypes, formData.propertyType]);
 
-    if (!formData.description.trim()) {
-      newErrors.description = 'Description is required';
-    }
+  // The form uses the same schema as the API, `type` is the property type select
+  const validateForm = useCallback(() => {
+    const { errors: fieldErrors = {} } = validate(createPropertySchema, {
+      title: formData.title,
+      type: formData.propertyType,
+      price: formData.price,
+      description: formData.description,
+    });
+    const newErrors = toFormErrors(fieldErrors);
+
+    const { errors: attributeErrors } = parsePropertyAttributes(attributeDefinitions, attributeValues);
+    Object.entries(attributeErrors || {}).forEach(([key, message]) => {
+      newErrors[`attributes.${key}`] = message;
+    });
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [formData]);
+  }, [formData, attributeDefinitions, attributeValues]);
 
   const handleDropZoneDrop = useCallback(
     (dropFiles: File[]) => {
       const validFiles = dropFiles.filter(file => 
-        file.type.startsWith('image/') && file.size <= 10 * 1024 * 1024
+        file.type.startsWith('image/') && file.size <= MAX_IMAGE_BYTES
       );
       
       // Add UUIDs to all valid files
@@ -114,25 +129,43 @@ export default function Post() {
         type: formData.propertyType,
         price: parseFloat(formData.price),
         description: formData.description.trim(),
+        attributes: parsePropertyAttributes(attributeDefinitions, attributeValues).attributes,
       };
 
       console.log('Creating property with data:', propertyData);
       const createResponse = await apiClient.createProperty(propertyData);
 
       if (!createResponse.success) {
+        // Show the server's field errors next to their inputs
+        if (createResponse.errors) {
+          setErrors(toFormErrors(createResponse.errors));
+          setToastMessage('Please fix the form errors');
+          setToastError(true);
+          setShowToast(true);
+          return;
+        }
         throw new Error(createResponse.error || 'Failed to create property');
       }
 
       const property = createResponse.data;
       console.log('Property created:', property?._id);
 
-      // Start image uploads if any
+      // Start image uploads if any, the draft is published once they complete
       if (files.length > 0 && property && property._id) {
         console.log('Starting upload for', files.length, 'files');
+        setDraftPropertyId(property._id.toString());
         await uploadFiles(files, property._id.toString());
+
+        setToastMessage('Property created successfully! Images are uploading...');
+      } else if (property && property._id) {
+        const publishResponse = await apiClient.publishProperty(property._id.toString());
+        if (!publishResponse.success) {
+          throw new Error(publishResponse.error || 'Failed to publish property');
+        }
+
+        setToastMessage('Property published successfully!');
       }
       
-      setToastMessage('Property created successfully! Images are uploading...');
       setToastError(false);
       setShowToast(true);
 
@@ -143,6 +176,7 @@ export default function Post() {
         price: '',
         description: ''
       });
+      setAttributeValues({});
       
     } catch (error) {
       console.error('Error creating property:', error);
@@ -150,7 +184,14 @@ export default function Post() {
       setToastError(true);
       setShowToast(true);
     }
-  }, [formData, files, validateForm, router, uploadFiles, clearUploads]);
+  }, [formData, attributeDefinitions, attributeValues, files, validateForm, router, uploadFiles, clearUploads]);
+
+  // Posting requires an account
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.replace('/login?next=/post');
+    }
+  }, [authLoading, user, router]);
 
   useEffect(() => {
     console.log('Uploads changed:', uploads.map(u => ({ filename: u.filename, status: u.status })));
@@ -159,12 +200,23 @@ export default function Post() {
       setToastMessage('Some images failed to upload. Please try again.');
       setToastError(true);
       setShowToast(true);
-    }else if (files.length && uploads.length && uploads.every(u => u.status === 'completed')){
-      setTimeout(() => {
-        router.push('/');
-      }, 3000);
+    }else if (files.length && uploads.length && uploads.every(u => u.status === 'completed') && draftPropertyId){
+      // Every image is in place, make the listing live
+      setDraftPropertyId(null);
+      apiClient.publishProperty(draftPropertyId).then(response => {
+        if (!response.success) {
+          setToastMessage(response.error || 'Failed to publish property');
+          setToastError(true);
+          setShowToast(true);
+          return;
+        }
+
+        setTimeout(() => {
+          router.push('/');
+        }, 3000);
+      });
     }
-  }, [uploads, files.length, clearUploads, router]);
+  }, [uploads, files.length, draftPropertyId, clearUploads, router]);
 
   // Form field change handlers
   const handleTitleChange = useCallback((value: string) => {
@@ -176,10 +228,19 @@ export default function Post() {
 
   const handlePropertyTypeChange = useCallback((value: string) => {
     setFormData(prev => ({ ...prev, propertyType: value }));
-    if (errors.propertyType) {
-      setErrors(prev => ({ ...prev, propertyType: '' }));
+    // Each type declares its own attributes, so start over when it changes
+    setAttributeValues({});
+    setErrors(prev => Object.fromEntries(
+      Object.entries(prev).filter(([key]) => key !== 'propertyType' && !key.startsWith('attributes.'))
+    ));
+  }, []);
+
+  const handleAttributeChange = useCallback((key: string, value: string | boolean) => {
+    setAttributeValues(prev => ({ ...prev, [key]: value }));
+    if (errors[`attributes.${key}`]) {
+      setErrors(prev => ({ ...prev, [`attributes.${key}`]: '' }));
     }
-  }, [errors.propertyType]);
+  }, [errors]);
 
   const handlePriceChange = useCallback((value: string) => {
     setFormData(prev => ({ ...prev, price: value }));
@@ -275,6 +336,36 @@ export default function Post() {
     </div>
   );
 
+  if (user && !can('listings:write')) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Post New Property">
+        <Layout>
+          <Layout.Section>
+            <Banner tone="warning">
+              <p>Your account can browse listings but not post them. Ask an admin for agent access.</p>
+            </Banner>
+          </Layout.Section>
+        </Layout>
+      </Page>
+    );
+  }
+
+  if (authLoading || !user) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Post New Property">
+        <Layout>
+          <Layout.Section>
+            <Card>
+              <div style={{ textAlign: 'center', padding: '4rem' }}>
+                <Spinner size="large" />
+              </div>
+            </Card>
+          </Layout.Section>
+        </Layout>
+      </Page>
+    );
+  }
+
   const propertyTypeOptions = propertyTypes.map(type => ({
     label: type.label,
     value: type._id?.toString() || ''
@@ -320,6 +411,55 @@ export default function Post() {
                   disabled={typesLoading}
                 />
 
+                {attributeDefinitions.map(definition => {
+                  const error = errors[`attributes.${definition.key}`];
+                  const label = definition.unit ? `${definition.label} (${definition.unit})` : definition.label;
+
+                  if (definition.type === 'boolean') {
+                    return (
+                      <Checkbox
+                        key={definition.key}
+                        label={label}
+                        checked={attributeValues[definition.key] === true}
+                        onChange={(checked) => handleAttributeChange(definition.key, checked)}
+                        error={error}
+                      />
+                    );
+                  }
+
+                  if (definition.allowedValues && definition.allowedValues.length > 0) {
+                    return (
+                      <Select
+                        key={definition.key}
+                        label={label}
+                        requiredIndicator={definition.required}
+                        options={definition.allowedValues.map(value => ({
+                          label: String(value),
+                          value: String(value)
+                        }))}
+                        placeholder={`Select ${definition.label.toLowerCase()}`}
+                        value={String(attributeValues[definition.key] ?? '')}
+                        onChange={(value) => handleAttributeChange(definition.key, value)}
+                        error={error}
+                      />
+                    );
+                  }
+
+                  return (
+                    <TextField
+                      key={definition.key}
+                      label={label}
+                      requiredIndicator={definition.required}
+                      type={definition.type === 'number' ? 'number' : 'text'}
+                      suffix={definition.unit}
+                      autoComplete="off"
+                      value={String(attributeValues[definition.key] ?? '')}
+                      onChange={(value) => handleAttributeChange(definition.key, value)}
+                      error={error}
+                    />
+                  );
+                })}
+
                 <TextField
                   label="Price"
                   placeholder="e.g., 500000"
@@ -0,0 +1,184 @@
+"use client"
+
+import { Banner, Button, Card, Layout, Page, Spinner, Text } from '@shopify/polaris';
+import { useCallback, useEffect, useState } from 'react';
+import apiClient from '@/lib/apiClient';
+import { useAuth, usePropertyTypes } from '@/lib/hooks';
+import { SavedSearch } from '@/types';
+
+function formatPrice(price: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(price);
+}
+
+export default function SavedSearches() {
+  const { loading: authLoading, can } = useAuth();
+  const { propertyTypes } = usePropertyTypes();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const canSaveSearches = can('savedSearches:manage');
+
+  const fetchSearches = useCallback(async () => {
+    setLoading(true);
+    const response = await apiClient.getSavedSearches();
+    if (response.success && response.data) {
+      setSearches(response.data);
+    } else {
+      setError(response.error || 'Failed to load saved searches');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (canSaveSearches) {
+      fetchSearches();
+    }
+  }, [canSaveSearches, fetchSearches]);
+
+  const handleDelete = useCallback(async (id: string) => {
+    setError(null);
+
+    const response = await apiClient.deleteSavedSearch(id);
+    if (response.success) {
+      setSearches(prev => prev.filter(search => search._id !== id));
+    } else {
+      setError(response.error || 'Failed to delete saved search');
+    }
+  }, []);
+
+  const handleRun = useCallback(async () => {
+    setRunning(true);
+    setError(null);
+
+    const response = await apiClient.runSavedSearches();
+    if (response.success && response.data) {
+      setNotice(response.message || null);
+      fetchSearches();
+    } else {
+      setError(response.error || 'Failed to check saved searches');
+    }
+    setRunning(false);
+  }, [fetchSearches]);
+
+  // Readable summary of the saved filters, e.g. "beach · House · $100,000 to $250,000"
+  const describeSearch = useCallback((search: SavedSearch) => {
+    const { params } = search;
+    const parts: string[] = [];
+    if (params.search) parts.push(`"${params.search}"`);
+    if (params.type) {
+      parts.push(propertyTypes.find(type => type._id?.toString() === params.type)?.label || 'Unknown type');
+    }
+    if (params.minPrice !== undefined && params.maxPrice !== undefined) {
+      parts.push(`${formatPrice(params.minPrice)} to ${formatPrice(params.maxPrice)}`);
+    } else if (params.minPrice !== undefined) {
+      parts.push(`from ${formatPrice(params.minPrice)}`);
+    } else if (params.maxPrice !== undefined) {
+      parts.push(`up to ${formatPrice(params.maxPrice)}`);
+    }
+    for (const [key, range] of Object.entries(params.attributes || {})) {
+      parts.push(`${key} ${range.min ?? '…'} to ${range.max ?? '…'}`);
+    }
+    return parts.join(' · ') || 'All listings';
+  }, [propertyTypes]);
+
+  if (authLoading) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Saved searches">
+        <div style={{ textAlign: 'center', padding: '4rem' }}>
+          <Spinner size="large" />
+        </div>
+      </Page>
+    );
+  }
+
+  if (!canSaveSearches) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Saved searches">
+        <Banner tone="warning">
+          <p>Sign in to save searches.</p>
+        </Banner>
+      </Page>
+    );
+  }
+
+  return (
+    <Page
+      backAction={{ content: 'Home', url: '/' }}
+      title="Saved searches"
+      secondaryActions={can('savedSearches:run')
+        ? [{ content: 'Check all searches now', onAction: handleRun, loading: running }]
+        : []}
+    >
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" onDismiss={() => setError(null)}>
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {notice && (
+          <Layout.Section>
+            <Banner tone="success" onDismiss={() => setNotice(null)}>
+              <p>{notice}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              {loading ? (
+                <div style={{ textAlign: 'center', padding: '2rem' }}>
+                  <Spinner size="large" />
+                </div>
+              ) : searches.length === 0 ? (
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  No saved searches yet. Set filters on the home page and save them to get new listings in a digest.
+                </Text>
+              ) : (
+                searches.map(search => (
+                  <div
+                    key={search._id}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      padding: '0.75rem 0',
+                      borderBottom: '1px solid #e1e3e5'
+                    }}
+                  >
+                    <div>
+                      <Text variant="bodyMd" as="p" fontWeight="semibold">
+                        {search.name}
+                      </Text>
+                      <Text variant="bodySm" as="p">
+                        {describeSearch(search)}
+                      </Text>
+                      <Text variant="bodySm" as="p" tone="subdued">
+                        {search.lastNotifiedAt
+                          ? `Last digest ${new Date(search.lastNotifiedAt).toLocaleString()}`
+                          : 'No digest sent yet'}
+                      </Text>
+                    </div>
+                    <Button tone="critical" variant="plain" onClick={() => handleDelete(search._id)}>
+                      Delete
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
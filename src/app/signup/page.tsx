@@ -0,0 +1,110 @@
+"use client"
+
+import { Banner, Button, Card, FormLayout, Layout, Page, Text, TextField } from '@shopify/polaris';
+import { useCallback, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/hooks';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Only same-site paths are followed after signing up
+function getRedirectTarget(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
+export default function Signup() {
+  const router = useRouter();
+  const { signup, loading, error, clearError } = useAuth();
+  const [formData, setFormData] = useState({ name: '', email: '', password: '' });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleChange = useCallback((field: keyof typeof formData) => (value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: '' }));
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    const newErrors: Record<string, string> = {};
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (!formData.email.trim()) {
+      newErrors.email = 'Email is required';
+    }
+    if (formData.password.length < MIN_PASSWORD_LENGTH) {
+      newErrors.password = `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    const result = await signup({
+      name: formData.name.trim(),
+      email: formData.email.trim(),
+      password: formData.password
+    });
+    if (result.success) {
+      router.replace(getRedirectTarget());
+    }
+  }, [formData, signup, router]);
+
+  return (
+    <Page backAction={{ content: 'Home', url: '/' }} title="Create account" narrowWidth>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              {error && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <Banner tone="critical" onDismiss={clearError}>
+                    <p>{error}</p>
+                  </Banner>
+                </div>
+              )}
+
+              <form onSubmit={event => { event.preventDefault(); handleSubmit(); }}>
+                <FormLayout>
+                  <TextField
+                    label="Name"
+                    value={formData.name}
+                    onChange={handleChange('name')}
+                    error={errors.name}
+                    autoComplete="name"
+                  />
+                  <TextField
+                    label="Email"
+                    type="email"
+                    value={formData.email}
+                    onChange={handleChange('email')}
+                    error={errors.email}
+                    autoComplete="email"
+                  />
+                  <TextField
+                    label="Password"
+                    type="password"
+                    value={formData.password}
+                    onChange={handleChange('password')}
+                    error={errors.password}
+                    helpText={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                    autoComplete="new-password"
+                  />
+                  <Button variant="primary" submit loading={loading} fullWidth>
+                    Create account
+                  </Button>
+                </FormLayout>
+              </form>
+
+              <div style={{ marginTop: '1rem', textAlign: 'center' }}>
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  Already have an account? <Link href="/login">Sign in</Link>
+                </Text>
+              </div>
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
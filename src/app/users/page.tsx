@@ -0,0 +1,124 @@
+"use client"
+
+import { Banner, Card, Layout, Page, Select, Spinner, Text } from '@shopify/polaris';
+import { useCallback, useEffect, useState } from 'react';
+import apiClient from '@/lib/apiClient';
+import { useAuth } from '@/lib/hooks';
+import { isUserRole, roleLabels, userRoles } from '@/lib/roles';
+import { AuthUser } from '@/types';
+
+const roleOptions = userRoles.map(role => ({ label: roleLabels[role], value: role }));
+
+export default function Users() {
+  const { user, loading: authLoading, can } = useAuth();
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    const response = await apiClient.getUsers({ limit: 100 });
+    if (response.success && response.data) {
+      setUsers(response.data);
+    } else {
+      setError(response.error || 'Failed to load users');
+    }
+    setLoading(false);
+  }, []);
+
+  const canManageUsers = can('users:manage');
+
+  useEffect(() => {
+    if (canManageUsers) {
+      fetchUsers();
+    }
+  }, [canManageUsers, fetchUsers]);
+
+  const handleRoleChange = useCallback(async (id: string, role: string) => {
+    if (!isUserRole(role)) return;
+
+    setError(null);
+    const response = await apiClient.updateUserRole({ id, role });
+    if (response.success && response.data) {
+      setUsers(prev => prev.map(entry => entry._id === id ? response.data! : entry));
+    } else {
+      setError(response.error || 'Failed to update role');
+    }
+  }, []);
+
+  if (authLoading) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Users">
+        <div style={{ textAlign: 'center', padding: '4rem' }}>
+          <Spinner size="large" />
+        </div>
+      </Page>
+    );
+  }
+
+  if (!canManageUsers) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Users">
+        <Banner tone="warning">
+          <p>Only admins can manage users.</p>
+        </Banner>
+      </Page>
+    );
+  }
+
+  return (
+    <Page backAction={{ content: 'Home', url: '/' }} title="Users">
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" onDismiss={() => setError(null)}>
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              {loading ? (
+                <div style={{ textAlign: 'center', padding: '2rem' }}>
+                  <Spinner size="large" />
+                </div>
+              ) : (
+                users.map(entry => (
+                  <div
+                    key={entry._id}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      padding: '0.75rem 0',
+                      borderBottom: '1px solid #e1e3e5'
+                    }}
+                  >
+                    <div>
+                      <Text variant="bodyMd" as="p" fontWeight="semibold">
+                        {entry.name}
+                      </Text>
+                      <Text variant="bodySm" as="p" tone="subdued">
+                        {entry.email}
+                      </Text>
+                    </div>
+                    <Select
+                      label="Role"
+                      labelHidden
+                      options={roleOptions}
+                      value={entry.role}
+                      onChange={role => handleRoleChange(entry._id, role)}
+                      disabled={entry._id === user?._id}
+                    />
+                  </div>
+                ))
+              )}
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,239 @@
+"use client"
+
+import { Badge, Banner, Button, Card, Layout, Page, Select, Spinner, Text, TextField } from '@shopify/polaris';
+import { useCallback, useEffect, useState } from 'react';
+import apiClient from '@/lib/apiClient';
+import { useAuth } from '@/lib/hooks';
+import { Viewing } from '@/types';
+
+const scopeOptions = [
+  { label: 'Upcoming', value: 'upcoming' },
+  { label: 'Past', value: 'past' },
+];
+
+function formatTime(viewing: Viewing) {
+  const start = new Date(viewing.start);
+  const end = new Date(viewing.end);
+  return `${start.toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })} – ${end.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+}
+
+export default function Viewings() {
+  const { loading: authLoading, can } = useAuth();
+  const [viewings, setViewings] = useState<Viewing[]>([]);
+  const [scope, setScope] = useState<'upcoming' | 'past'>('upcoming');
+  const [loading, setLoading] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [calendarUrl, setCalendarUrl] = useState<string | null>(null);
+  const [resetting, setResetting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canBook = can('viewings:book');
+  const canHost = can('viewings:manage');
+
+  const fetchViewings = useCallback(async () => {
+    setLoading(true);
+    const response = await apiClient.getViewings(scope);
+    if (response.success && response.data) {
+      setViewings(response.data);
+    } else {
+      setError(response.error || 'Failed to load viewings');
+    }
+    setLoading(false);
+  }, [scope]);
+
+  useEffect(() => {
+    if (canBook) {
+      fetchViewings();
+    }
+  }, [canBook, fetchViewings]);
+
+  useEffect(() => {
+    if (!canHost) return;
+    apiClient.getViewingCalendar().then(response => {
+      if (response.success && response.data) {
+        setCalendarUrl(response.data.url);
+      }
+    });
+  }, [canHost]);
+
+  const handleCancel = useCallback(async (id: string) => {
+    setCancellingId(id);
+    setError(null);
+
+    const response = await apiClient.cancelViewing(id);
+    if (response.success && response.data) {
+      const cancelled = response.data;
+      setViewings(prev => prev.map(viewing => viewing._id === id ? cancelled : viewing));
+    } else {
+      setError(response.error || 'Failed to cancel viewing');
+    }
+    setCancellingId(null);
+  }, []);
+
+  const handleResetCalendar = useCallback(async () => {
+    setResetting(true);
+    setError(null);
+
+    const response = await apiClient.resetViewingCalendar();
+    if (response.success && response.data) {
+      setCalendarUrl(response.data.url);
+    } else {
+      setError(response.error || 'Failed to create calendar link');
+    }
+    setResetting(false);
+  }, []);
+
+  if (authLoading) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Viewings">
+        <div style={{ textAlign: 'center', padding: '4rem' }}>
+          <Spinner size="large" />
+        </div>
+      </Page>
+    );
+  }
+
+  if (!canBook) {
+    return (
+      <Page backAction={{ content: 'Home', url: '/' }} title="Viewings">
+        <Banner tone="warning">
+          <p>Sign in to book and follow viewings.</p>
+        </Banner>
+      </Page>
+    );
+  }
+
+  return (
+    <Page backAction={{ content: 'Home', url: '/' }} title="Viewings">
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" onDismiss={() => setError(null)}>
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {canHost && (
+          <Layout.Section>
+            <Card>
+              <div style={{ padding: '1rem' }}>
+                <div style={{ marginBottom: '1rem' }}>
+                  <Text variant="headingMd" as="h2">
+                    Calendar
+                  </Text>
+                  <Text variant="bodySm" as="p" tone="subdued">
+                    Subscribe to this link in your calendar app to see the viewings on your listings.
+                    Anyone with the link can read it, reset it to stop the old one from working.
+                  </Text>
+                </div>
+                {calendarUrl && (
+                  <div style={{ marginBottom: '1rem' }}>
+                    <TextField
+                      label="Calendar link"
+                      labelHidden
+                      value={calendarUrl}
+                      readOnly
+                      autoComplete="off"
+                      selectTextOnFocus
+                    />
+                  </div>
+                )}
+                <Button onClick={handleResetCalendar} loading={resetting}>
+                  {calendarUrl ? 'Reset link' : 'Create calendar link'}
+                </Button>
+              </div>
+            </Card>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <div style={{ padding: '1rem' }}>
+              <div style={{ maxWidth: '240px', marginBottom: '1rem' }}>
+                <Select
+                  label="Show"
+                  options={scopeOptions}
+                  value={scope}
+                  onChange={value => setScope(value as 'upcoming' | 'past')}
+                />
+              </div>
+
+              {loading ? (
+                <div style={{ textAlign: 'center', padding: '2rem' }}>
+                  <Spinner size="large" />
+                </div>
+              ) : viewings.length === 0 ? (
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  {scope === 'upcoming'
+                    ? 'No upcoming viewings. Book one from a listing page.'
+                    : 'No past viewings.'}
+                </Text>
+              ) : (
+                viewings.map(viewing => {
+                  const property = typeof viewing.property === 'string'
+                    ? { _id: viewing.property, title: 'Deleted listing' }
+                    : viewing.property;
+                  const cancelled = viewing.status === 'cancelled';
+                  return (
+                    <div
+                      key={viewing._id}
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        padding: '0.75rem 0',
+                        borderBottom: '1px solid #e1e3e5'
+                      }}
+                    >
+                      <div>
+                        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                          <Text variant="bodyMd" as="span" fontWeight="semibold">
+                            <a href={`/${property._id}`}>{property.title}</a>
+                          </Text>
+                          {cancelled && <Badge tone="critical">Cancelled</Badge>}
+                          {viewing.isHost && <Badge>Hosting</Badge>}
+                        </div>
+                        <Text variant="bodySm" as="p">
+                          {formatTime(viewing)}
+                        </Text>
+                        {viewing.isHost && (
+                          <Text variant="bodySm" as="p" tone="subdued">
+                            {[viewing.name, viewing.email, viewing.phone].filter(Boolean).join(' · ')}
+                          </Text>
+                        )}
+                      </div>
+                      {!cancelled && (
+                        <div style={{ display: 'flex', gap: '1rem' }}>
+                          <Button variant="plain" url={apiClient.getViewingIcsUrl(viewing._id)}>
+                            Add to calendar
+                          </Button>
+                          {scope === 'upcoming' && (
+                            <Button
+                              variant="plain"
+                              tone="critical"
+                              onClick={() => handleCancel(viewing._id)}
+                              loading={cancellingId === viewing._id}
+                            >
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
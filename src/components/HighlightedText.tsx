@@ -0,0 +1,35 @@
+import { Fragment } from 'react';
+import { SearchHighlight } from '@/types';
+
+/**
+ * Render a search highlight with its matched ranges in bold,
+ * falling back to plain text when there is nothing to highlight.
+ */
+export default function HighlightedText({
+  highlight,
+  fallback,
+}: {
+  highlight?: SearchHighlight;
+  fallback: string;
+}) {
+  if (!highlight || highlight.matches.length === 0) {
+    return <>{fallback}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  highlight.matches.forEach((match, index) => {
+    if (match.start > cursor) {
+      parts.push(<Fragment key={`text-${index}`}>{highlight.text.slice(cursor, match.start)}</Fragment>);
+    }
+    parts.push(<strong key={`match-${index}`}>{highlight.text.slice(match.start, match.end)}</strong>);
+    cursor = match.end;
+  });
+
+  if (cursor < highlight.text.length) {
+    parts.push(<Fragment key="text-end">{highlight.text.slice(cursor)}</Fragment>);
+  }
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import { Banner, FormLayout, Modal, Select, Text, TextField } from '@shopify/polaris';
+import { useCallback, useEffect, useState } from 'react';
+import apiClient from '@/lib/apiClient';
+import { contactTimeLabels, contactTimes, inquirySchema, MAX_INQUIRY_MESSAGE_LENGTH } from '@/lib/inquiries';
+import { validate } from '@/lib/schema';
+import { ContactTime } from '@/types';
+
+const contactTimeOptions = contactTimes.map(time => ({ label: contactTimeLabels[time], value: time }));
+
+const emptyForm = {
+  name: '',
+  email: '',
+  phone: '',
+  message: '',
+  preferredContactTime: 'any' as ContactTime,
+  website: '',
+};
+
+/**
+ * Contact form for a listing. Signed-in users start with their name and email
+ * filled in. The hidden website field is a honeypot for bots.
+ */
+export default function InquiryModal({
+  open,
+  onClose,
+  propertyId,
+  propertyTitle,
+  defaults,
+}: {
+  open: boolean;
+  onClose: () => void;
+  propertyId: string;
+  propertyTitle: string;
+  defaults?: { name?: string; email?: string };
+}) {
+  const [form, setForm] = useState(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm({ ...emptyForm, name: defaults?.name || '', email: defaults?.email || '' });
+      setErrors({});
+      setError(null);
+      setSent(false);
+    }
+  }, [open, defaults?.name, defaults?.email]);
+
+  const handleChange = useCallback((field: keyof typeof emptyForm) => (value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: '' }));
+  }, []);
+
+  const handleSend = useCallback(async () => {
+    const { errors: formErrors } = validate(inquirySchema, form);
+    if (formErrors) {
+      setErrors(formErrors);
+      return;
+    }
+
+    setSending(true);
+    setError(null);
+    const response = await apiClient.createInquiry(propertyId, {
+      ...form,
+      phone: form.phone.trim() || undefined,
+    });
+    if (response.success) {
+      setSent(true);
+    } else if (response.errors) {
+      setErrors(response.errors);
+    } else {
+      setError(response.error || 'Failed to send inquiry');
+    }
+    setSending(false);
+  }, [form, propertyId]);
+
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title={`Contact the owner of ${propertyTitle}`}
+      primaryAction={sent
+        ? { content: 'Close', onAction: onClose }
+        : { content: 'Send inquiry', onAction: handleSend, loading: sending }}
+      secondaryActions={sent ? [] : [{ content: 'Cancel', onAction: onClose }]}
+    >
+      <Modal.Section>
+        {sent ? (
+          <Banner tone="success">
+            <p>Your inquiry was sent. The owner will get back to you by email or phone.</p>
+          </Banner>
+        ) : (
+          <FormLayout>
+            {error && (
+              <Banner tone="critical" onDismiss={() => setError(null)}>
+                <p>{error}</p>
+              </Banner>
+            )}
+            <FormLayout.Group>
+              <TextField
+                label="Name"
+                value={form.name}
+                onChange={handleChange('name')}
+                error={errors.name}
+                autoComplete="name"
+                requiredIndicator
+              />
+              <TextField
+                label="Email"
+                type="email"
+                value={form.email}
+                onChange={handleChange('email')}
+                error={errors.email}
+                autoComplete="email"
+                requiredIndicator
+              />
+            </FormLayout.Group>
+            <FormLayout.Group>
+              <TextField
+                label="Phone"
+                type="tel"
+                value={form.phone}
+                onChange={handleChange('phone')}
+                error={errors.phone}
+                autoComplete="tel"
+              />
+              <Select
+                label="Preferred contact time"
+                options={contactTimeOptions}
+                value={form.preferredContactTime}
+                onChange={value => setForm(prev => ({ ...prev, preferredContactTime: value as ContactTime }))}
+              />
+            </FormLayout.Group>
+            <TextField
+              label="Message"
+              value={form.message}
+              onChange={handleChange('message')}
+              error={errors.message}
+              multiline={5}
+              maxLength={MAX_INQUIRY_MESSAGE_LENGTH}
+              showCharacterCount
+              autoComplete="off"
+              requiredIndicator
+            />
+            {/* Honeypot, hidden from people but filled in by form bots */}
+            <div aria-hidden="true" style={{ position: 'absolute', left: '-10000px', width: '1px', height: '1px', overflow: 'hidden' }}>
+              <label>
+                Website
+                <input
+                  type="text"
+                  name="website"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={form.website}
+                  onChange={event => handleChange('website')(event.target.value)}
+                />
+              </label>
+            </div>
+            <Text variant="bodySm" as="p" tone="subdued">
+              Your details are only shared with the owner of this listing.
+            </Text>
+          </FormLayout>
+        )}
+      </Modal.Section>
+    </Modal>
+  );
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { Text } from '@shopify/polaris';
+import { PropertyPriceChange } from '@/types';
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 8;
+
+function formatPrice(price: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(price);
+}
+
+function formatDay(date: Date) {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Step chart of a listing's asking price from its first price until today,
+ * with the list of changes below it.
+ */
+export default function PriceHistoryChart({ history }: { history: PropertyPriceChange[] }) {
+  const points = history
+    .map(entry => ({ price: entry.price, at: new Date(entry.changed_at) }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  if (points.length === 0) return null;
+
+  const now = Date.now();
+  const first = points[0].at.getTime();
+  const span = Math.max(now - first, 1);
+  const prices = points.map(point => point.price);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  // A flat line sits in the middle of the chart
+  const range = max - min || 1;
+
+  const x = (time: number) => PADDING + ((time - first) / span) * (WIDTH - 2 * PADDING);
+  const y = (price: number) => max === min
+    ? HEIGHT / 2
+    : PADDING + ((max - price) / range) * (HEIGHT - 2 * PADDING);
+
+  // The price holds until the next change, then steps to it
+  const path = points.map((point, index) => index === 0
+    ? `M ${x(point.at.getTime())} ${y(point.price)}`
+    : `H ${x(point.at.getTime())} V ${y(point.price)}`
+  ).join(' ') + ` H ${x(now)}`;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        width="100%"
+        role="img"
+        aria-label={`Price history from ${formatPrice(points[0].price)} to ${formatPrice(points[points.length - 1].price)}`}
+        style={{ display: 'block' }}
+      >
+        <line x1={PADDING} y1={HEIGHT - PADDING} x2={WIDTH - PADDING} y2={HEIGHT - PADDING} stroke="#e1e3e5" />
+        <path d={path} fill="none" stroke="#007c5e" strokeWidth={2} />
+        {points.map((point, index) => (
+          <circle key={index} cx={x(point.at.getTime())} cy={y(point.price)} r={3} fill="#007c5e">
+            <title>{`${formatPrice(point.price)} on ${formatDay(point.at)}`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div style={{ marginTop: '0.5rem' }}>
+        {[...points].reverse().map((point, index, list) => {
+          const previous = list[index + 1];
+          return (
+            <div key={index} style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+              <Text variant="bodySm" as="span" tone="subdued">
+                {formatDay(point.at)}
+              </Text>
+              <Text
+                variant="bodySm"
+                as="span"
+                tone={previous ? (point.price < previous.price ? 'success' : 'critical') : undefined}
+              >
+                {formatPrice(point.price)}
+              </Text>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
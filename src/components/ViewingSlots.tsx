@@ -0,0 +1,261 @@
+"use client"
+
+import { Badge, Banner, Button, Card, FormLayout, Modal, Select, Text, TextField } from '@shopify/polaris';
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import apiClient from '@/lib/apiClient';
+import { useAuth } from '@/lib/hooks';
+import { Viewing, ViewingSlot } from '@/types';
+
+const durationOptions = [
+  { label: '30 minutes', value: '30' },
+  { label: '45 minutes', value: '45' },
+  { label: '1 hour', value: '60' },
+  { label: '90 minutes', value: '90' },
+];
+
+function formatSlot(slot: { start: Date | string; end: Date | string }) {
+  const start = new Date(slot.start);
+  const end = new Date(slot.end);
+  const day = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${day}, ${time(start)} – ${time(end)}`;
+}
+
+/**
+ * Viewing times of a listing. Visitors book a free slot, the owner adds and
+ * removes slots and sees who booked them.
+ */
+export default function ViewingSlots({
+  propertyId,
+  canManage,
+  isOwner,
+}: {
+  propertyId: string;
+  canManage: boolean;
+  isOwner: boolean;
+}) {
+  const { user, can } = useAuth();
+  const [slots, setSlots] = useState<ViewingSlot[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [booking, setBooking] = useState<ViewingSlot | null>(null);
+  const [phone, setPhone] = useState('');
+  const [phoneError, setPhoneError] = useState<string | undefined>();
+  const [submitting, setSubmitting] = useState(false);
+  const [booked, setBooked] = useState<Viewing | null>(null);
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [duration, setDuration] = useState('30');
+  const [slotErrors, setSlotErrors] = useState<Record<string, string>>({});
+  const [adding, setAdding] = useState(false);
+
+  const fetchSlots = useCallback(async () => {
+    const response = await apiClient.getViewingSlots(propertyId);
+    if (response.success && response.data) {
+      setSlots(response.data);
+    } else {
+      setError(response.error || 'Failed to load viewing times');
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    fetchSlots();
+  }, [fetchSlots]);
+
+  const handleBook = useCallback(async () => {
+    if (!booking) return;
+
+    setSubmitting(true);
+    setPhoneError(undefined);
+    const response = await apiClient.bookViewing({ slot: booking._id, phone: phone.trim() || undefined });
+    if (response.success && response.data) {
+      setBooked(response.data);
+      setBooking(null);
+      setPhone('');
+    } else if (response.errors?.phone) {
+      setPhoneError(response.errors.phone);
+    } else {
+      setError(response.error || 'Failed to book viewing');
+      setBooking(null);
+    }
+    setSubmitting(false);
+    // Someone else may have booked it in the meantime
+    fetchSlots();
+  }, [booking, phone, fetchSlots]);
+
+  const handleAdd = useCallback(async () => {
+    if (!date || !time) {
+      setSlotErrors({ start: 'Pick a date and time' });
+      return;
+    }
+
+    // The inputs are in the agent's local time
+    const start = new Date(`${date}T${time}`);
+    const end = new Date(start.getTime() + Number(duration) * 60000);
+
+    setAdding(true);
+    setSlotErrors({});
+    const response = await apiClient.createViewingSlot(propertyId, {
+      start: start.toISOString(),
+      end: end.toISOString(),
+    });
+    if (response.success) {
+      setTime('');
+      fetchSlots();
+    } else if (response.errors) {
+      setSlotErrors(response.errors);
+    } else {
+      setError(response.error || 'Failed to add viewing time');
+    }
+    setAdding(false);
+  }, [date, time, duration, propertyId, fetchSlots]);
+
+  const handleRemove = useCallback(async (id: string) => {
+    setError(null);
+    const response = await apiClient.deleteViewingSlot(id);
+    if (response.success) {
+      setSlots(prev => prev.filter(slot => slot._id !== id));
+    } else {
+      setError(response.error || 'Failed to remove viewing time');
+    }
+  }, []);
+
+  const canBook = can('viewings:book') && !isOwner;
+  const freeSlots = slots.filter(slot => !slot.booked);
+
+  return (
+    <Card>
+      <div id="viewings" style={{ padding: '1rem' }}>
+        <div style={{ marginBottom: '1rem' }}>
+          <Text variant="headingMd" as="h3">
+            Viewings
+          </Text>
+        </div>
+
+        {error && (
+          <div style={{ marginBottom: '1rem' }}>
+            <Banner tone="critical" onDismiss={() => setError(null)}>
+              <p>{error}</p>
+            </Banner>
+          </div>
+        )}
+
+        {booked && (
+          <div style={{ marginBottom: '1rem' }}>
+            <Banner tone="success" onDismiss={() => setBooked(null)}>
+              <p>
+                Your viewing on {formatSlot(booked)} is booked. A confirmation is on its way to {booked.email}.{' '}
+                <a href={apiClient.getViewingIcsUrl(booked._id)}>Add to calendar</a> or see{' '}
+                <Link href="/viewings">your viewings</Link>.
+              </p>
+            </Banner>
+          </div>
+        )}
+
+        {(canManage ? slots : freeSlots).length === 0 ? (
+          <Text variant="bodyMd" as="p" tone="subdued">
+            {canManage
+              ? 'No viewing times yet. Add some below so buyers can book a viewing.'
+              : 'No viewing times are open right now. Contact the owner to arrange a viewing.'}
+          </Text>
+        ) : (
+          (canManage ? slots : freeSlots).map(slot => (
+            <div
+              key={slot._id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                padding: '0.5rem 0',
+                borderBottom: '1px solid #e1e3e5'
+              }}
+            >
+              <div>
+                <Text variant="bodyMd" as="p">
+                  {formatSlot(slot)}
+                </Text>
+                {slot.viewing && (
+                  <Text variant="bodySm" as="p" tone="subdued">
+                    {[slot.viewing.name, slot.viewing.email, slot.viewing.phone].filter(Boolean).join(' · ')}
+                  </Text>
+                )}
+              </div>
+              {canManage ? (
+                slot.booked ? (
+                  <Badge tone="success">Booked</Badge>
+                ) : (
+                  <Button variant="plain" tone="critical" onClick={() => handleRemove(slot._id)}>
+                    Remove
+                  </Button>
+                )
+              ) : canBook ? (
+                <Button onClick={() => setBooking(slot)}>Book</Button>
+              ) : !user ? (
+                <Button variant="plain" url="/login">Sign in to book</Button>
+              ) : null}
+            </div>
+          ))
+        )}
+
+        {canManage && (
+          <div style={{ marginTop: '1rem' }}>
+            <FormLayout>
+              <FormLayout.Group condensed>
+                <TextField
+                  label="Date"
+                  type="date"
+                  value={date}
+                  onChange={setDate}
+                  error={slotErrors.start}
+                  autoComplete="off"
+                />
+                <TextField
+                  label="Time"
+                  type="time"
+                  value={time}
+                  onChange={setTime}
+                  autoComplete="off"
+                />
+                <Select
+                  label="Length"
+                  options={durationOptions}
+                  value={duration}
+                  onChange={setDuration}
+                  error={slotErrors.end}
+                />
+              </FormLayout.Group>
+              <Button onClick={handleAdd} loading={adding}>
+                Add viewing time
+              </Button>
+            </FormLayout>
+          </div>
+        )}
+      </div>
+
+      <Modal
+        open={!!booking}
+        onClose={() => setBooking(null)}
+        title="Book a viewing"
+        primaryAction={{ content: 'Book viewing', onAction: handleBook, loading: submitting }}
+        secondaryActions={[{ content: 'Cancel', onAction: () => setBooking(null) }]}
+      >
+        <Modal.Section>
+          <FormLayout>
+            <Text variant="bodyMd" as="p">
+              {booking && formatSlot(booking)}, booked as {user?.name} ({user?.email}).
+            </Text>
+            <TextField
+              label="Phone"
+              type="tel"
+              value={phone}
+              onChange={setPhone}
+              error={phoneError}
+              helpText="Optional, in case the owner needs to reach you on the day"
+              autoComplete="tel"
+            />
+          </FormLayout>
+        </Modal.Section>
+      </Modal>
+    </Card>
+  );
+}
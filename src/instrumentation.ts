@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts. Configuration the app cannot run safely
+ * without fails the start instead of the first request that needs it.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getTrustedProxyHops } = await import('@/lib/rateLimit');
+    getTrustedProxyHops();
+  }
+}
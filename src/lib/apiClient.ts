@@ -1,16 +1,50 @@
 import { IProperty, IPropertyType } from '@/models';
 import {
   ApiResponse,
+  ApiKeyInfo,
+  BookViewingData,
+  CreateApiKeyData,
+  CreatedApiKey,
+  CreateInquiryData,
+  CreateSavedSearchData,
+  CreateViewingSlotData,
+  AuthUser,
+  LoginData,
+  SignupData,
   PaginatedResponse,
   CreatePropertyData,
   UpdatePropertyData,
+  CreatePropertyTypeData,
+  UpdatePropertyTypeData,
+  DeletePropertyTypeOptions,
+  ImportJob,
+  Inquiry,
+  InquiryInboxResponse,
+  InquiryQueryParams,
+  ImportOptions,
+  ImportPreview,
+  PriceWatchStatus,
+  PropertyExportParams,
   PropertyQueryParams,
   PropertyStats,
+  PropertyStatsParams,
+  PropertyStatus,
+  PropertyRevision,
+  SavedSearch,
+  SavedSearchRunResult,
+  UpdateInquiryData,
+  UpdateUserRoleData,
   UploadResponse,
+  Viewing,
+  ViewingCalendar,
+  ViewingSlot,
 } from '@/types';
+import { createApiError } from '@/lib/apiErrors';
+import type { OpenApiDocument } from '@/lib/openapi';
 
 class ApiClient {
   private baseUrl: string;
+  private unauthorizedHandler: (() => void) | null = null;
 
   constructor() {
     this.baseUrl = process.env.NEXT_PUBLIC_API_URL || '/api';
@@ -32,10 +66,18 @@ class ApiClient {
 
       const data = await response.json();
 
+      if (response.status === 401) {
+        this.handleUnauthorized(endpoint);
+      }
+
       if (!response.ok) {
+        const error = data.error || `HTTP ${response.status}: ${response.statusText}`;
         return {
           success: false,
-          error: data.error || `HTTP ${response.status}: ${response.statusText}`,
+          error,
+          code: data.code,
+          errors: data.errors,
+          cause: createApiError(response.status, data, response.headers),
         };
       }
 
@@ -48,6 +90,130 @@ class ApiClient {
     }
   }
 
+  /**
+   * Replace the default reaction to a 401, which sends the browser to the
+   * login page and back to the current page afterwards
+   */
+  onUnauthorized(handler: (() => void) | null): void {
+    this.unauthorizedHandler = handler;
+  }
+
+  private handleUnauthorized(endpoint: string): void {
+    // A 401 from the auth endpoints is an answer, not an expired session
+    if (endpoint.startsWith('/auth/')) return;
+
+    if (this.unauthorizedHandler) {
+      this.unauthorizedHandler();
+    } else if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
+      const next = `${window.location.pathname}${window.location.search}`;
+      window.location.assign(`/login?next=${encodeURIComponent(next)}`);
+    }
+  }
+
+  private buildQueryString(params: object): string {
+    const searchParams = new URLSearchParams();
+
+    // Nested objects are flattened into dotted keys, e.g. attributes.bedrooms.min
+    const append = (prefix: string, value: unknown) => {
+      if (value === undefined || value === null) return;
+      if (typeof value === 'object' && !Array.isArray(value)) {
+        Object.entries(value).forEach(([key, nested]) => append(`${prefix}.${key}`, nested));
+        return;
+      }
+      searchParams.append(prefix, String(value));
+    };
+
+    Object.entries(params).forEach(([key, value]) => append(key, value));
+
+    return searchParams.toString() ? `?${searchParams.toString()}` : '';
+  }
+
+  // Authentication
+
+  /**
+   * Create an account and sign in
+   */
+  async signup(signupData: SignupData): Promise<ApiResponse<AuthUser>> {
+    return this.request<AuthUser>('/auth/signup', {
+      method: 'POST',
+      body: JSON.stringify(signupData),
+    });
+  }
+
+  /**
+   * Sign in with email and password
+   */
+  async login(loginData: LoginData): Promise<ApiResponse<AuthUser>> {
+    return this.request<AuthUser>('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify(loginData),
+    });
+  }
+
+  /**
+   * Sign out of the current session
+   */
+  async logout(): Promise<ApiResponse<void>> {
+    return this.request<void>('/auth/logout', {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Get the signed-in user
+   */
+  async getCurrentUser(): Promise<ApiResponse<AuthUser>> {
+    return this.request<AuthUser>('/auth/me');
+  }
+
+  // User Management
+
+  /**
+   * Get all users, newest first (admins only)
+   */
+  async getUsers(params: Pick<PropertyQueryParams, 'page' | 'limit'> = {}): Promise<PaginatedResponse<AuthUser[]>> {
+    return this.request<AuthUser[]>(`/users${this.buildQueryString(params)}`) as Promise<PaginatedResponse<AuthUser[]>>;
+  }
+
+  /**
+   * Change the role of a user (admins only)
+   */
+  async updateUserRole(userData: UpdateUserRoleData): Promise<ApiResponse<AuthUser>> {
+    const { id, role } = userData;
+    return this.request<AuthUser>(`/users/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  // API Keys
+
+  /**
+   * Get the API keys of the signed-in user
+   */
+  async getApiKeys(): Promise<ApiResponse<ApiKeyInfo[]>> {
+    return this.request<ApiKeyInfo[]>('/api-keys');
+  }
+
+  /**
+   * Create an API key, the returned `key` is only available in this response
+   */
+  async createApiKey(apiKeyData: CreateApiKeyData): Promise<ApiResponse<CreatedApiKey>> {
+    return this.request<CreatedApiKey>('/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(apiKeyData),
+    });
+  }
+
+  /**
+   * Revoke an API key
+   */
+  async revokeApiKey(id: string): Promise<ApiResponse<ApiKeyInfo>> {
+    return this.request<ApiKeyInfo>(`/api-keys/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Property CRUD Operations
 
   /**
@@ -62,18 +228,11 @@ class ApiClient {
   }
 
   /**
-   * Get all properties with pagination and filters
+   * Get all properties with pagination and filters.
+   * Passing `cursor` switches to cursor pagination (see `nextCursor`/`prevCursor`).
    */
   async getProperties(params: PropertyQueryParams = {}): Promise<PaginatedResponse<IProperty[]>> {
-    const searchParams = new URLSearchParams();
-    
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        searchParams.append(key, value.toString());
-      }
-    });
-
-    const endpoint = `/properties${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
+    const endpoint = `/properties${this.buildQueryString(params)}`;
     
     try {
       const response = await this.request(endpoint) as PaginatedResponse<IProperty[]>;
@@ -83,6 +242,9 @@ class ApiClient {
           data: undefined,
           pagination: { page: 1, limit: 10, total: 0, totalPages: 0 },
           error: response.error,
+          code: response.code,
+          errors: response.errors,
+          cause: response.cause,
         };
       }
       console.log(response);
@@ -96,6 +258,9 @@ class ApiClient {
         success: true,
         data: response.data || [],
         pagination,
+        nextCursor: response.nextCursor,
+        prevCursor: response.prevCursor,
+        facets: response.facets,
       };
     } catch (error) {
       return {
@@ -115,18 +280,18 @@ class ApiClient {
   }
 
   /**
-   * Update a property
+   * Update a property, only the fields present in `propertyData` are changed
    */
   async updateProperty(propertyData: UpdatePropertyData): Promise<ApiResponse<IProperty>> {
     const { id, ...data } = propertyData;
     return this.request<IProperty>(`/properties/${id}`, {
-      method: 'PUT',
+      method: 'PATCH',
       body: JSON.stringify(data),
     });
   }
 
   /**
-   * Delete a property
+   * Move a property to the trash
    */
   async deleteProperty(id: string): Promise<ApiResponse<{ deleted: boolean }>> {
     return this.request<{ deleted: boolean }>(`/properties/${id}`, {
@@ -134,6 +299,67 @@ class ApiClient {
     });
   }
 
+  /**
+   * Get properties in the trash, most recently deleted first
+   */
+  async getTrash(params: Pick<PropertyQueryParams, 'page' | 'limit'> = {}): Promise<PaginatedResponse<IProperty[]>> {
+    return this.request<IProperty[]>(`/properties/trash${this.buildQueryString(params)}`) as Promise<PaginatedResponse<IProperty[]>>;
+  }
+
+  /**
+   * Restore a property from the trash
+   */
+  async restoreProperty(id: string): Promise<ApiResponse<IProperty>> {
+    return this.request<IProperty>(`/properties/${id}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Permanently delete a property in the trash, including its stored images
+   */
+  async purgeProperty(id: string): Promise<ApiResponse<{ deleted: boolean }>> {
+    return this.request<{ deleted: boolean }>(`/properties/${id}/purge`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Publish a draft property
+   */
+  async publishProperty(id: string): Promise<ApiResponse<IProperty>> {
+    return this.request<IProperty>(`/properties/${id}/publish`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Move a property to another lifecycle status
+   */
+  async updatePropertyStatus(id: string, status: PropertyStatus): Promise<ApiResponse<IProperty>> {
+    return this.request<IProperty>(`/properties/${id}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status }),
+    });
+  }
+
+  /**
+   * Get the revision history of a property, newest first
+   */
+  async getPropertyHistory(id: string, params: Pick<PropertyQueryParams, 'page' | 'limit'> = {}): Promise<PaginatedResponse<PropertyRevision[]>> {
+    return this.request<PropertyRevision[]>(`/properties/${id}/history${this.buildQueryString(params)}`) as Promise<PaginatedResponse<PropertyRevision[]>>;
+  }
+
+  /**
+   * Revert a property to its values at a previous revision
+   */
+  async revertProperty(id: string, revisionId: string): Promise<ApiResponse<IProperty>> {
+    return this.request<IProperty>(`/properties/${id}/revert`, {
+      method: 'POST',
+      body: JSON.stringify({ revisionId }),
+    });
+  }
+
   /**
    * Get properties by type
    */
@@ -164,13 +390,65 @@ class ApiClient {
     return this.request<IPropertyType>(`/property-types/${id}`);
   }
 
+  /**
+   * Create a new property type
+   */
+  async createPropertyType(propertyTypeData: CreatePropertyTypeData): Promise<ApiResponse<IPropertyType>> {
+    return this.request<IPropertyType>('/property-types', {
+      method: 'POST',
+      body: JSON.stringify(propertyTypeData),
+    });
+  }
+
+  /**
+   * Update (rename) a property type
+   */
+  async updatePropertyType(propertyTypeData: UpdatePropertyTypeData): Promise<ApiResponse<IPropertyType>> {
+    const { id, ...data } = propertyTypeData;
+    return this.request<IPropertyType>(`/property-types/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Delete a property type, optionally moving its listings to another type
+   */
+  async deletePropertyType(
+    id: string,
+    options: DeletePropertyTypeOptions = {}
+  ): Promise<ApiResponse<{ deleted: boolean; reassigned: number }>> {
+    return this.request<{ deleted: boolean; reassigned: number }>(
+      `/property-types/${id}${this.buildQueryString(options)}`,
+      { method: 'DELETE' }
+    );
+  }
+
   // Utility Methods
 
   /**
-   * Get property statistics
+   * Get property statistics, optionally narrowed by the listing filters
+   */
+  async getPropertyStats(params: PropertyStatsParams = {}): Promise<ApiResponse<PropertyStats>> {
+    return this.request<PropertyStats>(`/properties/stats${this.buildQueryString(params)}`);
+  }
+
+  /**
+   * Download URL of a listing export, the response streams the file rather
+   * than an ApiResponse
    */
-  async getPropertyStats(): Promise<ApiResponse<PropertyStats>> {
-    return this.request<PropertyStats>('/properties/stats');
+  getExportUrl(params: PropertyExportParams = {}): string {
+    return `${this.baseUrl}/properties/export${this.buildQueryString(params)}`;
+  }
+
+  /**
+   * The OpenAPI document of the API, served as is rather than in an ApiResponse
+   */
+  async getOpenApiDocument(): Promise<ApiResponse<OpenApiDocument>> {
+    const response = await this.request<OpenApiDocument>('/openapi.json');
+    return 'openapi' in response
+      ? { success: true, data: response as unknown as OpenApiDocument }
+      : response;
   }
 
   /**
@@ -185,8 +463,223 @@ class ApiClient {
       formData.append('images', image);
     });
 
+    return this.postForm<UploadResponse>(`/properties/${propertyId}/images`, formData);
+  }
+
+  // Inquiries
+
+  /**
+   * Send an inquiry about a listing to its owner
+   */
+  async createInquiry(propertyId: string, inquiryData: CreateInquiryData): Promise<ApiResponse<{ _id: string }>> {
+    return this.request<{ _id: string }>(`/properties/${propertyId}/inquiries`, {
+      method: 'POST',
+      body: JSON.stringify(inquiryData),
+    });
+  }
+
+  /**
+   * Get the inquiries about your listings (every listing for admins), newest first
+   */
+  async getInquiries(params: InquiryQueryParams = {}): Promise<InquiryInboxResponse> {
+    return this.request<Inquiry[]>(`/inquiries${this.buildQueryString(params)}`) as Promise<InquiryInboxResponse>;
+  }
+
+  /**
+   * Mark an inquiry as read or replied, or undo either
+   */
+  async updateInquiry(inquiryData: UpdateInquiryData): Promise<ApiResponse<Inquiry>> {
+    const { id, ...data } = inquiryData;
+    return this.request<Inquiry>(`/inquiries/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Price Watches
+
+  /**
+   * Whether you watch the price of a listing
+   */
+  async getPriceWatch(propertyId: string): Promise<ApiResponse<PriceWatchStatus>> {
+    return this.request<PriceWatchStatus>(`/properties/${propertyId}/watch`);
+  }
+
+  /**
+   * Get notified when the price of a listing drops
+   */
+  async watchPrice(propertyId: string): Promise<ApiResponse<PriceWatchStatus>> {
+    return this.request<PriceWatchStatus>(`/properties/${propertyId}/watch`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Stop watching the price of a listing
+   */
+  async unwatchPrice(propertyId: string): Promise<ApiResponse<PriceWatchStatus>> {
+    return this.request<PriceWatchStatus>(`/properties/${propertyId}/watch`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Viewings
+
+  /**
+   * Get the upcoming viewing slots of a listing, with who booked them for its owner
+   */
+  async getViewingSlots(propertyId: string): Promise<ApiResponse<ViewingSlot[]>> {
+    return this.request<ViewingSlot[]>(`/properties/${propertyId}/slots`);
+  }
+
+  /**
+   * Offer a viewing slot on one of your listings
+   */
+  async createViewingSlot(propertyId: string, slotData: CreateViewingSlotData): Promise<ApiResponse<ViewingSlot>> {
+    return this.request<ViewingSlot>(`/properties/${propertyId}/slots`, {
+      method: 'POST',
+      body: JSON.stringify(slotData),
+    });
+  }
+
+  /**
+   * Remove a viewing slot that is not booked
+   */
+  async deleteViewingSlot(id: string): Promise<ApiResponse<{ deleted: boolean }>> {
+    return this.request<{ deleted: boolean }>(`/viewings/slots/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Get the viewings you booked or host, upcoming ones by default
+   */
+  async getViewings(scope: 'upcoming' | 'past' = 'upcoming'): Promise<ApiResponse<Viewing[]>> {
+    return this.request<Viewing[]>(`/viewings${this.buildQueryString({ scope })}`);
+  }
+
+  /**
+   * Book a viewing slot
+   */
+  async bookViewing(viewingData: BookViewingData): Promise<ApiResponse<Viewing>> {
+    return this.request<Viewing>('/viewings', {
+      method: 'POST',
+      body: JSON.stringify(viewingData),
+    });
+  }
+
+  /**
+   * Cancel a viewing you booked or host
+   */
+  async cancelViewing(id: string): Promise<ApiResponse<Viewing>> {
+    return this.request<Viewing>(`/viewings/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Download URL of a viewing as an `.ics` file
+   */
+  getViewingIcsUrl(id: string): string {
+    return `${this.baseUrl}/viewings/${id}/ics`;
+  }
+
+  /**
+   * Get the subscription URL of the calendar of viewings you host
+   */
+  async getViewingCalendar(): Promise<ApiResponse<ViewingCalendar>> {
+    return this.request<ViewingCalendar>('/viewings/calendar');
+  }
+
+  /**
+   * Create the calendar URL, or replace it so the old one stops working
+   */
+  async resetViewingCalendar(): Promise<ApiResponse<ViewingCalendar>> {
+    return this.request<ViewingCalendar>('/viewings/calendar', {
+      method: 'POST',
+    });
+  }
+
+  // Saved Searches
+
+  /**
+   * Get the saved searches of the signed-in user
+   */
+  async getSavedSearches(): Promise<ApiResponse<SavedSearch[]>> {
+    return this.request<SavedSearch[]>('/saved-searches');
+  }
+
+  /**
+   * Save a combination of listing filters, new matches are sent as digests
+   */
+  async createSavedSearch(savedSearchData: CreateSavedSearchData): Promise<ApiResponse<SavedSearch>> {
+    return this.request<SavedSearch>('/saved-searches', {
+      method: 'POST',
+      body: JSON.stringify(savedSearchData),
+    });
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(id: string): Promise<ApiResponse<{ deleted: boolean }>> {
+    return this.request<{ deleted: boolean }>(`/saved-searches/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Check every saved search for new listings and send the digests (admins only)
+   */
+  async runSavedSearches(): Promise<ApiResponse<SavedSearchRunResult>> {
+    return this.request<SavedSearchRunResult>('/saved-searches/run', {
+      method: 'POST',
+    });
+  }
+
+  // Import Methods
+
+  /**
+   * Validate an import file without creating any listings
+   */
+  async previewImport(file: File): Promise<ApiResponse<ImportPreview>> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('dryRun', 'true');
+
+    return this.postForm<ImportPreview>('/properties/import', formData);
+  }
+
+  /**
+   * Start importing the valid rows of a file, progress is reported on the job
+   */
+  async startImport(file: File, options: ImportOptions = {}): Promise<ApiResponse<ImportJob>> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('fetchImages', String(Boolean(options.fetchImages)));
+    formData.append('publish', String(Boolean(options.publish)));
+
+    return this.postForm<ImportJob>('/properties/import', formData);
+  }
+
+  /**
+   * Get the most recent import jobs
+   */
+  async getImportJobs(): Promise<ApiResponse<ImportJob[]>> {
+    return this.request<ImportJob[]>('/properties/import');
+  }
+
+  /**
+   * Get an import job and its progress
+   */
+  async getImportJob(id: string): Promise<ApiResponse<ImportJob>> {
+    return this.request<ImportJob>(`/properties/import/${id}`);
+  }
+
+  // Multipart POST, the browser sets the Content-Type with its boundary
+  private async postForm<T>(endpoint: string, formData: FormData): Promise<ApiResponse<T>> {
     try {
-      const url = `${this.baseUrl}/properties/${propertyId}/images`;
+      const url = `${this.baseUrl}${endpoint}`;
       const response = await fetch(url, {
         method: 'POST',
         body: formData,
@@ -194,10 +687,18 @@ class ApiClient {
 
       const data = await response.json();
 
+      if (response.status === 401) {
+        this.handleUnauthorized(endpoint);
+      }
+
       if (!response.ok) {
+        const error = data.error || `HTTP ${response.status}: ${response.statusText}`;
         return {
           success: false,
-          error: data.error || `HTTP ${response.status}: ${response.statusText}`,
+          error,
+          code: data.code,
+          errors: data.errors,
+          cause: createApiError(response.status, data, response.headers),
         };
       }
 
@@ -219,3 +720,14 @@ class ApiClient {
 const apiClient = new ApiClient();
 
 export default apiClient;
+
+// Typed errors set as `cause` on failed responses
+export {
+  ApiError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  ValidationError,
+} from '@/lib/apiErrors';
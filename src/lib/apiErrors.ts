@@ -0,0 +1,175 @@
+import { ErrorCode } from '@/types';
+
+/**
+ * Every error code the API returns, with its HTTP status and default message.
+ * Codes are stable, messages may change and are meant for people.
+ */
+export const errorCatalog: Record<ErrorCode, { status: number; message: string }> = {
+  INVALID_REQUEST: { status: 400, message: 'Invalid request' },
+  INVALID_JSON: { status: 400, message: 'Request body must be valid JSON' },
+  INVALID_OBJECT_ID: { status: 400, message: 'Invalid id' },
+  INVALID_CURSOR: { status: 400, message: 'Invalid cursor' },
+  VALIDATION_FAILED: { status: 422, message: 'Validation failed' },
+  AUTHENTICATION_REQUIRED: { status: 401, message: 'Authentication required' },
+  INVALID_CREDENTIALS: { status: 401, message: 'Invalid email or password' },
+  INVALID_API_KEY: { status: 401, message: 'Invalid API key' },
+  FORBIDDEN: { status: 403, message: 'You do not have permission to perform this action' },
+  NOT_FOUND: { status: 404, message: 'Not found' },
+  PROPERTY_NOT_FOUND: { status: 404, message: 'Property not found' },
+  PROPERTY_TYPE_NOT_FOUND: { status: 404, message: 'Property type not found' },
+  REVISION_NOT_FOUND: { status: 404, message: 'Revision not found' },
+  USER_NOT_FOUND: { status: 404, message: 'User not found' },
+  API_KEY_NOT_FOUND: { status: 404, message: 'API key not found' },
+  IMPORT_JOB_NOT_FOUND: { status: 404, message: 'Import job not found' },
+  SAVED_SEARCH_NOT_FOUND: { status: 404, message: 'Saved search not found' },
+  INQUIRY_NOT_FOUND: { status: 404, message: 'Inquiry not found' },
+  SLOT_NOT_FOUND: { status: 404, message: 'Viewing slot not found' },
+  VIEWING_NOT_FOUND: { status: 404, message: 'Viewing not found' },
+  CONFLICT: { status: 409, message: 'The request conflicts with the current state' },
+  EMAIL_TAKEN: { status: 409, message: 'An account with this email already exists' },
+  PROPERTY_TYPE_EXISTS: { status: 409, message: 'Property type already exists' },
+  PROPERTY_TYPE_IN_USE: { status: 409, message: 'Property type is used by listings' },
+  INVALID_STATUS_TRANSITION: { status: 409, message: 'The property cannot move to this status' },
+  SLOT_OVERLAP: { status: 409, message: 'The slot overlaps another slot of this listing' },
+  SLOT_BOOKED: { status: 409, message: 'This slot is already booked' },
+  PAYLOAD_TOO_LARGE: { status: 413, message: 'Request body is too large' },
+  RATE_LIMITED: { status: 429, message: 'Too many requests' },
+  STORAGE_NOT_CONFIGURED: { status: 500, message: 'Cloudflare R2 configuration missing' },
+  INTERNAL_ERROR: { status: 500, message: 'Internal server error' },
+};
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(errorCatalog, value);
+}
+
+/**
+ * An API failure with its error code. Route handlers may throw it and
+ * `apiClient` returns one as the `cause` of failed responses.
+ */
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+
+  constructor(code: ErrorCode, message: string = errorCatalog[code].message, status: number = errorCatalog[code].status) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * 422, `errors` holds a message per field
+ */
+export class ValidationError extends ApiError {
+  readonly errors: Record<string, string>;
+
+  constructor(errors: Record<string, string>, message?: string) {
+    super('VALIDATION_FAILED', message);
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * 401, the request needs a signed-in user or a valid API key
+ */
+export class AuthenticationError extends ApiError {
+  constructor(code: ErrorCode = 'AUTHENTICATION_REQUIRED', message?: string) {
+    super(code, message, 401);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * 403, the user or API key lacks a permission
+ */
+export class PermissionError extends ApiError {
+  constructor(code: ErrorCode = 'FORBIDDEN', message?: string) {
+    super(code, message, 403);
+    this.name = 'PermissionError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(code: ErrorCode = 'NOT_FOUND', message?: string) {
+    super(code, message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(code: ErrorCode = 'CONFLICT', message?: string) {
+    super(code, message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * 429, with the limit details from the response headers
+ */
+export class RateLimitError extends ApiError {
+  readonly retryAfter: number; // Seconds until requests are accepted again
+  readonly limit: number | null;
+  readonly remaining: number | null;
+  readonly resetAt: Date | null;
+
+  constructor(message: string, headers: Headers) {
+    super('RATE_LIMITED', message);
+    this.name = 'RateLimitError';
+
+    const numberHeader = (name: string) => {
+      const value = headers.get(name);
+      return value === null || isNaN(Number(value)) ? null : Number(value);
+    };
+
+    const reset = numberHeader('X-RateLimit-Reset');
+    this.retryAfter = numberHeader('Retry-After') ?? 60;
+    this.limit = numberHeader('X-RateLimit-Limit');
+    this.remaining = numberHeader('X-RateLimit-Remaining');
+    this.resetAt = reset !== null ? new Date(reset * 1000) : null;
+  }
+}
+
+// Generic codes for responses that do not carry one
+const statusCodes: Record<number, ErrorCode> = {
+  401: 'AUTHENTICATION_REQUIRED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  422: 'VALIDATION_FAILED',
+  429: 'RATE_LIMITED',
+};
+
+/**
+ * Typed error for a failed API response body. Responses without a known code
+ * (e.g. from a proxy) fall back to a code matching their status.
+ */
+export function createApiError(
+  status: number,
+  body: { error?: string; code?: unknown; errors?: Record<string, string> },
+  headers: Headers
+): ApiError {
+  const code: ErrorCode = isErrorCode(body.code)
+    ? body.code
+    : statusCodes[status] || (status < 500 ? 'INVALID_REQUEST' : 'INTERNAL_ERROR');
+  const message = body.error || errorCatalog[code].message;
+
+  switch (status) {
+    case 401:
+      return new AuthenticationError(code, message);
+    case 403:
+      return new PermissionError(code, message);
+    case 404:
+      return new NotFoundError(code, message);
+    case 409:
+      return new ConflictError(code, message);
+    case 422:
+      return new ValidationError(body.errors || {}, message);
+    case 429:
+      return new RateLimitError(message, headers);
+    default:
+      return new ApiError(code, message, status);
+  }
+}
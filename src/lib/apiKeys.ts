@@ -0,0 +1,90 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest } from 'next/server';
+import { apiKeyScopes } from '@/lib/roles';
+import { list, object, oneOf, string } from '@/lib/schema';
+import { ApiKey, IApiKey } from '@/models/ApiKey';
+import { IUser } from '@/models/User';
+import { ApiKeyInfo } from '@/types';
+
+export const MAX_API_KEY_NAME_LENGTH = 100;
+
+/**
+ * `CreateApiKeyData`. Whether the creator's role allows the scopes is checked
+ * by the route.
+ */
+export const createApiKeySchema = object('CreateApiKeyData', {
+  name: string({ maxLength: MAX_API_KEY_NAME_LENGTH }).required(),
+  scopes: list(oneOf(apiKeyScopes)).required(),
+}, {
+  refine: (data, errors) => {
+    if (data.scopes && data.scopes.length === 0) {
+      errors.scopes = 'Choose at least one scope';
+    }
+  }
+});
+
+const KEY_PREFIX = 'ppk_';
+
+// ppk_<key id>_<secret>, the key id is random and unrelated to the secret
+const KEY_PATTERN = /^ppk_([0-9a-f]{12})_([A-Za-z0-9_-]+)$/;
+
+// Skip rewriting lastUsedAt for keys used within the last minute
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new key. Only its id, which identifies the key in listings, and
+ * the hash of its secret are stored; the key itself is returned to the client once.
+ */
+export function generateApiKey(): { key: string; keyId: string; keyHash: string } {
+  const keyId = randomBytes(6).toString('hex');
+  const secret = randomBytes(24).toString('base64url');
+  return { key: `${KEY_PREFIX}${keyId}_${secret}`, keyId, keyHash: hashApiKey(secret) };
+}
+
+/**
+ * The token of an `Authorization: Bearer` header, or null
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  const match = header ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  return match ? match[1] : null;
+}
+
+/**
+ * Look up an active key with its user and record that it was used
+ */
+export async function findApiKey(token: string): Promise<(IApiKey & { user: IUser }) | null> {
+  const match = KEY_PATTERN.exec(token);
+  if (!match) return null;
+
+  const apiKey = await ApiKey.findOne({
+    keyId: match[1],
+    keyHash: hashApiKey(match[2]),
+    revoked_at: null
+  }).populate<{ user: IUser }>('user');
+
+  if (!apiKey || !apiKey.user) return null;
+
+  const now = new Date();
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: now });
+  }
+
+  return apiKey;
+}
+
+export function toApiKeyInfo(apiKey: IApiKey): ApiKeyInfo {
+  return {
+    _id: String(apiKey._id),
+    name: apiKey.name,
+    keyId: `${KEY_PREFIX}${apiKey.keyId}`,
+    scopes: apiKey.scopes,
+    lastUsedAt: apiKey.lastUsedAt,
+    revoked_at: apiKey.revoked_at,
+    created_at: apiKey.created_at
+  };
+}
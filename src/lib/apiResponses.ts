@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { ApiError, ValidationError, errorCatalog } from '@/lib/apiErrors';
+import { FieldErrors, summarizeErrors } from '@/lib/schema';
+import { ErrorCode } from '@/types';
+
+/**
+ * Failure response with a code from `errorCatalog`, the message defaults to
+ * the catalog's one
+ */
+export function errorResponse(
+  code: ErrorCode,
+  message: string = errorCatalog[code].message,
+  init: { errors?: FieldErrors; headers?: Record<string, string> } = {}
+) {
+  return NextResponse.json(
+    { success: false, code, error: message, ...(init.errors ? { errors: init.errors } : {}) },
+    { status: errorCatalog[code].status, headers: init.headers }
+  );
+}
+
+/**
+ * 422 response carrying the per-field error map, so forms can show each
+ * message next to its input
+ */
+export function validationErrorResponse(errors: FieldErrors) {
+  return errorResponse('VALIDATION_FAILED', `Validation failed: ${summarizeErrors(errors)}`, { errors });
+}
+
+/**
+ * Prefix attribute errors with `attributes.` to key them like the request body
+ */
+export function attributeErrors(errors: FieldErrors): FieldErrors {
+  return Object.fromEntries(
+    Object.entries(errors).map(([key, message]) => [`attributes.${key}`, message])
+  );
+}
+
+/**
+ * Central mapper for errors thrown in route handlers. Known failures become
+ * their 4xx response, anything else is logged with `context` and becomes a 500.
+ */
+export function handleApiError(error: unknown, context: string) {
+  if (error instanceof ValidationError) {
+    return validationErrorResponse(error.errors);
+  }
+
+  if (error instanceof ApiError) {
+    return errorResponse(error.code, error.message);
+  }
+
+  // Malformed ids and other values Mongoose cannot cast, e.g. GET /api/properties/abc
+  if (error instanceof mongoose.Error.CastError) {
+    return error.kind === 'ObjectId'
+      ? errorResponse('INVALID_OBJECT_ID', `Invalid ${error.path === '_id' ? 'id' : error.path}`)
+      : errorResponse('INVALID_REQUEST', `Invalid value for ${error.path}`);
+  }
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    const errors: FieldErrors = {};
+    for (const [path, fieldError] of Object.entries(error.errors)) {
+      errors[path] = fieldError.message;
+    }
+    return validationErrorResponse(errors);
+  }
+
+  // request.json() on a malformed body
+  if (error instanceof SyntaxError) {
+    return errorResponse('INVALID_JSON');
+  }
+
+  // Unique index violations that slipped past the route's own checks
+  if ((error as { code?: unknown })?.code === 11000) {
+    return errorResponse('CONFLICT');
+  }
+
+  console.error(`${context}:`, error);
+  return errorResponse('INTERNAL_ERROR');
+}
@@ -0,0 +1,160 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { userRoles } from '@/lib/roles';
+import { custom, number, object, oneOf, string } from '@/lib/schema';
+import { Session } from '@/models/Session';
+import { IUser } from '@/models/User';
+import { AuthUser } from '@/types';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'propertio_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Hash a password with scrypt and a random salt, stored as "salt:hash" in hex
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a hash produced by `hashPassword`
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * `UserQueryParams` of the admin user list
+ */
+export const userQuerySchema = object('UserQueryParams', {
+  page: number({ integer: true, min: 1 }).default(1),
+  limit: number({ integer: true, min: 1, max: 100 }).default(20),
+});
+
+/**
+ * `UpdateUserRoleData`, an admin promoting or demoting a user
+ */
+export const updateUserRoleSchema = object('UpdateUserRoleData', {
+  role: oneOf(userRoles).required(),
+});
+
+// Emails are stored and compared in lower case
+function emailField({ checkFormat }: { checkFormat: boolean }) {
+  return custom(value => {
+    if (typeof value !== 'string') return null;
+    const email = value.trim().toLowerCase();
+    return !checkFormat || EMAIL_PATTERN.test(email) ? email : null;
+  }, 'is not a valid email address', { type: 'string', format: checkFormat ? 'email' : undefined });
+}
+
+// Passwords are used as typed, `string()` would trim them
+function passwordField(minLength: number) {
+  return custom(
+    value => typeof value === 'string' && value.length >= minLength ? value : null,
+    minLength > 1 ? `must be at least ${minLength} characters` : 'must be text',
+    { type: 'string', minLength: minLength > 1 ? minLength : undefined }
+  );
+}
+
+/**
+ * `LoginData`, the password is only checked against the stored hash
+ */
+export const loginSchema = object('LoginData', {
+  email: emailField({ checkFormat: false }).required(),
+  password: passwordField(1).required(),
+});
+
+/**
+ * `SignupData`, every new account is a viewer so there is no role to pick
+ */
+export const signupSchema = object('SignupData', {
+  name: string().required(),
+  email: emailField({ checkFormat: true }).required(),
+  password: passwordField(MIN_PASSWORD_LENGTH).required(),
+});
+
+// Only a hash of the token is stored, so a leaked sessions collection cannot be replayed
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session for a user and set its cookie on the response
+ */
+export async function startSession(response: NextResponse, userId: mongoose.Types.ObjectId): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+  const expires = new Date(Date.now() + SESSION_TTL_MS);
+
+  await Session.create({ tokenHash: hashToken(token), user: userId, expires_at: expires });
+
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires
+  });
+}
+
+/**
+ * End the request's session, if any, and clear its cookie on the response
+ */
+export async function endSession(request: NextRequest, response: NextResponse): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await Session.deleteOne({ tokenHash: hashToken(token) });
+  }
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+/**
+ * The signed-in user of the request, or null
+ */
+export async function getCurrentUser(request: NextRequest): Promise<IUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await Session.findOne({
+    tokenHash: hashToken(token),
+    expires_at: { $gt: new Date() }
+  }).populate<{ user: IUser | null }>('user');
+
+  return session?.user || null;
+}
+
+/**
+ * Whether an email is listed in `ADMIN_EMAILS`, these accounts sign up as admins
+ */
+export function isAdminEmail(email: string): boolean {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .includes(email);
+}
+
+/**
+ * The user fields safe to return to the client
+ */
+export function toAuthUser(user: IUser): AuthUser {
+  return {
+    _id: String(user._id),
+    email: user.email,
+    name: user.name,
+    role: user.role
+  };
+}
@@ -0,0 +1,46 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+interface ConditionalOptions {
+  contentType: string;
+  lastModified?: Date;
+  cacheControl?: string;
+  headers?: HeadersInit;
+}
+
+/**
+ * Respond with `body`, or with `304 Not Modified` when the client already has
+ * it. The ETag is a hash of the body, so any change to the content changes it
+ * even when `lastModified` stays the same. `If-None-Match` takes precedence
+ * over `If-Modified-Since`, as in RFC 9110.
+ */
+export function conditionalResponse(request: NextRequest, body: string, options: ConditionalOptions): NextResponse {
+  const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+
+  const headers = new Headers(options.headers);
+  headers.set('ETag', etag);
+  headers.set('Cache-Control', options.cacheControl || 'public, max-age=0, must-revalidate');
+  if (options.lastModified) {
+    headers.set('Last-Modified', options.lastModified.toUTCString());
+  }
+
+  const ifNoneMatch = request.headers.get('if-none-match');
+  const ifModifiedSince = request.headers.get('if-modified-since');
+
+  let notModified = false;
+  if (ifNoneMatch) {
+    notModified = ifNoneMatch.trim() === '*'
+      || ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+  } else if (ifModifiedSince && options.lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    notModified = !Number.isNaN(since) && Math.floor(options.lastModified.getTime() / 1000) * 1000 <= since;
+  }
+
+  if (notModified) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  headers.set('Content-Type', options.contentType);
+  return new NextResponse(body, { headers });
+}
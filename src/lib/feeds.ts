@@ -0,0 +1,181 @@
+import { escapeXml } from '@/lib/xml';
+import { FeedFormat, PropertyStatusChange } from '@/types';
+
+export const feedFormats = ['atom', 'rss', 'json'] as const satisfies readonly FeedFormat[];
+
+export const feedContentTypes: Record<FeedFormat, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+};
+
+export const DEFAULT_FEED_SIZE = 20;
+
+const SUMMARY_LENGTH = 500;
+
+const imageTypes: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+// Fields of a listing read for a feed
+export interface FeedSource {
+  _id: unknown;
+  title: string;
+  price: number;
+  description: string;
+  images?: string[];
+  statusHistory?: PropertyStatusChange[];
+  created_at: Date;
+}
+
+export interface FeedEntry {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  category: string;
+  price: number;
+  image?: string;
+  published: Date;
+  updated: Date;
+}
+
+export interface Feed {
+  title: string;
+  feedUrl: string;
+  homeUrl: string;
+  updated: Date;
+  entries: FeedEntry[];
+}
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0
+  }).format(price);
+}
+
+// Images are stored without a content type, the extension is good enough
+function imageType(url: string): string {
+  const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(url)?.[1]?.toLowerCase();
+  return (extension && imageTypes[extension]) || 'image/jpeg';
+}
+
+/**
+ * Feed entry of a listing. The listing page is its permalink, it counts as
+ * updated by its last status change (e.g. being published).
+ */
+export function toFeedEntry(property: FeedSource, typeLabel: string, origin: string): FeedEntry {
+  const url = `${origin}/${property._id}`;
+  const lastChange = property.statusHistory?.reduce<Date | null>(
+    (latest, change) => !latest || change.changed_at > latest ? new Date(change.changed_at) : latest,
+    null
+  );
+  const description = property.description.length > SUMMARY_LENGTH
+    ? `${property.description.slice(0, SUMMARY_LENGTH).trimEnd()}…`
+    : property.description;
+
+  return {
+    id: url,
+    url,
+    title: property.title,
+    summary: `${formatPrice(property.price)} · ${typeLabel}\n\n${description}`,
+    category: typeLabel,
+    price: property.price,
+    image: property.images?.[0],
+    published: property.created_at,
+    updated: lastChange && lastChange > property.created_at ? lastChange : property.created_at
+  };
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.entries.map(entry => `  <entry>
+    <id>${escapeXml(entry.id)}</id>
+    <title>${escapeXml(entry.title)}</title>
+    <link rel="alternate" href="${escapeXml(entry.url)}"/>
+    <published>${entry.published.toISOString()}</published>
+    <updated>${entry.updated.toISOString()}</updated>
+    <summary>${escapeXml(entry.summary)}</summary>
+    <category term="${escapeXml(entry.category)}"/>${entry.image ? `
+    <link rel="enclosure" href="${escapeXml(entry.image)}" type="${imageType(entry.image)}"/>` : ''}
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.feedUrl)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <updated>${feed.updated.toISOString()}</updated>
+  <link rel="self" href="${escapeXml(feed.feedUrl)}"/>
+  <link rel="alternate" href="${escapeXml(feed.homeUrl)}"/>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+// RSS 2.0 requires an enclosure length, 0 stands for unknown
+function renderRss(feed: Feed): string {
+  const items = feed.entries.map(entry => `    <item>
+      <title>${escapeXml(entry.title)}</title>
+      <link>${escapeXml(entry.url)}</link>
+      <guid isPermaLink="true">${escapeXml(entry.url)}</guid>
+      <pubDate>${entry.published.toUTCString()}</pubDate>
+      <description>${escapeXml(entry.summary)}</description>
+      <category>${escapeXml(entry.category)}</category>${entry.image ? `
+      <enclosure url="${escapeXml(entry.image)}" length="0" type="${imageType(entry.image)}"/>` : ''}
+    </item>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homeUrl)}</link>
+    <description>${escapeXml(feed.title)}</description>
+    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>
+    <atom:link rel="self" href="${escapeXml(feed.feedUrl)}" type="application/rss+xml"/>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+// JSON Feed 1.1, the price is kept in a `_property` extension
+function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl,
+    items: feed.entries.map(entry => ({
+      id: entry.id,
+      url: entry.url,
+      title: entry.title,
+      content_text: entry.summary,
+      image: entry.image,
+      date_published: entry.published.toISOString(),
+      date_modified: entry.updated.toISOString(),
+      tags: [entry.category],
+      attachments: entry.image ? [{ url: entry.image, mime_type: imageType(entry.image) }] : undefined,
+      _property: { price: entry.price, type: entry.category }
+    }))
+  }, null, 2);
+}
+
+/**
+ * Serialize a feed as Atom, RSS 2.0 or JSON Feed
+ */
+export function renderFeed(format: FeedFormat, feed: Feed): string {
+  switch (format) {
+    case 'atom':
+      return renderAtom(feed);
+    case 'rss':
+      return renderRss(feed);
+    case 'json':
+      return renderJsonFeed(feed);
+  }
+}
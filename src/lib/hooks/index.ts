@@ -1,2 +1,3 @@
 export { useProperties } from './useProperties';
-export { usePropertyTypes } from './usePropertyTypes'; 
\ No newline at end of file
+export { usePropertyTypes } from './usePropertyTypes';
+export { useAuth } from './useAuth';
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import apiClient from '../apiClient';
+import { hasPermission } from '@/lib/roles';
+import { AuthUser, LoginData, Permission, SignupData } from '@/types';
+
+export function useAuth() {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUser = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      // A 401 only means nobody is signed in
+      const response = await apiClient.getCurrentUser();
+      setUser(response.success && response.data ? response.data : null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const login = useCallback(async (loginData: LoginData) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.login(loginData);
+
+      if (response.success && response.data) {
+        setUser(response.data);
+        return { success: true, data: response.data };
+      } else {
+        setError(response.error || 'Failed to sign in');
+        return { success: false, error: response.error };
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const signup = useCallback(async (signupData: SignupData) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiClient.signup(signupData);
+
+      if (response.success && response.data) {
+        setUser(response.data);
+        return { success: true, data: response.data };
+      } else {
+        setError(response.error || 'Failed to create account');
+        return { success: false, error: response.error };
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const logout = useCallback(async () => {
+    const response = await apiClient.logout();
+    if (response.success) {
+      setUser(null);
+    }
+    return response;
+  }, []);
+
+  // Whether the current user's role grants a permission, used to hide actions
+  const can = useCallback((permission: Permission) => {
+    return hasPermission(user?.role, permission);
+  }, [user]);
+
+  useEffect(() => {
+    fetchUser();
+  }, [fetchUser]);
+
+  return {
+    user,
+    loading,
+    error,
+    fetchUser,
+    login,
+    signup,
+    logout,
+    can,
+    clearError: () => setError(null),
+  };
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import apiClient from '../apiClient';
 import { IProperty } from '@/models';
-import { PropertyQueryParams, CreatePropertyData, UpdatePropertyData } from '@/types';
+import { PropertyQueryParams, CreatePropertyData, UpdatePropertyData, PropertyFacets, PropertyStatus } from '@/types';
 
 interface UsePropertiesOptions {
   initialParams?: PropertyQueryParams;
@@ -20,6 +20,11 @@ export function useProperties(options: UsePropertiesOptions = {}) {
     total: 0,
     totalPages: 0,
   });
+  const [cursors, setCursors] = useState<{ next: string | null; prev: string | null }>({
+    next: null,
+    prev: null,
+  });
+  const [facets, setFacets] = useState<PropertyFacets | null>(null);
   const hasFetched = useRef(false);
   const fetchProperties = useCallback(async (params: PropertyQueryParams = {}) => {
     setLoading(true);
@@ -31,6 +36,8 @@ export function useProperties(options: UsePropertiesOptions = {}) {
       if (response.success && response.data) {
         setProperties(response.data);
         setPagination(response.pagination);
+        setCursors({ next: response.nextCursor ?? null, prev: response.prevCursor ?? null });
+        setFacets(response.facets ?? null);
         
       } else {
         setError(response.error || 'Failed to fetch properties');
@@ -42,6 +49,30 @@ export function useProperties(options: UsePropertiesOptions = {}) {
     }
   }, []);
 
+  // Append the next cursor page, for infinite feeds started with `fetchProperties({ cursor: '' })`
+  const loadMore = useCallback(async (params: Omit<PropertyQueryParams, 'cursor' | 'page'> = {}) => {
+    if (!cursors.next) return;
+
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const response = await apiClient.getProperties({ ...params, cursor: cursors.next });
+      
+      if (response.success && response.data) {
+        setProperties(prev => [...prev, ...response.data!]);
+        setPagination(response.pagination);
+        setCursors(prev => ({ next: response.nextCursor ?? null, prev: prev.prev }));
+      } else {
+        setError(response.error || 'Failed to fetch properties');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [cursors.next]);
+
   const createProperty = useCallback(async (propertyData: CreatePropertyData) => {
     setLoading(true);
     setError(null);
@@ -115,6 +146,33 @@ export function useProperties(options: UsePropertiesOptions = {}) {
     }
   }, []);
 
+  const updatePropertyStatus = useCallback(async (id: string, status: PropertyStatus) => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const response = await apiClient.updatePropertyStatus(id, status);
+      
+      if (response.success && response.data) {
+        setProperties(prev => 
+          prev.map(prop => 
+            prop._id === id ? response.data! : prop
+          )
+        );
+        return { success: true, data: response.data };
+      } else {
+        setError(response.error || 'Failed to update property status');
+        return { success: false, error: response.error };
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   const searchProperties = useCallback(async (searchTerm: string, params: Omit<PropertyQueryParams, 'search'> = {}) => {
     return fetchProperties({ ...params, search: searchTerm });
   }, [fetchProperties]);
@@ -136,10 +194,16 @@ export function useProperties(options: UsePropertiesOptions = {}) {
     loading,
     error,
     pagination,
+    nextCursor: cursors.next,
+    prevCursor: cursors.prev,
+    hasMore: cursors.next !== null,
+    facets,
     fetchProperties,
+    loadMore,
     createProperty,
     updateProperty,
     deleteProperty,
+    updatePropertyStatus,
     searchProperties,
     getPropertiesByType,
     clearError: () => setError(null),
@@ -1,6 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import apiClient from '../apiClient';
 import { IPropertyType } from '@/models';
+import { CreatePropertyTypeData, UpdatePropertyTypeData, DeletePropertyTypeOptions } from '@/types';
+
+const byLabel = (a: IPropertyType, b: IPropertyType) =>
+  a.label.localeCompare(b.label, 'en', { sensitivity: 'base' });
 
 interface UsePropertyTypesOptions {
   autoFetch?: boolean;
@@ -33,6 +37,79 @@ export function usePropertyTypes(options: UsePropertyTypesOptions = {}) {
     }
   }, []);
 
+  const createPropertyType = useCallback(async (propertyTypeData: CreatePropertyTypeData) => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const response = await apiClient.createPropertyType(propertyTypeData);
+      
+      if (response.success && response.data) {
+        setPropertyTypes(prev => [...prev, response.data!].sort(byLabel));
+        return { success: true, data: response.data };
+      } else {
+        setError(response.error || 'Failed to create property type');
+        return { success: false, error: response.error };
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const updatePropertyType = useCallback(async (propertyTypeData: UpdatePropertyTypeData) => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const response = await apiClient.updatePropertyType(propertyTypeData);
+      
+      if (response.success && response.data) {
+        setPropertyTypes(prev => 
+          prev
+            .map(type => type._id === propertyTypeData.id ? response.data! : type)
+            .sort(byLabel)
+        );
+        return { success: true, data: response.data };
+      } else {
+        setError(response.error || 'Failed to update property type');
+        return { success: false, error: response.error };
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const deletePropertyType = useCallback(async (id: string, options: DeletePropertyTypeOptions = {}) => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const response = await apiClient.deletePropertyType(id, options);
+      
+      if (response.success) {
+        setPropertyTypes(prev => prev.filter(type => type._id !== id));
+        return { success: true, data: response.data };
+      } else {
+        setError(response.error || 'Failed to delete property type');
+        return { success: false, error: response.error };
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'An error occurred';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   const getPropertyTypeById = useCallback((id: string) => {
     return propertyTypes.find(type => type._id === id);
   }, [propertyTypes]);
@@ -54,6 +131,9 @@ export function usePropertyTypes(options: UsePropertyTypesOptions = {}) {
     loading,
     error,
     fetchPropertyTypes,
+    createPropertyType,
+    updatePropertyType,
+    deletePropertyType,
     getPropertyTypeById,
     getPropertyTypeByLabel,
     clearError: () => setError(null),
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { CalendarEvent, renderCalendar } from '@/lib/ical';
+
+const event: CalendarEvent = {
+  uid: 'viewing-1@propertio',
+  sequence: 0,
+  start: new Date('2024-05-01T09:30:00.000Z'),
+  end: new Date('2024-05-01T10:00:00.000Z'),
+  stamp: new Date('2024-04-20T12:00:00.000Z'),
+  summary: 'Viewing: Loft, Berlin',
+  status: 'CONFIRMED'
+};
+
+// Content lines with their folding undone
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('renderCalendar', () => {
+  it('writes events with CRLF line endings and UTC dates', () => {
+    const ics = renderCalendar({ method: 'REQUEST', events: [event] });
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'METHOD:REQUEST',
+      'BEGIN:VEVENT',
+      'UID:viewing-1@propertio',
+      'DTSTART:20240501T093000Z',
+      'DTEND:20240501T100000Z',
+      'DTSTAMP:20240420T120000Z',
+      'SUMMARY:Viewing: Loft\\, Berlin',
+      'STATUS:CONFIRMED'
+    ]));
+  });
+
+  it('escapes text values', () => {
+    const ics = renderCalendar({ events: [{ ...event, description: 'Ring twice; door\\gate\nthen left' }] });
+    expect(unfold(ics)).toContain('DESCRIPTION:Ring twice\\; door\\\\gate\\nthen left');
+  });
+
+  it('quotes person names with separators and asks invitees to respond', () => {
+    const ics = renderCalendar({
+      method: 'REQUEST',
+      events: [{
+        ...event,
+        organizer: { name: 'Agent "Ann"', email: 'ann@example.com' },
+        attendee: { name: 'Doe, John', email: 'john@example.com' }
+      }]
+    });
+
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'ORGANIZER;CN=Agent \'Ann\':mailto:ann@example.com',
+      'ATTENDEE;CN="Doe, John";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:john@example.com'
+    ]));
+    expect(unfold(renderCalendar({ events: [{ ...event, attendee: { name: 'John', email: 'john@example.com' } }] })))
+      .toContain('ATTENDEE;CN=John:mailto:john@example.com');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const summary = 'Viewing of the ' + 'größte Wohnung '.repeat(10);
+    const ics = renderCalendar({ events: [{ ...event, summary }] });
+    const lines = ics.split('\r\n');
+
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(lines.filter(line => line.startsWith(' ')).length).toBeGreaterThan(1);
+    expect(unfold(ics)).toContain(`SUMMARY:${summary}`);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for viewing invitations and feeds
+ */
+
+export const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+const PRODUCT_ID = '-//Propertio//Viewings//EN';
+
+// Content lines are folded after 75 octets
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarPerson {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  stamp: Date; // When the event last changed
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: 'CONFIRMED' | 'CANCELLED';
+  organizer?: CalendarPerson;
+  attendee?: CalendarPerson;
+}
+
+export interface Calendar {
+  // REQUEST or CANCEL for invitations sent by mail, none for subscribed feeds
+  method?: 'REQUEST' | 'CANCEL';
+  name?: string;
+  events: CalendarEvent[];
+}
+
+// 20240501T093000Z
+function formatDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Parameter values with separators must be quoted, and cannot hold quotes
+function quoteParam(value: string): string {
+  const clean = value.replace(/"/g, '\'').replace(/[\r\n]+/g, ' ');
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/**
+ * Split a content line into 75 octet chunks, continuation lines start with a
+ * space. Multi-byte characters are never split.
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+function person(property: 'ORGANIZER' | 'ATTENDEE', who: CalendarPerson, extra = ''): string {
+  return `${property};CN=${quoteParam(who.name)}${extra}:mailto:${who.email}`;
+}
+
+function renderEvent(event: CalendarEvent, method?: Calendar['method']): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatDate(event.stamp)}`,
+    `DTSTART:${formatDate(event.start)}`,
+    `DTEND:${formatDate(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.status}`
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.organizer) lines.push(person('ORGANIZER', event.organizer));
+  if (event.attendee) {
+    // Invitations ask the attendee to respond, feeds only list them
+    const extra = method === 'REQUEST' ? ';ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED' : '';
+    lines.push(person('ATTENDEE', event.attendee, extra));
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize a calendar with CRLF line endings and folded lines
+ */
+export function renderCalendar(calendar: Calendar): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN'
+  ];
+
+  if (calendar.method) lines.push(`METHOD:${calendar.method}`);
+  if (calendar.name) lines.push(`X-WR-CALNAME:${escapeText(calendar.name)}`);
+
+  for (const event of calendar.events) {
+    lines.push(...renderEvent(event, calendar.method));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,4 @@
+// Upload limits of POST /api/properties/[id]/images, shared with the post form
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_IMAGES_PER_REQUEST = 10;
+export const MAX_REQUEST_BYTES = MAX_IMAGES_PER_REQUEST * MAX_IMAGE_BYTES;
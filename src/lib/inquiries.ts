@@ -0,0 +1,56 @@
+import { boolean, number, object, objectId, oneOf, string } from '@/lib/schema';
+import { ContactTime, Inquiry, InquiryState } from '@/types';
+
+export const MAX_INQUIRY_MESSAGE_LENGTH = 2000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,30}$/;
+
+export const contactTimes: ContactTime[] = ['any', 'morning', 'afternoon', 'evening'];
+
+export const contactTimeLabels: Record<ContactTime, string> = {
+  any: 'Any time',
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+};
+
+/**
+ * `CreateInquiryData` of the contact form, also checked by the modal before
+ * sending. The `website` honeypot is handled by the route.
+ */
+export const inquirySchema = object('CreateInquiryData', {
+  name: string({ maxLength: 100 }).required(),
+  email: string({ maxLength: 200, pattern: EMAIL_PATTERN }).required(),
+  phone: string({ maxLength: 30, pattern: PHONE_PATTERN }),
+  message: string({ maxLength: MAX_INQUIRY_MESSAGE_LENGTH }).required(),
+  preferredContactTime: oneOf(contactTimes).default('any'),
+});
+
+export const inquiryStates: InquiryState[] = ['new', 'read', 'replied'];
+
+/**
+ * `InquiryQueryParams` of the inbox
+ */
+export const inquiryQuerySchema = object('InquiryQueryParams', {
+  page: number({ integer: true, min: 1 }).default(1),
+  limit: number({ integer: true, min: 1, max: 100 }).default(50),
+  property: objectId().label('Property'),
+  state: oneOf(inquiryStates),
+});
+
+/**
+ * `UpdateInquiryData`, marks an inquiry read or replied, or back
+ */
+export const updateInquirySchema = object('UpdateInquiryData', {
+  read: boolean(),
+  replied: boolean(),
+});
+
+/**
+ * Where an inquiry is in the inbox, replying implies it was read
+ */
+export function getInquiryState(inquiry: Pick<Inquiry, 'read_at' | 'replied_at'>): InquiryState {
+  if (inquiry.replied_at) return 'replied';
+  return inquiry.read_at ? 'read' : 'new';
+}
@@ -0,0 +1,84 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface NotificationAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface Notification {
+  to: { email: string; name: string };
+  subject: string;
+  text: string;
+  kind: string; // e.g. savedSearchDigest, lets transports pick a template
+  data?: Record<string, unknown>;
+  attachments?: NotificationAttachment[]; // e.g. a viewing invitation as .ics
+}
+
+export interface Notifier {
+  /** Deliver a notification, rejecting when it could not be handed over */
+  send(notification: Notification): Promise<void>;
+}
+
+/**
+ * Writes every notification as a JSON file into a local outbox directory,
+ * for development and tests without a mail server. Attachments are also
+ * written next to it so they can be opened directly.
+ */
+export class OutboxNotifier implements Notifier {
+  constructor(private directory: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const baseName = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${uuidv4()}`;
+    await writeFile(
+      path.join(this.directory, `${baseName}.json`),
+      JSON.stringify({ ...notification, sent_at: sentAt }, null, 2)
+    );
+    for (const attachment of notification.attachments || []) {
+      await writeFile(
+        path.join(this.directory, `${baseName}-${path.basename(attachment.filename)}`),
+        attachment.content
+      );
+    }
+  }
+}
+
+/**
+ * Logs notifications instead of delivering them
+ */
+export class ConsoleNotifier implements Notifier {
+  async send(notification: Notification): Promise<void> {
+    const attachments = notification.attachments?.map(attachment => attachment.filename).join(', ');
+    console.log(
+      `Notification to ${notification.to.email}: ${notification.subject}\n${notification.text}`
+      + (attachments ? `\nAttachments: ${attachments}` : '')
+    );
+  }
+}
+
+let notifier: Notifier | null = null;
+
+/**
+ * Notifier selected by `NOTIFIER` (`outbox` by default, writing to
+ * `NOTIFIER_OUTBOX_DIR` or `.outbox`, or `console`), unless one was set
+ */
+export function getNotifier(): Notifier {
+  if (!notifier) {
+    notifier = process.env.NOTIFIER === 'console'
+      ? new ConsoleNotifier()
+      : new OutboxNotifier(process.env.NOTIFIER_OUTBOX_DIR || path.join(process.cwd(), '.outbox'));
+  }
+  return notifier;
+}
+
+/**
+ * Plug in another transport, e.g. one that sends mail
+ */
+export function setNotifier(transport: Notifier | null): void {
+  notifier = transport;
+}
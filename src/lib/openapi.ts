@@ -0,0 +1,1345 @@
+import { errorCatalog } from '@/lib/apiErrors';
+import { createApiKeySchema } from '@/lib/apiKeys';
+import {
+  SESSION_COOKIE,
+  loginSchema,
+  signupSchema,
+  updateUserRoleSchema,
+  userQuerySchema,
+} from '@/lib/auth';
+import { DEFAULT_FEED_SIZE, feedContentTypes, feedFormats } from '@/lib/feeds';
+import { ICS_CONTENT_TYPE } from '@/lib/ical';
+import { MAX_IMAGE_BYTES, MAX_IMAGES_PER_REQUEST } from '@/lib/imageLimits';
+import {
+  contactTimes,
+  inquiryQuerySchema,
+  inquirySchema,
+  updateInquirySchema,
+} from '@/lib/inquiries';
+import { exportContentTypes, exportFormats } from '@/lib/propertyExport';
+import { MAX_IMPORT_BYTES, MAX_IMPORT_ROWS } from '@/lib/propertyImport';
+import {
+  createPropertySchema,
+  historyQuerySchema,
+  propertyQuerySchema,
+  propertyTypeSchema,
+  statusChangeSchema,
+  trashQuerySchema,
+  updatePropertySchema,
+  updatePropertyTypeSchema,
+} from '@/lib/propertySchemas';
+import { propertyStatuses } from '@/lib/propertyStatus';
+import { ATTRIBUTE_KEY_PATTERN, attributeTypes } from '@/lib/propertyValidation';
+import { revertSchema } from '@/lib/revisions';
+import { apiKeyScopes, userRoles } from '@/lib/roles';
+import { MAX_SAVED_SEARCHES, savedSearchSchema } from '@/lib/savedSearches';
+import { Field, FieldMeta, ObjectSchema } from '@/lib/schema';
+import { bookViewingSchema, viewingQuerySchema, viewingSlotSchema } from '@/lib/viewings';
+
+// A JSON Schema object as used by OpenAPI 3.0, loose on purpose
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type JsonSchema = Record<string, any>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'query' | 'path';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+export interface OpenApiOperation {
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> } | JsonSchema>;
+  security?: SecurityRequirement[];
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  security: SecurityRequirement[];
+  tags: { name: string; description: string }[];
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    responses: Record<string, JsonSchema>;
+    securitySchemes: Record<string, JsonSchema>;
+  };
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+function metaToJsonSchema(meta: FieldMeta): JsonSchema {
+  if (meta.ref) {
+    return meta.description ? { allOf: [ref(meta.ref)], description: meta.description } : ref(meta.ref);
+  }
+
+  const { items, ...rest } = meta;
+  const schema: JsonSchema = Object.fromEntries(
+    Object.entries(rest).filter(([, value]) => value !== undefined)
+  );
+  if (items) {
+    schema.items = metaToJsonSchema(items);
+  }
+  return schema;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function fieldToJsonSchema(field: Field<any, boolean>): JsonSchema {
+  const schema = metaToJsonSchema(field.meta);
+  return field.defaultValue !== undefined && !schema.$ref
+    ? { ...schema, default: field.defaultValue }
+    : schema;
+}
+
+/**
+ * JSON Schema of a request body schema. Partial schemas have no required fields.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function toJsonSchema(schema: ObjectSchema<Record<string, Field<any, boolean>>, boolean>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, field] of Object.entries(schema.fields)) {
+    properties[key] = fieldToJsonSchema(field);
+    if (field.isRequired && !schema.partial) {
+      required.push(key);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+/**
+ * Query parameters of a schema, e.g. `PropertyQueryParams`
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function toQueryParameters(schema: ObjectSchema<Record<string, Field<any, boolean>>, boolean>): OpenApiParameter[] {
+  return Object.entries(schema.fields).map(([name, field]) => {
+    const { description, ...fieldSchema } = fieldToJsonSchema(field);
+
+    // Query values are strings on the wire, custom fields are documented as such
+    const querySchema = fieldSchema.$ref || fieldSchema.allOf || fieldSchema.type === 'object'
+      ? { type: 'string' }
+      : fieldSchema;
+
+    return {
+      name,
+      in: 'query' as const,
+      required: field.isRequired,
+      ...(description ? { description } : {}),
+      schema: querySchema,
+    };
+  });
+}
+
+const idParameter = (description: string): OpenApiParameter => ({
+  name: 'id',
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string', pattern: '^[a-f\\d]{24}$' },
+});
+
+const jsonBody = (schema: JsonSchema) => ({
+  required: true,
+  content: { 'application/json': { schema } },
+});
+
+// Success envelope of `ApiResponse<T>` with the given data schema
+const success = (description: string, data: JsonSchema) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        allOf: [
+          ref('ApiResponse'),
+          { type: 'object', properties: { data } },
+        ],
+      },
+    },
+  },
+});
+
+// Envelope of `PaginatedResponse<T>` with the given item schema
+const paginated = (description: string, items: JsonSchema, extra: Record<string, JsonSchema> = {}) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        allOf: [
+          ref('ApiResponse'),
+          {
+            type: 'object',
+            properties: { data: { type: 'array', items }, pagination: ref('Pagination'), ...extra },
+            required: ['pagination'],
+          },
+        ],
+      },
+    },
+  },
+});
+
+// Success without data, only a message
+const done = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('ApiResponse') } },
+});
+
+// A download in one of the given content types
+const file = (description: string, contentTypes: string[]) => ({
+  description,
+  content: Object.fromEntries(
+    contentTypes.map(contentType => [contentType, { schema: { type: 'string', format: 'binary' } }])
+  ),
+});
+
+// Listing query parameters, without those the route ignores
+const propertyQueryParameters = (...omit: string[]) =>
+  toQueryParameters(propertyQuerySchema).filter(parameter => !omit.includes(parameter.name));
+
+const deleted = { type: 'object', properties: { deleted: { type: 'boolean' } } };
+
+const dateTime = { type: 'string', format: 'date-time' };
+const optionalDateTime = { ...dateTime, nullable: true };
+
+// References to the shared error response for the given statuses
+const errors = (...statuses: number[]) => Object.fromEntries(
+  statuses.map(status => [String(status), { $ref: '#/components/responses/Error' }])
+);
+
+// Reads are open to guests, everything else needs a session or an API key
+const signedIn: SecurityRequirement[] = [{ session: [] }, { apiKey: [] }];
+const publicRead: SecurityRequirement[] = [{}, ...signedIn];
+// API key scopes only cover listings and images, account features need a session
+const sessionOnly: SecurityRequirement[] = [{ session: [] }];
+const anyone: SecurityRequirement[] = [{}];
+
+/**
+ * The OpenAPI 3 document of the listing API. Request bodies and query
+ * parameters are generated from the schemas the route handlers validate
+ * with, error codes from `errorCatalog`.
+ */
+export function buildOpenApiDocument(): OpenApiDocument {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Propertio API',
+      version: process.env.npm_package_version || '0.1.0',
+      description: 'Property listings and their lifecycle, property types, images, bulk import and export, '
+        + 'feeds, accounts, inquiries, viewings, saved searches and price watches. '
+        + 'Failures carry a stable `code`, see the `ErrorCode` schema.',
+    },
+    servers: [{ url: '/api' }],
+    security: signedIn,
+    tags: [
+      { name: 'Properties', description: 'Listings and their lifecycle' },
+      { name: 'Property Types', description: 'Types and the custom attributes their listings carry' },
+      { name: 'Images', description: 'Listing images stored in Cloudflare R2' },
+      { name: 'Import and Export', description: 'Listings in bulk from and to files' },
+      { name: 'Feeds', description: 'Atom, RSS and JSON feeds of new listings' },
+      { name: 'Auth', description: 'Accounts and sessions' },
+      { name: 'API Keys', description: 'Keys for server-to-server clients' },
+      { name: 'Users', description: 'Roles of accounts, for admins' },
+      { name: 'Inquiries', description: 'Messages from visitors to listing agents' },
+      { name: 'Viewings', description: 'Viewing slots offered by agents and their bookings' },
+      { name: 'Saved Searches', description: 'Searches whose new listings are sent in digests' },
+      { name: 'Price Watches', description: 'Notifications when a listing gets cheaper' },
+    ],
+    paths: {
+      '/properties': {
+        get: {
+          summary: 'List properties',
+          description: 'Numeric custom attributes can also be filtered with '
+            + '`attributes.<key>.min` and `attributes.<key>.max`.',
+          tags: ['Properties'],
+          parameters: toQueryParameters(propertyQuerySchema),
+          responses: {
+            200: {
+              description: 'A page of properties',
+              content: { 'application/json': { schema: ref('PaginatedResponse') } },
+            },
+            ...errors(400, 401, 403, 422, 500),
+          },
+          security: publicRead,
+        },
+        post: {
+          summary: 'Create a property',
+          description: 'The property is created as a draft, publish it once its images are uploaded.',
+          tags: ['Properties'],
+          requestBody: jsonBody(ref(createPropertySchema.name)),
+          responses: {
+            200: success('The created property', ref('Property')),
+            ...errors(400, 401, 403, 422, 429, 500),
+          },
+        },
+      },
+      '/properties/stats': {
+        get: {
+          summary: 'Listing statistics',
+          description: 'Accepts the same filters as the listing.',
+          tags: ['Properties'],
+          parameters: toQueryParameters(propertyQuerySchema),
+          responses: {
+            200: success('Totals, counts per type and price range', ref('PropertyStats')),
+            ...errors(401, 403, 422, 500),
+          },
+          security: publicRead,
+        },
+      },
+      '/properties/trash': {
+        get: {
+          summary: 'List deleted properties',
+          description: 'Agents see their own listings, admins every listing.',
+          tags: ['Properties'],
+          parameters: toQueryParameters(trashQuerySchema),
+          responses: {
+            200: paginated('A page of deleted properties', ref('Property')),
+            ...errors(401, 403, 422, 500),
+          },
+        },
+      },
+      '/properties/export': {
+        get: {
+          summary: 'Export properties',
+          description: 'Every listing matching the filters, in the listing order.',
+          tags: ['Import and Export'],
+          parameters: [
+            {
+              name: 'format',
+              in: 'query',
+              required: false,
+              schema: { type: 'string', enum: exportFormats, default: 'csv' },
+            },
+            ...propertyQueryParameters('page', 'limit', 'cursor', 'facets', 'priceBuckets'),
+          ],
+          responses: {
+            200: file('The listings', Object.values(exportContentTypes)),
+            ...errors(401, 403, 422, 429, 500),
+          },
+          security: publicRead,
+        },
+      },
+      '/properties/import': {
+        get: {
+          summary: 'List import jobs',
+          tags: ['Import and Export'],
+          responses: {
+            200: success('The latest 20 import jobs', { type: 'array', items: ref('ImportJob') }),
+            ...errors(401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+        post: {
+          summary: 'Import properties',
+          description: `A CSV or JSON file of at most ${MAX_IMPORT_BYTES / 1024 / 1024}MB and ${MAX_IMPORT_ROWS} listings. `
+            + 'A dry run only reports the rows that would fail, otherwise the valid rows are imported '
+            + 'in the background by the returned job.',
+          tags: ['Import and Export'],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    file: { type: 'string', format: 'binary' },
+                    dryRun: { type: 'boolean', default: false },
+                    fetchImages: {
+                      type: 'boolean',
+                      default: false,
+                      description: 'Copy image URLs into storage instead of linking them',
+                    },
+                    publish: {
+                      type: 'boolean',
+                      default: false,
+                      description: 'Publish the listings instead of creating drafts',
+                    },
+                  },
+                  required: ['file'],
+                },
+              },
+            },
+          },
+          responses: {
+            200: success('What a dry run would import', ref('ImportPreview')),
+            202: success('The started import job', ref('ImportJob')),
+            ...errors(400, 401, 403, 413, 429, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/properties/import/{id}': {
+        get: {
+          summary: 'Get an import job',
+          tags: ['Import and Export'],
+          parameters: [idParameter('Import job id')],
+          responses: {
+            200: success('The import job', ref('ImportJob')),
+            ...errors(400, 401, 403, 404, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/properties/feed': {
+        get: {
+          summary: 'Feed of new listings',
+          description: `The newest published listings matching the filters, ${DEFAULT_FEED_SIZE} unless \`limit\` is set. `
+            + 'Send the ETag or Last-Modified back to get a 304 until the feed changes.',
+          tags: ['Feeds'],
+          parameters: [
+            {
+              name: 'format',
+              in: 'query',
+              required: false,
+              schema: { type: 'string', enum: feedFormats, default: 'atom' },
+            },
+            ...propertyQueryParameters('page', 'cursor', 'status', 'sortBy', 'sortOrder', 'facets', 'priceBuckets'),
+          ],
+          responses: {
+            200: file('The feed', Object.values(feedContentTypes)),
+            304: { description: 'The feed has not changed' },
+            ...errors(401, 403, 422, 500),
+          },
+          security: publicRead,
+        },
+      },
+      '/properties/{id}': {
+        get: {
+          summary: 'Get a property',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id')],
+          responses: {
+            200: success('The property', ref('Property')),
+            ...errors(400, 401, 403, 404, 500),
+          },
+          security: publicRead,
+        },
+        put: {
+          summary: 'Replace a property',
+          description: 'Every editable field is replaced, omitted optional fields are cleared.',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id')],
+          requestBody: jsonBody(ref(createPropertySchema.name)),
+          responses: {
+            200: success('The updated property', ref('Property')),
+            ...errors(400, 401, 403, 404, 422, 429, 500),
+          },
+        },
+        patch: {
+          summary: 'Update a property',
+          description: 'Only the fields sent are changed, `null` clears optional fields.',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id')],
+          requestBody: jsonBody(ref(updatePropertySchema.name)),
+          responses: {
+            200: success('The updated property', ref('Property')),
+            ...errors(400, 401, 403, 404, 422, 429, 500),
+          },
+        },
+        delete: {
+          summary: 'Move a property to the trash',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id')],
+          responses: {
+            200: success('The property was moved to the trash', {
+              type: 'object',
+              properties: { deleted: { type: 'boolean' } },
+            }),
+            ...errors(400, 401, 403, 404, 429, 500),
+          },
+        },
+      },
+      '/properties/{id}/status': {
+        post: {
+          summary: 'Change the status of a property',
+          description: 'Fails with `INVALID_STATUS_TRANSITION` when the current status does not allow the change.',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id')],
+          requestBody: jsonBody(ref(statusChangeSchema.name)),
+          responses: {
+            200: success('The updated property', ref('Property')),
+            ...errors(400, 401, 403, 404, 409, 422, 429, 500),
+          },
+        },
+      },
+      '/properties/{id}/publish': {
+        post: {
+          summary: 'Publish a draft',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id')],
+          responses: {
+            200: success('The published property', ref('Property')),
+            ...errors(400, 401, 403, 404, 409, 429, 500),
+          },
+        },
+      },
+      '/properties/{id}/restore': {
+        post: {
+          summary: 'Restore a property from the trash',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id')],
+          responses: {
+            200: success('The restored property', ref('Property')),
+            ...errors(400, 401, 403, 404, 429, 500),
+          },
+        },
+      },
+      '/properties/{id}/purge': {
+        delete: {
+          summary: 'Delete a property in the trash for good',
+          description: 'Its images are removed from storage too.',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id')],
+          responses: {
+            200: success('The property was deleted', deleted),
+            ...errors(400, 401, 403, 404, 429, 500),
+          },
+        },
+      },
+      '/properties/{id}/history': {
+        get: {
+          summary: 'List the revisions of a property',
+          description: 'Newest first.',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id'), ...toQueryParameters(historyQuerySchema)],
+          responses: {
+            200: paginated('A page of revisions', ref('PropertyRevision')),
+            ...errors(400, 401, 403, 404, 422, 500),
+          },
+        },
+      },
+      '/properties/{id}/revert': {
+        post: {
+          summary: 'Revert a property to a revision',
+          description: 'The fields go back to their values after the revision, images and status are kept.',
+          tags: ['Properties'],
+          parameters: [idParameter('Property id')],
+          requestBody: jsonBody(ref(revertSchema.name)),
+          responses: {
+            200: success('The reverted property', ref('Property')),
+            ...errors(400, 401, 403, 404, 409, 422, 429, 500),
+          },
+        },
+      },
+      '/properties/{id}/inquiries': {
+        post: {
+          summary: 'Send an inquiry about a listing',
+          description: 'Limited per IP address. The agent of the listing is notified.',
+          tags: ['Inquiries'],
+          parameters: [idParameter('Property id')],
+          requestBody: jsonBody(ref(inquirySchema.name)),
+          responses: {
+            201: success('The inquiry was sent', { type: 'object', properties: { _id: { type: 'string' } } }),
+            ...errors(400, 404, 422, 429, 500),
+          },
+          security: publicRead,
+        },
+      },
+      '/properties/{id}/slots': {
+        get: {
+          summary: 'List upcoming viewing slots',
+          description: 'The owner of the listing also sees the viewing booked in each slot.',
+          tags: ['Viewings'],
+          parameters: [idParameter('Property id')],
+          responses: {
+            200: success('Slots in order of their start', { type: 'array', items: ref('ViewingSlot') }),
+            ...errors(400, 401, 403, 404, 500),
+          },
+          security: publicRead,
+        },
+        post: {
+          summary: 'Offer a viewing slot',
+          tags: ['Viewings'],
+          parameters: [idParameter('Property id')],
+          requestBody: jsonBody(ref(viewingSlotSchema.name)),
+          responses: {
+            201: success('The slot', ref('ViewingSlot')),
+            ...errors(400, 401, 403, 404, 409, 422, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/properties/{id}/watch': {
+        get: {
+          summary: 'Whether you watch the price of a listing',
+          tags: ['Price Watches'],
+          parameters: [idParameter('Property id')],
+          responses: {
+            200: success('The watch status', ref('PriceWatchStatus')),
+            ...errors(400, 401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+        post: {
+          summary: 'Watch the price of a listing',
+          description: 'Price drops are sent as notifications. Only listings on the market can be watched.',
+          tags: ['Price Watches'],
+          parameters: [idParameter('Property id')],
+          responses: {
+            200: success('The watch status', ref('PriceWatchStatus')),
+            ...errors(400, 401, 403, 404, 500),
+          },
+          security: sessionOnly,
+        },
+        delete: {
+          summary: 'Stop watching the price of a listing',
+          tags: ['Price Watches'],
+          parameters: [idParameter('Property id')],
+          responses: {
+            200: success('The watch status', ref('PriceWatchStatus')),
+            ...errors(400, 401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/properties/{id}/images': {
+        post: {
+          summary: 'Upload images',
+          description: `Up to ${MAX_IMAGES_PER_REQUEST} images of at most `
+            + `${MAX_IMAGE_BYTES / 1024 / 1024}MB each per request.`,
+          tags: ['Images'],
+          parameters: [idParameter('Property id')],
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    images: {
+                      type: 'array',
+                      maxItems: MAX_IMAGES_PER_REQUEST,
+                      items: { type: 'string', format: 'binary' },
+                    },
+                  },
+                  required: ['images'],
+                },
+              },
+            },
+          },
+          responses: {
+            200: success('The uploaded images', {
+              type: 'object',
+              properties: { urls: { type: 'array', items: { type: 'string' } } },
+            }),
+            ...errors(400, 401, 403, 404, 413, 429, 500),
+          },
+        },
+      },
+      '/property-types': {
+        get: {
+          summary: 'List property types',
+          tags: ['Property Types'],
+          responses: {
+            200: success('Property types ordered by label', { type: 'array', items: ref('PropertyType') }),
+            ...errors(401, 403, 500),
+          },
+          security: publicRead,
+        },
+        post: {
+          summary: 'Create a property type',
+          tags: ['Property Types'],
+          requestBody: jsonBody(ref(propertyTypeSchema.name)),
+          responses: {
+            200: success('The created property type', ref('PropertyType')),
+            ...errors(400, 401, 403, 409, 500),
+          },
+        },
+      },
+      '/property-types/{id}': {
+        get: {
+          summary: 'Get a property type',
+          tags: ['Property Types'],
+          parameters: [idParameter('Property type id')],
+          responses: {
+            200: success('The property type', ref('PropertyType')),
+            ...errors(400, 401, 403, 404, 500),
+          },
+          security: publicRead,
+        },
+        patch: {
+          summary: 'Rename a property type or replace its attributes',
+          tags: ['Property Types'],
+          parameters: [idParameter('Property type id')],
+          requestBody: jsonBody(ref(updatePropertyTypeSchema.name)),
+          responses: {
+            200: success('The updated property type', ref('PropertyType')),
+            ...errors(400, 401, 403, 404, 409, 500),
+          },
+        },
+        delete: {
+          summary: 'Delete a property type',
+          description: 'Fails with `PROPERTY_TYPE_IN_USE` while listings use the type, unless `reassignTo` moves them.',
+          tags: ['Property Types'],
+          parameters: [
+            idParameter('Property type id'),
+            {
+              name: 'reassignTo',
+              in: 'query',
+              required: false,
+              description: 'Property type the listings of the deleted type move to. They keep only the attribute values it defines',
+              schema: { type: 'string', pattern: '^[a-f\\d]{24}$' },
+            },
+          ],
+          responses: {
+            200: success('The property type was deleted', {
+              type: 'object',
+              properties: { deleted: { type: 'boolean' }, reassigned: { type: 'integer' } },
+            }),
+            ...errors(400, 401, 403, 404, 409, 500),
+          },
+        },
+      },
+      '/seed': {
+        post: {
+          summary: 'Seed the default property types',
+          tags: ['Property Types'],
+          responses: {
+            200: done('The database was seeded'),
+            ...errors(401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/auth/signup': {
+        post: {
+          summary: 'Create an account',
+          description: 'Every new account is a viewer, admins promote users. Signs the new user in.',
+          tags: ['Auth'],
+          requestBody: jsonBody(ref(signupSchema.name)),
+          responses: {
+            201: success('The new user', ref('AuthUser')),
+            ...errors(400, 409, 429, 500),
+          },
+          security: anyone,
+        },
+      },
+      '/auth/login': {
+        post: {
+          summary: 'Sign in',
+          description: 'Sets the session cookie.',
+          tags: ['Auth'],
+          requestBody: jsonBody(ref(loginSchema.name)),
+          responses: {
+            200: success('The signed-in user', ref('AuthUser')),
+            ...errors(400, 401, 429, 500),
+          },
+          security: anyone,
+        },
+      },
+      '/auth/logout': {
+        post: {
+          summary: 'Sign out',
+          tags: ['Auth'],
+          responses: {
+            200: done('The session was ended'),
+            ...errors(500),
+          },
+          security: anyone,
+        },
+      },
+      '/auth/me': {
+        get: {
+          summary: 'Get the signed-in user',
+          tags: ['Auth'],
+          responses: {
+            200: success('The signed-in user', ref('AuthUser')),
+            ...errors(401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/api-keys': {
+        get: {
+          summary: 'List your API keys',
+          description: 'Keys are shown by their key id, the secret is never returned again.',
+          tags: ['API Keys'],
+          responses: {
+            200: success('Your keys, newest first', { type: 'array', items: ref('ApiKeyInfo') }),
+            ...errors(401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+        post: {
+          summary: 'Create an API key',
+          description: 'The full key is only returned in this response. Scopes the role of the creator lacks are refused.',
+          tags: ['API Keys'],
+          requestBody: jsonBody(ref(createApiKeySchema.name)),
+          responses: {
+            201: success('The key', ref('CreatedApiKey')),
+            ...errors(400, 401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/api-keys/{id}': {
+        delete: {
+          summary: 'Revoke an API key',
+          tags: ['API Keys'],
+          parameters: [idParameter('API key id')],
+          responses: {
+            200: success('The revoked key', ref('ApiKeyInfo')),
+            ...errors(400, 401, 403, 404, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/users': {
+        get: {
+          summary: 'List users',
+          tags: ['Users'],
+          parameters: toQueryParameters(userQuerySchema),
+          responses: {
+            200: paginated('A page of users, newest first', ref('AuthUser')),
+            ...errors(401, 403, 422, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/users/{id}': {
+        patch: {
+          summary: 'Change the role of a user',
+          description: 'Admins cannot change their own role.',
+          tags: ['Users'],
+          parameters: [idParameter('User id')],
+          requestBody: jsonBody(ref(updateUserRoleSchema.name)),
+          responses: {
+            200: success('The updated user', ref('AuthUser')),
+            ...errors(400, 401, 403, 404, 422, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/inquiries': {
+        get: {
+          summary: 'List inquiries',
+          description: 'Agents see the inquiries about their own listings, admins every inquiry.',
+          tags: ['Inquiries'],
+          parameters: toQueryParameters(inquiryQuerySchema),
+          responses: {
+            200: paginated('A page of inquiries, newest first', ref('Inquiry'), {
+              unread: { type: 'integer', description: 'New inquiries in the inbox, whatever the state filter' },
+            }),
+            ...errors(401, 403, 422, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/inquiries/{id}': {
+        patch: {
+          summary: 'Mark an inquiry read or replied',
+          tags: ['Inquiries'],
+          parameters: [idParameter('Inquiry id')],
+          requestBody: jsonBody(ref(updateInquirySchema.name)),
+          responses: {
+            200: success('The updated inquiry', ref('Inquiry')),
+            ...errors(400, 401, 403, 404, 422, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/viewings': {
+        get: {
+          summary: 'List your viewings',
+          description: 'Viewings you booked and viewings on your listings.',
+          tags: ['Viewings'],
+          parameters: toQueryParameters(viewingQuerySchema),
+          responses: {
+            200: success('Upcoming viewings soonest first, past ones latest first', { type: 'array', items: ref('Viewing') }),
+            ...errors(401, 403, 422, 500),
+          },
+          security: sessionOnly,
+        },
+        post: {
+          summary: 'Book a viewing',
+          description: 'Booked under the name and email of the signed-in user.',
+          tags: ['Viewings'],
+          requestBody: jsonBody(ref(bookViewingSchema.name)),
+          responses: {
+            201: success('The viewing', ref('Viewing')),
+            ...errors(400, 401, 403, 404, 409, 422, 429, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/viewings/{id}': {
+        delete: {
+          summary: 'Cancel a viewing',
+          tags: ['Viewings'],
+          parameters: [idParameter('Viewing id')],
+          responses: {
+            200: success('The cancelled viewing', ref('Viewing')),
+            ...errors(400, 401, 403, 404, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/viewings/{id}/ics': {
+        get: {
+          summary: 'Download a viewing as a calendar event',
+          tags: ['Viewings'],
+          parameters: [idParameter('Viewing id')],
+          responses: {
+            200: file('The iCalendar event', [ICS_CONTENT_TYPE]),
+            ...errors(400, 401, 403, 404, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/viewings/slots/{id}': {
+        delete: {
+          summary: 'Remove a viewing slot',
+          description: 'Fails with `SLOT_BOOKED` until the viewing booked in the slot is cancelled.',
+          tags: ['Viewings'],
+          parameters: [idParameter('Viewing slot id')],
+          responses: {
+            200: success('The slot was removed', deleted),
+            ...errors(400, 401, 403, 404, 409, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/viewings/calendar': {
+        get: {
+          summary: 'Get the link of your viewing calendar',
+          tags: ['Viewings'],
+          responses: {
+            200: success('The calendar link', ref('ViewingCalendar')),
+            ...errors(401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+        post: {
+          summary: 'Create a new link for your viewing calendar',
+          description: 'The previous link stops working.',
+          tags: ['Viewings'],
+          responses: {
+            200: success('The calendar link', ref('ViewingCalendar')),
+            ...errors(401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/viewings/calendar/{token}': {
+        get: {
+          summary: 'Viewing calendar feed',
+          description: 'The confirmed viewings on the listings of the link owner, for calendar apps to subscribe to. '
+            + 'The token comes from the calendar link, the `.ics` suffix is optional.',
+          tags: ['Viewings'],
+          parameters: [{ name: 'token', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            200: file('The iCalendar feed', [ICS_CONTENT_TYPE]),
+            ...errors(404, 500),
+          },
+          security: anyone,
+        },
+      },
+      '/saved-searches': {
+        get: {
+          summary: 'List your saved searches',
+          tags: ['Saved Searches'],
+          responses: {
+            200: success('Your saved searches', { type: 'array', items: ref('SavedSearch') }),
+            ...errors(401, 403, 500),
+          },
+          security: sessionOnly,
+        },
+        post: {
+          summary: 'Save a search',
+          description: `At most ${MAX_SAVED_SEARCHES} per user. New published listings it matches are sent in digests.`,
+          tags: ['Saved Searches'],
+          requestBody: jsonBody(ref(savedSearchSchema.name)),
+          responses: {
+            200: success('The saved search', ref('SavedSearch')),
+            ...errors(400, 401, 403, 422, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/saved-searches/{id}': {
+        delete: {
+          summary: 'Delete a saved search',
+          tags: ['Saved Searches'],
+          parameters: [idParameter('Saved search id')],
+          responses: {
+            200: success('The saved search was deleted', deleted),
+            ...errors(400, 401, 403, 404, 500),
+          },
+          security: sessionOnly,
+        },
+      },
+      '/saved-searches/run': {
+        post: {
+          summary: 'Send the saved search digests',
+          description: 'Called by a scheduler with the cron secret, or by an admin.',
+          tags: ['Saved Searches'],
+          responses: {
+            200: success('What the run checked and sent', ref('SavedSearchRunResult')),
+            ...errors(401, 403, 500),
+          },
+          security: [{ session: [] }, { cronSecret: [] }],
+        },
+      },
+    },
+    components: {
+      schemas: {
+        [createPropertySchema.name]: toJsonSchema(createPropertySchema),
+        [updatePropertySchema.name]: toJsonSchema(updatePropertySchema),
+        [statusChangeSchema.name]: toJsonSchema(statusChangeSchema),
+        [revertSchema.name]: toJsonSchema(revertSchema),
+        [inquirySchema.name]: toJsonSchema(inquirySchema),
+        [updateInquirySchema.name]: toJsonSchema(updateInquirySchema),
+        [viewingSlotSchema.name]: toJsonSchema(viewingSlotSchema),
+        [bookViewingSchema.name]: toJsonSchema(bookViewingSchema),
+        [savedSearchSchema.name]: toJsonSchema(savedSearchSchema),
+        [updateUserRoleSchema.name]: toJsonSchema(updateUserRoleSchema),
+        [loginSchema.name]: toJsonSchema(loginSchema),
+        [createApiKeySchema.name]: toJsonSchema(createApiKeySchema),
+        [signupSchema.name]: toJsonSchema(signupSchema),
+        GeoPoint: {
+          type: 'object',
+          description: 'GeoJSON Point',
+          properties: {
+            type: { type: 'string', enum: ['Point'] },
+            coordinates: {
+              type: 'array',
+              description: '[longitude, latitude]',
+              items: { type: 'number' },
+              minItems: 2,
+              maxItems: 2,
+            },
+          },
+          required: ['type', 'coordinates'],
+        },
+        PropertyAddress: {
+          type: 'object',
+          properties: Object.fromEntries(
+            ['street', 'city', 'state', 'postalCode', 'country'].map(key => [key, { type: 'string' }])
+          ),
+        },
+        Property: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            ...toJsonSchema(createPropertySchema).properties,
+            images: { type: 'array', items: { type: 'string' }, description: 'Image ids' },
+            status: { type: 'string', enum: propertyStatuses },
+            owner: { type: 'string', nullable: true },
+            priceHistory: {
+              type: 'array',
+              items: ref('PropertyPriceChange'),
+              description: 'Every price the listing had, oldest first. Only returned by `GET /properties/{id}`',
+            },
+            reducedFrom: { type: 'number', nullable: true, description: 'Price before the latest drop' },
+            reduced_at: { ...optionalDateTime, description: 'When the price last dropped' },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        PropertyPriceChange: {
+          type: 'object',
+          properties: {
+            price: { type: 'number' },
+            changed_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        PropertyAttributeDefinition: {
+          type: 'object',
+          properties: {
+            key: { type: 'string', pattern: ATTRIBUTE_KEY_PATTERN.source },
+            label: { type: 'string' },
+            type: { type: 'string', enum: attributeTypes },
+            unit: { type: 'string' },
+            required: { type: 'boolean' },
+            allowedValues: { type: 'array', items: { oneOf: [{ type: 'string' }, { type: 'number' }] } },
+          },
+          required: ['key', 'type'],
+        },
+        [propertyTypeSchema.name]: toJsonSchema(propertyTypeSchema),
+        [updatePropertyTypeSchema.name]: toJsonSchema(updatePropertyTypeSchema),
+        PropertyType: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            label: { type: 'string' },
+            attributes: { type: 'array', items: ref('PropertyAttributeDefinition') },
+          },
+        },
+        PropertyStats: {
+          type: 'object',
+          properties: {
+            total: { type: 'integer' },
+            byType: { type: 'object', additionalProperties: { type: 'integer' } },
+            averagePrice: { type: 'number' },
+            priceRange: {
+              type: 'object',
+              properties: { min: { type: 'number' }, max: { type: 'number' } },
+            },
+          },
+        },
+        PropertyRevision: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            property: { type: 'string' },
+            action: {
+              type: 'string',
+              enum: ['create', 'update', 'images', 'status', 'delete', 'restore', 'purge', 'revert'],
+            },
+            changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { field: { type: 'string' }, from: {}, to: {} },
+              },
+            },
+            actor: {
+              type: 'object',
+              nullable: true,
+              properties: { _id: { type: 'string' }, name: { type: 'string' } },
+            },
+            revertedTo: { type: 'string', description: 'Revision a revert went back to' },
+            created_at: dateTime,
+          },
+        },
+        AuthUser: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            email: { type: 'string' },
+            name: { type: 'string' },
+            role: { type: 'string', enum: userRoles },
+          },
+        },
+        ApiKeyInfo: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            name: { type: 'string' },
+            keyId: { type: 'string', description: 'Identifies the key, the secret is only returned on creation' },
+            scopes: { type: 'array', items: { type: 'string', enum: apiKeyScopes } },
+            lastUsedAt: optionalDateTime,
+            revoked_at: optionalDateTime,
+            created_at: dateTime,
+          },
+        },
+        CreatedApiKey: {
+          allOf: [
+            ref('ApiKeyInfo'),
+            { type: 'object', properties: { key: { type: 'string', description: 'Send as `Authorization: Bearer <key>`' } } },
+          ],
+        },
+        Inquiry: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            property: { type: 'string' },
+            name: { type: 'string' },
+            email: { type: 'string' },
+            phone: { type: 'string' },
+            message: { type: 'string' },
+            preferredContactTime: { type: 'string', enum: contactTimes },
+            read_at: optionalDateTime,
+            replied_at: optionalDateTime,
+            created_at: dateTime,
+          },
+        },
+        ViewingSlot: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            property: { type: 'string' },
+            start: dateTime,
+            end: dateTime,
+            booked: { type: 'boolean' },
+            viewing: {
+              allOf: [ref('Viewing')],
+              description: 'Only for the owner of the listing, when the slot is booked',
+            },
+          },
+        },
+        Viewing: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            slot: { type: 'string' },
+            property: { type: 'string' },
+            start: dateTime,
+            end: dateTime,
+            name: { type: 'string' },
+            email: { type: 'string' },
+            phone: { type: 'string' },
+            status: { type: 'string', enum: ['confirmed', 'cancelled'] },
+            isHost: { type: 'boolean', description: 'Whether the viewing is on one of your listings' },
+            cancelled_at: optionalDateTime,
+            created_at: dateTime,
+          },
+        },
+        ViewingCalendar: {
+          type: 'object',
+          properties: {
+            url: { type: 'string', nullable: true, description: 'iCalendar feed URL, null until created' },
+          },
+        },
+        SavedSearch: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            name: { type: 'string' },
+            params: toJsonSchema(savedSearchSchema).properties.params,
+            lastCheckedAt: dateTime,
+            lastNotifiedAt: optionalDateTime,
+            created_at: dateTime,
+          },
+        },
+        SavedSearchRunResult: {
+          type: 'object',
+          properties: Object.fromEntries(
+            ['checked', 'matched', 'notified', 'failed'].map(key => [key, { type: 'integer' }])
+          ),
+        },
+        ImportRowError: {
+          type: 'object',
+          description: 'Rows are numbered from 1, not counting the CSV header',
+          properties: {
+            row: { type: 'integer' },
+            errors: { type: 'object', additionalProperties: { type: 'string' } },
+          },
+        },
+        ImportPreview: {
+          type: 'object',
+          properties: {
+            total: { type: 'integer' },
+            valid: { type: 'integer' },
+            invalid: { type: 'integer' },
+            rowErrors: { type: 'array', items: ref('ImportRowError') },
+          },
+        },
+        ImportJob: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string' },
+            fileName: { type: 'string' },
+            format: { type: 'string', enum: ['csv', 'json'] },
+            status: { type: 'string', enum: ['running', 'completed', 'failed'] },
+            fetchImages: { type: 'boolean' },
+            publish: { type: 'boolean' },
+            total: { type: 'integer', description: 'Valid rows to import' },
+            processed: { type: 'integer' },
+            created: { type: 'integer' },
+            failed: { type: 'integer' },
+            imagesFetched: { type: 'integer' },
+            rowErrors: { type: 'array', items: ref('ImportRowError') },
+            imageErrors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { row: { type: 'integer' }, url: { type: 'string' }, error: { type: 'string' } },
+              },
+            },
+            error: { type: 'string', nullable: true },
+            created_at: dateTime,
+            finished_at: optionalDateTime,
+          },
+        },
+        PriceWatchStatus: {
+          type: 'object',
+          properties: { watching: { type: 'boolean' } },
+        },
+        Pagination: {
+          type: 'object',
+          properties: {
+            page: { type: 'integer' },
+            limit: { type: 'integer' },
+            total: { type: 'integer' },
+            totalPages: { type: 'integer' },
+          },
+        },
+        ErrorCode: {
+          type: 'string',
+          enum: Object.keys(errorCatalog),
+          description: Object.entries(errorCatalog)
+            .map(([code, { status, message }]) => `- \`${code}\` (${status}): ${message}`)
+            .join('\n'),
+        },
+        ApiResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {},
+            message: { type: 'string' },
+            error: { type: 'string', description: 'Human readable, match on `code` instead' },
+            code: ref('ErrorCode'),
+            errors: {
+              type: 'object',
+              description: 'Per-field messages of a VALIDATION_FAILED response',
+              additionalProperties: { type: 'string' },
+            },
+          },
+          required: ['success'],
+        },
+        PaginatedResponse: {
+          allOf: [
+            ref('ApiResponse'),
+            {
+              type: 'object',
+              properties: {
+                data: { type: 'array', items: ref('Property') },
+                pagination: ref('Pagination'),
+                nextCursor: { type: 'string', nullable: true, description: 'Only set in cursor mode' },
+                prevCursor: { type: 'string', nullable: true, description: 'Only set in cursor mode' },
+                facets: {
+                  type: 'object',
+                  description: 'Only set with facets=true',
+                  properties: {
+                    types: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: { _id: { type: 'string' }, label: { type: 'string' }, count: { type: 'integer' } },
+                      },
+                    },
+                    price: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          min: { type: 'number' },
+                          max: { type: 'number', nullable: true },
+                          count: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+              required: ['pagination'],
+            },
+          ],
+        },
+      },
+      responses: {
+        Error: {
+          description: 'The request failed, see `code`',
+          content: { 'application/json': { schema: ref('ApiResponse') } },
+        },
+      },
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE },
+        apiKey: { type: 'http', scheme: 'bearer', description: 'API key created under /api-keys' },
+        cronSecret: { type: 'http', scheme: 'bearer', description: 'The CRON_SECRET of the deployment' },
+      },
+    },
+  };
+}
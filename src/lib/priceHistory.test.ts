@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { applyPriceChange, recentlyReducedSince, reductionPercent } from '@/lib/priceHistory';
+import { PropertyPriceChange } from '@/types';
+
+const created = new Date('2024-01-01T00:00:00.000Z');
+const day = (n: number) => new Date(created.getTime() + n * 24 * 60 * 60 * 1000);
+
+function listing(price: number, priceHistory: PropertyPriceChange[] = [{ price, changed_at: created }]) {
+  return { price, priceHistory, reduced_at: null as Date | null, reducedFrom: null as number | null, created_at: created };
+}
+
+describe('reductionPercent', () => {
+  it('rounds to whole percent', () => {
+    expect(reductionPercent(300, 200)).toBe(33);
+    expect(reductionPercent(0, 100)).toBe(0);
+  });
+});
+
+describe('recentlyReducedSince', () => {
+  it('goes back 30 days', () => {
+    expect(recentlyReducedSince(day(40))).toEqual(day(10));
+  });
+});
+
+describe('applyPriceChange', () => {
+  it('ignores unchanged prices', () => {
+    const property = listing(100);
+    expect(applyPriceChange(property, 100, day(1))).toBeNull();
+    expect(property.priceHistory).toHaveLength(1);
+  });
+
+  it('records a drop and marks the listing as reduced', () => {
+    const property = listing(200);
+    expect(applyPriceChange(property, 150, day(1))).toEqual({ from: 200, to: 150, percent: 25, changed_at: day(1) });
+    expect(property).toMatchObject({ price: 150, reducedFrom: 200, reduced_at: day(1) });
+    expect(property.priceHistory).toEqual([
+      { price: 200, changed_at: created },
+      { price: 150, changed_at: day(1) }
+    ]);
+  });
+
+  it('keeps counting successive drops from the price before the first one', () => {
+    const property = listing(200);
+    applyPriceChange(property, 150, day(1));
+    expect(applyPriceChange(property, 120, day(2))?.from).toBe(150);
+    expect(property).toMatchObject({ reducedFrom: 200, reduced_at: day(2) });
+  });
+
+  it('clears the mark once the price is back up', () => {
+    const property = listing(200);
+    applyPriceChange(property, 150, day(1));
+    expect(applyPriceChange(property, 180, day(2))).toBeNull();
+    expect(property.reducedFrom).toBe(200);
+    applyPriceChange(property, 200, day(3));
+    expect(property).toMatchObject({ reducedFrom: null, reduced_at: null });
+  });
+
+  it('starts the history of older listings at their creation', () => {
+    const property = listing(200, []);
+    applyPriceChange(property, 250, day(5));
+    expect(property.priceHistory).toEqual([
+      { price: 200, changed_at: created },
+      { price: 250, changed_at: day(5) }
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { PropertyPriceChange } from '@/types';
+
+// Listings count as recently reduced for this long after a price drop
+export const RECENTLY_REDUCED_DAYS = 30;
+
+// The parts of a listing a price change touches
+interface PricedListing {
+  price: number;
+  priceHistory: PropertyPriceChange[];
+  reduced_at: Date | null;
+  reducedFrom: number | null;
+  created_at: Date;
+}
+
+export interface PriceDrop {
+  from: number;
+  to: number;
+  percent: number;
+  changed_at: Date;
+}
+
+/**
+ * How much cheaper `to` is than `from`, in whole percent
+ */
+export function reductionPercent(from: number, to: number): number {
+  return from > 0 ? Math.round(((from - to) / from) * 100) : 0;
+}
+
+/**
+ * Start of the window in which a price drop counts as recent
+ */
+export function recentlyReducedSince(now: Date = new Date()): Date {
+  return new Date(now.getTime() - RECENTLY_REDUCED_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Set a new price and record it in the listing's price history. A drop marks
+ * the listing as reduced from the price before it; successive drops keep
+ * counting from the price before the first one, and the mark is cleared once
+ * the price is back up. Returns the drop, if the price went down.
+ */
+export function applyPriceChange(
+  property: PricedListing,
+  price: number,
+  at: Date = new Date()
+): PriceDrop | null {
+  const previous = property.price;
+  if (previous === price) return null;
+
+  // Listings stored before the history existed start it with the price they
+  // had, dated at their creation
+  if (property.priceHistory.length === 0) {
+    property.priceHistory.push({ price: previous, changed_at: property.created_at });
+  }
+  property.priceHistory.push({ price, changed_at: at });
+  property.price = price;
+
+  if (price < previous) {
+    if (property.reducedFrom === null || property.reducedFrom < previous) {
+      property.reducedFrom = previous;
+    }
+    property.reduced_at = at;
+    return { from: previous, to: price, percent: reductionPercent(previous, price), changed_at: at };
+  }
+
+  if (property.reducedFrom !== null && price >= property.reducedFrom) {
+    property.reducedFrom = null;
+    property.reduced_at = null;
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+import { getNotifier } from '@/lib/notifier';
+import type { PriceDropEvent } from '@/lib/propertyEvents';
+import { PriceWatch } from '@/models/PriceWatch';
+import { IUser, User } from '@/models/User';
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0
+  }).format(price);
+}
+
+/**
+ * Tell everyone watching a listing that its price dropped, one notification
+ * per watcher. Failed deliveries are logged and not retried.
+ */
+export async function notifyPriceWatchers(event: PriceDropEvent): Promise<void> {
+  const notifier = getNotifier();
+  const cursor = PriceWatch.find({ property: event.propertyId }).populate<{ user: IUser | null }>({
+    path: 'user',
+    model: User
+  }).cursor();
+
+  for await (const watch of cursor) {
+    const { user } = watch;
+    // Watches of deleted users are skipped over
+    if (!user) continue;
+
+    try {
+      await notifier.send({
+        to: { email: user.email, name: user.name },
+        subject: `Price drop: "${event.title}" is now ${formatPrice(event.to)}`,
+        text: `Hi ${user.name},\n\n${event.title} dropped ${event.percent}% `
+          + `from ${formatPrice(event.from)} to ${formatPrice(event.to)}.\n\n${event.url}\n`,
+        kind: 'priceDrop',
+        data: { propertyId: event.propertyId, from: event.from, to: event.to, percent: event.percent }
+      });
+    } catch (error) {
+      console.error(`Error sending price drop to user ${user._id}:`, error);
+    }
+  }
+}
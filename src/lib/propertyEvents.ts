@@ -0,0 +1,77 @@
+import { PriceDrop } from '@/lib/priceHistory';
+import { notifyPriceWatchers } from '@/lib/priceWatches';
+
+export interface PriceDropEvent {
+  propertyId: string;
+  title: string;
+  url: string;
+  from: number;
+  to: number;
+  percent: number;
+  changed_at: Date;
+}
+
+/**
+ * The event for a listing's price drop, `origin` is the app's base URL
+ */
+export function priceDropEvent(
+  property: { _id: unknown; title: string },
+  drop: PriceDrop,
+  origin: string
+): PriceDropEvent {
+  return {
+    propertyId: String(property._id),
+    title: property.title,
+    url: `${origin}/${property._id}`,
+    ...drop
+  };
+}
+
+export interface PropertyEvents {
+  'price.dropped': PriceDropEvent;
+}
+
+export type PropertyEventName = keyof PropertyEvents;
+
+export type PropertyEventListener<E extends PropertyEventName> =
+  (event: PropertyEvents[E]) => Promise<void> | void;
+
+type ListenerMap = { [E in PropertyEventName]: PropertyEventListener<E>[] };
+
+let listeners: ListenerMap | null = null;
+
+// Watchers of a listing are told about its price drops by default
+function getListeners(): ListenerMap {
+  if (!listeners) {
+    listeners = { 'price.dropped': [notifyPriceWatchers] };
+  }
+  return listeners;
+}
+
+/**
+ * Listen to an event, e.g. to forward price drops to a webhook.
+ * Returns a function that removes the listener again.
+ */
+export function subscribe<E extends PropertyEventName>(name: E, listener: PropertyEventListener<E>): () => void {
+  const list = getListeners()[name];
+  list.push(listener);
+  return () => {
+    const index = list.indexOf(listener);
+    if (index !== -1) list.splice(index, 1);
+  };
+}
+
+/**
+ * Run every listener of an event. A failing listener is logged and does not
+ * keep the others from running.
+ */
+export async function publish<E extends PropertyEventName>(name: E, event: PropertyEvents[E]): Promise<void> {
+  const results = await Promise.allSettled(
+    [...getListeners()[name]].map(async listener => listener(event))
+  );
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error(`Error handling ${name} event:`, result.reason);
+    }
+  }
+}
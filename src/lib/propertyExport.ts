@@ -0,0 +1,175 @@
+import { IPropertyType } from '@/models/PropertyType';
+import { CellValue, writeXlsx } from '@/lib/xlsx';
+import { ExportFormat, PropertyAddress, PropertyAttributes } from '@/types';
+
+export const exportFormats = ['csv', 'ndjson', 'xlsx'] as const satisfies readonly ExportFormat[];
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const addressFields: (keyof PropertyAddress)[] = ['street', 'city', 'state', 'postalCode', 'country'];
+
+const encoder = new TextEncoder();
+
+// Fields of a listing read from the cursor
+export interface ExportSource {
+  _id: unknown;
+  title: string;
+  type: unknown;
+  price: number;
+  description: string;
+  images?: string[];
+  location?: { coordinates: number[] };
+  address?: PropertyAddress;
+  attributes?: PropertyAttributes;
+  status?: string;
+  created_at: Date;
+}
+
+export interface ExportRecord {
+  id: string;
+  title: string;
+  type: string;
+  status: string;
+  price: number;
+  description: string;
+  latitude: number | null;
+  longitude: number | null;
+  address: PropertyAddress;
+  attributes: PropertyAttributes;
+  images: string[];
+  created_at: string;
+}
+
+/**
+ * Flat column names for CSV and XLSX. They match the import columns, so an
+ * export can be edited and imported again. Attribute columns cover every
+ * attribute defined by the given types.
+ */
+export function buildExportColumns(propertyTypes: IPropertyType[]): string[] {
+  const attributeKeys = new Set<string>();
+  for (const propertyType of propertyTypes) {
+    for (const attribute of propertyType.attributes) {
+      attributeKeys.add(attribute.key);
+    }
+  }
+
+  return [
+    'id',
+    'title',
+    'type',
+    'status',
+    'price',
+    'description',
+    'latitude',
+    'longitude',
+    ...addressFields.map(field => `address.${field}`),
+    ...[...attributeKeys].map(key => `attributes.${key}`),
+    'images',
+    'created_at'
+  ];
+}
+
+/**
+ * Export record of a listing, with the type label resolved
+ */
+export function toExportRecord(property: ExportSource, typeLabels: Map<string, string>): ExportRecord {
+  const [longitude, latitude] = property.location?.coordinates || [];
+
+  return {
+    id: String(property._id),
+    title: property.title,
+    type: typeLabels.get(String(property.type)) || '',
+    // Listings stored before statuses existed count as published
+    status: property.status || 'published',
+    price: property.price,
+    description: property.description,
+    latitude: latitude ?? null,
+    longitude: longitude ?? null,
+    address: property.address || {},
+    attributes: property.attributes || {},
+    images: property.images || [],
+    created_at: property.created_at.toISOString()
+  };
+}
+
+// Values of a record in the order of the flat columns
+function toCells(record: ExportRecord, columns: string[]): CellValue[] {
+  return columns.map(column => {
+    if (column.startsWith('address.')) {
+      return record.address[column.slice('address.'.length) as keyof PropertyAddress];
+    }
+    if (column.startsWith('attributes.')) {
+      return record.attributes[column.slice('attributes.'.length)];
+    }
+    if (column === 'images') {
+      return record.images.join(' | ');
+    }
+    return record[column as keyof ExportRecord] as CellValue;
+  });
+}
+
+// CSV field, text that spreadsheets would run as a formula is prefixed with a quote
+function escapeCsv(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* writeCsv(columns: string[], rows: AsyncIterable<CellValue[]>): AsyncGenerator<Uint8Array> {
+  // The byte order mark makes Excel read the file as UTF-8
+  yield encoder.encode(`\uFEFF${columns.map(escapeCsv).join(',')}\r\n`);
+  for await (const row of rows) {
+    yield encoder.encode(`${row.map(escapeCsv).join(',')}\r\n`);
+  }
+}
+
+async function* writeNdjson(records: AsyncIterable<ExportRecord>): AsyncGenerator<Uint8Array> {
+  for await (const record of records) {
+    yield encoder.encode(`${JSON.stringify(record)}\n`);
+  }
+}
+
+async function* cellsOf(records: AsyncIterable<ExportRecord>, columns: string[]): AsyncGenerator<CellValue[]> {
+  for await (const record of records) {
+    yield toCells(record, columns);
+  }
+}
+
+/**
+ * Stream export records in the given format. Records are pulled one at a
+ * time as the client reads, and cancelling the response stops the source
+ * (closing its database cursor).
+ */
+export function createExportStream(
+  format: ExportFormat,
+  records: AsyncIterable<ExportRecord>,
+  columns: string[]
+): ReadableStream<Uint8Array> {
+  const chunks = format === 'ndjson'
+    ? writeNdjson(records)
+    : format === 'xlsx'
+      ? writeXlsx(columns, cellsOf(records, columns), 'Properties')
+      : writeCsv(columns, cellsOf(records, columns));
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
@@ -0,0 +1,77 @@
+import { PipelineStage } from 'mongoose';
+import { Property } from '@/models/Property';
+import { PropertyType } from '@/models/PropertyType';
+import { PropertyFilter } from '@/lib/propertyQuery';
+import { PropertyFacets } from '@/types';
+
+interface FacetAggregation {
+  types: { _id: unknown; label: string | null; count: number }[];
+  price: { _id: number; count: number }[];
+}
+
+/**
+ * Count the listings matching `query` per property type and per price band
+ * in a single `$facet` aggregation.
+ *
+ * Each facet ignores its own filter so the counts show what selecting another
+ * type or price band would return, while still honoring every other filter.
+ */
+export async function computePropertyFacets(
+  query: PropertyFilter,
+  boundaries: number[]
+): Promise<PropertyFacets> {
+  const { type, price, ...baseQuery } = query;
+
+  // Open-ended last bucket, prices are never negative so 0 covers the low end
+  const bucketBoundaries = [...boundaries, Number.MAX_SAFE_INTEGER];
+
+  const pipeline: PipelineStage[] = [
+    { $match: baseQuery },
+    {
+      $facet: {
+        types: [
+          ...(price ? [{ $match: { price } }] : []),
+          { $group: { _id: '$type', count: { $sum: 1 } } },
+          {
+            $lookup: {
+              from: PropertyType.collection.name,
+              localField: '_id',
+              foreignField: '_id',
+              as: 'propertyType'
+            }
+          },
+          { $project: { count: 1, label: { $first: '$propertyType.label' } } },
+          { $sort: { count: -1 } }
+        ],
+        price: [
+          ...(type ? [{ $match: { type } }] : []),
+          {
+            $bucket: {
+              groupBy: '$price',
+              boundaries: bucketBoundaries,
+              output: { count: { $sum: 1 } }
+            }
+          }
+        ]
+      }
+    }
+  ];
+
+  const [result] = await Property.aggregate<FacetAggregation>(pipeline);
+
+  // $bucket omits empty buckets, fill them in so the histogram has a fixed shape
+  const priceCounts = new Map((result?.price || []).map(bucket => [bucket._id, bucket.count]));
+
+  return {
+    types: (result?.types || []).map(({ _id, label, count }) => ({
+      _id: String(_id),
+      label: label || 'Unknown',
+      count
+    })),
+    price: boundaries.map((min, index) => ({
+      min,
+      max: index < boundaries.length - 1 ? boundaries[index + 1] : null,
+      count: priceCounts.get(min) || 0
+    }))
+  };
+}
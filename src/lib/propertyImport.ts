@@ -0,0 +1,384 @@
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { IProperty, Property } from '@/models/Property';
+import { PropertyType, IPropertyType } from '@/models/PropertyType';
+import { IImportJob, ImportJob } from '@/models/ImportJob';
+import { IUser } from '@/models/User';
+import { FieldErrors, validate } from '@/lib/schema';
+import { PropertyFields, createPropertySchema } from '@/lib/propertySchemas';
+import { parsePropertyAttributes } from '@/lib/propertyValidation';
+import { attributeErrors } from '@/lib/apiResponses';
+import { MAX_IMAGE_BYTES, MAX_IMAGES_PER_REQUEST } from '@/lib/imageLimits';
+import { uploadImage } from '@/lib/r2';
+import { fetchPublicUrl } from '@/lib/publicFetch';
+import { diffSnapshots, recordRevision, snapshotProperty } from '@/lib/revisions';
+import { ImportFormat, ImportImageError, ImportRowError, PropertyStatusChange } from '@/types';
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+// The whole multipart body: the file plus its part headers and the form flags
+export const MAX_IMPORT_REQUEST_BYTES = MAX_IMPORT_BYTES + 64 * 1024;
+export const MAX_IMPORT_ROWS = 2000;
+
+const BATCH_SIZE = 100;
+const IMAGE_FETCH_TIMEOUT_MS = 15000;
+const IMAGE_FETCH_CONCURRENCY = 4;
+
+type ImportRecord = Record<string, unknown>;
+
+export interface PreparedRow {
+  row: number;
+  data?: PropertyFields & { imageUrls: string[] };
+  errors?: FieldErrors;
+}
+
+/**
+ * Import format from the file name, falling back to sniffing the content
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with commas,
+ * doubled quotes and line breaks, CRLF line endings and a UTF-8 BOM.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are not rows
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Parse an import file into one record per listing. CSV files need a header
+ * row, JSON files hold an array of objects (or `{ "properties": [...] }`).
+ */
+export function parseImportFile(text: string, format: ImportFormat): { records?: ImportRecord[]; error?: string } {
+  let records: ImportRecord[];
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { error: 'The file is not valid JSON' };
+    }
+
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { properties?: unknown })?.properties;
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+      return { error: 'The JSON file must hold an array of listing objects' };
+    }
+    records = list as ImportRecord[];
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+      return { error: 'The CSV file is empty' };
+    }
+
+    const columns = header.map(column => column.trim());
+    records = rows.map(cells => Object.fromEntries(
+      columns.map((column, index) => [column, cells[index]?.trim() ?? ''])
+    ));
+  }
+
+  if (records.length === 0) {
+    return { error: 'The file has no listings' };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { error: `At most ${MAX_IMPORT_ROWS} listings can be imported at once` };
+  }
+
+  return { records };
+}
+
+// Nested object from either an object value or flat `prefix.<key>` columns
+function collectNested(record: ImportRecord, prefix: string): Record<string, unknown> | undefined {
+  const value = record[prefix];
+  if (typeof value === 'object' && value !== null) {
+    return value as Record<string, unknown>;
+  }
+
+  const nested: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(record)) {
+    if (key.startsWith(`${prefix}.`) && entry !== '' && entry !== null && entry !== undefined) {
+      nested[key.slice(prefix.length + 1)] = entry;
+    }
+  }
+  return Object.keys(nested).length > 0 ? nested : undefined;
+}
+
+function collectImageUrls(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string') return [];
+  return value.split(/[\s|]+/).filter(Boolean);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate import records with the same schema as `POST /api/properties`.
+ * Type labels are matched case-insensitively (ids work too) and attribute
+ * values are checked against the matched type.
+ */
+export async function prepareImportRows(records: ImportRecord[]): Promise<PreparedRow[]> {
+  const propertyTypes: IPropertyType[] = await PropertyType.find();
+  const typesByKey = new Map<string, IPropertyType>();
+  for (const propertyType of propertyTypes) {
+    typesByKey.set(propertyType.label.toLowerCase(), propertyType);
+    typesByKey.set(String(propertyType._id), propertyType);
+  }
+
+  return records.map((record, index) => {
+    const row = index + 1;
+    const errors: FieldErrors = {};
+
+    const typeValue = String(record.type ?? '').trim();
+    const propertyType = typesByKey.get(typeValue.toLowerCase()) || typesByKey.get(typeValue);
+    if (typeValue && !propertyType) {
+      errors.type = `Unknown property type "${typeValue}"`;
+    }
+
+    // Coordinates come as a GeoJSON location or latitude/longitude columns
+    let location = record.location;
+    if (location === undefined && [record.latitude, record.longitude].some(value => value !== undefined && value !== '')) {
+      location = {
+        type: 'Point',
+        coordinates: [Number(record.longitude), Number(record.latitude)]
+      };
+    }
+
+    const { data, errors: fieldErrors } = validate(createPropertySchema, {
+      title: record.title,
+      type: propertyType ? String(propertyType._id) : typeValue,
+      price: record.price,
+      description: record.description,
+      location,
+      address: collectNested(record, 'address'),
+      attributes: collectNested(record, 'attributes'),
+    });
+    // The unknown type message is more helpful than the schema's invalid id one
+    Object.assign(errors, { ...fieldErrors, ...errors });
+
+    const imageUrls = collectImageUrls(record.images);
+    if (imageUrls.length > MAX_IMAGES_PER_REQUEST) {
+      errors.images = `At most ${MAX_IMAGES_PER_REQUEST} images per listing`;
+    } else if (imageUrls.some(url => !isHttpUrl(url))) {
+      errors.images = 'Images must be http(s) URLs';
+    }
+
+    if (!data || !propertyType || Object.keys(errors).length > 0) {
+      return { row, errors };
+    }
+
+    const { attributes, errors: attributesErrors } = parsePropertyAttributes(
+      propertyType.attributes,
+      data.attributes
+    );
+    if (attributesErrors) {
+      return { row, errors: attributeErrors(attributesErrors) };
+    }
+
+    return { row, data: { ...data, attributes: attributes || {}, imageUrls } };
+  });
+}
+
+/**
+ * Download an image from a public address and store it under the listing's
+ * key prefix
+ */
+async function fetchImageToStorage(url: string, propertyId: string): Promise<string> {
+  const { contentType, body } = await fetchPublicUrl(url, {
+    maxBytes: MAX_IMAGE_BYTES,
+    timeoutMs: IMAGE_FETCH_TIMEOUT_MS,
+    accept: 'image/'
+  });
+
+  return uploadImage(new Blob([body], { type: contentType }), propertyId, uuidv4());
+}
+
+// Run `task` over `items` with at most `concurrency` running at once, results
+// keep the order of `items`
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+// Why a row of an unordered insert was not saved
+function insertFailureMessage(result: unknown): string {
+  if (result instanceof mongoose.Error.ValidationError) {
+    return Object.values(result.errors).map(error => error.message).join(', ');
+  }
+  if ((result as { code?: unknown })?.code === 11000) {
+    return 'A listing with the same unique values already exists';
+  }
+  return 'The listing could not be saved';
+}
+
+/**
+ * Create the listings of an import job in batches, reporting progress on the
+ * job after each batch. Listings are owned by the user who started the import.
+ * With `fetchImages` the image URLs are copied into storage, otherwise they
+ * are linked as they are.
+ */
+export async function runImportJob(job: IImportJob, rows: PreparedRow[], user: IUser): Promise<void> {
+  try {
+    for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+      const batch = rows.slice(start, start + BATCH_SIZE);
+      const imageErrors: ImportImageError[] = [];
+      let imagesFetched = 0;
+
+      // Rows download their images one after another, a few rows at a time
+      const documents = await mapWithConcurrency(batch, IMAGE_FETCH_CONCURRENCY, async ({ row, data }) => {
+        const { imageUrls, ...fields } = data!;
+        const _id = new mongoose.Types.ObjectId();
+        const now = new Date();
+
+        let images = imageUrls;
+        if (job.fetchImages) {
+          images = [];
+          for (const url of imageUrls) {
+            try {
+              images.push(await fetchImageToStorage(url, _id.toString()));
+              imagesFetched++;
+            } catch (error) {
+              imageErrors.push({ row, url, error: error instanceof Error ? error.message : 'Download failed' });
+            }
+          }
+        }
+
+        const statusHistory: PropertyStatusChange[] = [{ from: null, to: 'draft', changed_at: now }];
+        if (job.publish) {
+          statusHistory.push({ from: 'draft', to: 'published', changed_at: now });
+        }
+
+        return {
+          _id,
+          ...fields,
+          images,
+          status: job.publish ? 'published' : 'draft',
+          statusHistory,
+          priceHistory: [{ price: fields.price, changed_at: now }],
+          owner: user._id
+        };
+      });
+
+      // Unordered, so one bad row does not keep the rest of the batch out
+      let properties: IProperty[] = [];
+      const rowErrors: ImportRowError[] = [];
+      try {
+        properties = await Property.insertMany(documents, { ordered: false, throwOnValidationError: true });
+      } catch (error) {
+        // Results line up with the batch: saved documents, or why a row failed
+        const results = (error as { results?: unknown[] }).results;
+        if (!results) {
+          console.error('Error saving import batch:', error);
+        }
+
+        batch.forEach(({ row }, index) => {
+          const result = results?.[index];
+          if (result instanceof Property) {
+            properties.push(result as IProperty);
+          } else {
+            rowErrors.push({ row, errors: { _: insertFailureMessage(result) } });
+          }
+        });
+      }
+      const created = properties.length;
+
+      await Promise.all(properties.map(property => recordRevision({
+        property,
+        action: 'create',
+        changes: diffSnapshots({}, snapshotProperty(property)),
+        actor: user
+      })));
+
+      await ImportJob.updateOne({ _id: job._id }, {
+        $inc: {
+          processed: batch.length,
+          created,
+          failed: batch.length - created,
+          imagesFetched
+        },
+        $push: {
+          rowErrors: { $each: rowErrors },
+          imageErrors: { $each: imageErrors }
+        }
+      });
+    }
+
+    await ImportJob.updateOne({ _id: job._id }, { status: 'completed', finished_at: new Date() });
+  } catch (error) {
+    console.error('Error running import job:', error);
+    await ImportJob.updateOne({ _id: job._id }, {
+      status: 'failed',
+      error: 'The import stopped unexpectedly',
+      finished_at: new Date()
+    });
+  }
+}
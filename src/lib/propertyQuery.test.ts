@@ -0,0 +1,94 @@
+import mongoose from 'mongoose';
+import { describe, expect, it } from 'vitest';
+import { buildCursorFilter, buildPropertyFilter, decodeCursor, encodeCursor } from '@/lib/propertyQuery';
+
+const filter = (params: string) => buildPropertyFilter(new URLSearchParams(params));
+
+// Cursor payloads as a client could forge them, without a valid signature
+const forge = (payload: Record<string, unknown>) => `${Buffer.from(JSON.stringify(payload)).toString('base64url')}.x`;
+
+describe('buildPropertyFilter', () => {
+  it('only lists published listings by default', () => {
+    expect(filter('').query).toEqual({ status: { $in: ['published', null] } });
+    expect(filter('status=all').query).toEqual({});
+    expect(filter('status=draft,sold').query).toEqual({ status: { $in: ['draft', 'sold'] } });
+  });
+
+  it('filters by type, price range and search', () => {
+    const { query } = filter('type=64b7f0c2a1e4c3b2a1d0e9f8&minPrice=100&maxPrice=200&search=sea%20view&status=all');
+    expect(query).toEqual({
+      type: new mongoose.Types.ObjectId('64b7f0c2a1e4c3b2a1d0e9f8'),
+      price: { $gte: 100, $lte: 200 },
+      $text: { $search: 'sea view' }
+    });
+  });
+
+  it('builds numeric attribute ranges', () => {
+    expect(filter('attributes.rooms.min=2&attributes.rooms.max=4&status=all').query).toEqual({
+      'attributes.rooms': { $gte: 2, $lte: 4 }
+    });
+  });
+
+  it('reports invalid parameters', () => {
+    expect(filter('attributes.rooms.min=two').errors).toEqual({
+      'attributes.rooms.min': 'attributes.rooms.min must be a number'
+    });
+    expect(filter('minPrice=300&maxPrice=200').errors).toEqual({ maxPrice: 'Max price must be at least min price' });
+    expect(filter('radius=100').errors).toEqual({ radius: 'Radius requires near' });
+  });
+
+  it('returns near points separately and limits them by radius', () => {
+    const { query, near } = filter('near=13.4,52.5&radius=1000&status=all');
+    expect(near).toEqual({ coordinates: [13.4, 52.5], radius: 1000 });
+    expect(query.location.$geoWithin.$centerSphere[0]).toEqual([13.4, 52.5]);
+  });
+});
+
+describe('property cursors', () => {
+  const doc = { _id: new mongoose.Types.ObjectId('64b7f0c2a1e4c3b2a1d0e9f8'), price: 250000, title: 'Loft', created_at: new Date('2024-05-01T10:00:00.000Z') };
+  const query = { status: { $in: ['published', null] } };
+
+  it('round-trips the sort value, page and total', () => {
+    const raw = encodeCursor(doc, 'created_at', 'desc', 'next', 2, 57, query);
+    expect(decodeCursor(raw, 'created_at', 'desc', query)).toEqual({
+      sortBy: 'created_at',
+      sortOrder: 'desc',
+      direction: 'next',
+      value: doc.created_at,
+      id: doc._id,
+      page: 2,
+      total: 57
+    });
+  });
+
+  it('rejects cursors issued for another sort', () => {
+    const raw = encodeCursor(doc, 'price', 'asc', 'next', 2, 57, query);
+    expect(decodeCursor(raw, 'price', 'desc', query)).toBeNull();
+    expect(decodeCursor(raw, 'title', 'asc', query)).toBeNull();
+    expect(decodeCursor('not a cursor', 'price', 'asc', query)).toBeNull();
+  });
+
+  it('drops the total when the signature does not match the query', () => {
+    const raw = encodeCursor(doc, 'price', 'asc', 'next', 2, 57, query);
+    expect(decodeCursor(raw, 'price', 'asc', { status: { $in: ['draft'] } })?.total).toBeNull();
+
+    const forged = forge({ s: 'price', o: 'asc', d: 'next', v: 1, id: String(doc._id), p: 3, n: 1 });
+    expect(decodeCursor(forged, 'price', 'asc', query)).toMatchObject({ page: 3, total: null });
+  });
+
+  it('rejects sort values of the wrong type', () => {
+    const base = { o: 'asc', d: 'next', id: String(doc._id), p: 2 };
+    expect(decodeCursor(forge({ ...base, s: 'price', v: { $ne: null } }), 'price', 'asc', query)).toBeNull();
+    expect(decodeCursor(forge({ ...base, s: 'title', v: 5 }), 'title', 'asc', query)).toBeNull();
+    expect(decodeCursor(forge({ ...base, s: 'created_at', v: '2024-05-01' }), 'created_at', 'asc', query)).toBeNull();
+    expect(decodeCursor(forge({ ...base, s: 'price', v: 1, id: { $gt: '' } }), 'price', 'asc', query)).toBeNull();
+  });
+
+  it('selects the rows after the cursor with the id as tie-breaker', () => {
+    const cursor = decodeCursor(encodeCursor(doc, 'price', 'desc', 'next', 2, 57, query), 'price', 'desc', query)!;
+    expect(buildCursorFilter(cursor)).toEqual({
+      $or: [{ price: { $lt: 250000 } }, { price: 250000, _id: { $lt: doc._id } }]
+    });
+    expect(buildCursorFilter({ ...cursor, direction: 'prev' }).$or[0]).toEqual({ price: { $gt: 250000 } });
+  });
+});
@@ -0,0 +1,263 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import mongoose from 'mongoose';
+import { normalizeSearchTerm } from '@/lib/search';
+import { recentlyReducedSince } from '@/lib/priceHistory';
+import { ATTRIBUTE_KEY_PATTERN } from '@/lib/propertyValidation';
+import { FieldErrors, validate } from '@/lib/schema';
+import { PropertyQuery, propertyQuerySchema } from '@/lib/propertySchemas';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type PropertyFilter = Record<string, any>;
+
+export interface NearQuery {
+  coordinates: [number, number]; // [longitude, latitude]
+  radius?: number; // Meters
+}
+
+interface PropertyFilterResult {
+  query: PropertyFilter;
+  params?: PropertyQuery;
+  near?: NearQuery;
+  errors?: FieldErrors;
+}
+
+const EARTH_RADIUS_METERS = 6378100;
+
+/**
+ * Validate the listing query parameters against `propertyQuerySchema` and
+ * build the MongoDB filter shared by the property listing routes from the
+ * `type`, `minPrice`, `maxPrice`, `recentlyReduced`, `status`,
+ * `attributes.<key>.min|max`, `search`, `near`/`radius` and `within` parameters.
+ *
+ * The type id is cast to an ObjectId up front so the filter can be used in
+ * aggregation pipelines, where Mongoose does not cast values for us.
+ * A `near` point is returned separately: with a radius it also restricts the
+ * filter, but ordering by distance is up to the caller.
+ */
+export function buildPropertyFilter(searchParams: URLSearchParams): PropertyFilterResult {
+  const query: PropertyFilter = {};
+  const { data, errors = {} } = validate(propertyQuerySchema, Object.fromEntries(searchParams));
+
+  // Range filters on numeric custom attributes: attributes.<key>.min / .max
+  for (const [param, value] of searchParams.entries()) {
+    const match = /^attributes\.([^.]+)\.(min|max)$/.exec(param);
+    if (!match) continue;
+
+    const [, key, bound] = match;
+    const number = Number(value.trim());
+    if (!ATTRIBUTE_KEY_PATTERN.test(key)) {
+      errors[param] = `Unknown attribute ${key}`;
+      continue;
+    }
+    if (!value.trim() || !Number.isFinite(number)) {
+      errors[param] = `${param} must be a number`;
+      continue;
+    }
+
+    const path = `attributes.${key}`;
+    query[path] = { ...query[path], [bound === 'min' ? '$gte' : '$lte']: number };
+  }
+
+  if (!data || Object.keys(errors).length > 0) {
+    return { query, errors };
+  }
+
+  if (data.type) {
+    query.type = new mongoose.Types.ObjectId(data.type);
+  }
+
+  if (data.minPrice !== undefined || data.maxPrice !== undefined) {
+    query.price = {};
+    if (data.minPrice !== undefined) query.price.$gte = data.minPrice;
+    if (data.maxPrice !== undefined) query.price.$lte = data.maxPrice;
+  }
+
+  if (data.recentlyReduced) {
+    query.reduced_at = { $gte: recentlyReducedSince() };
+  }
+
+  // Only published listings unless a status filter is given explicitly
+  if (data.status !== 'all') {
+    // Listings stored before statuses existed have none and count as published
+    query.status = {
+      $in: data.status.includes('published') ? [...data.status, null] : data.status
+    };
+  }
+
+  // Full-text search on the weighted title/description index
+  const search = normalizeSearchTerm(data.search);
+  if (search) {
+    query.$text = { $search: search };
+  }
+
+  // Geo filters, the schema already rejects near combined with within
+  let near: NearQuery | undefined;
+  if (data.near) {
+    near = { coordinates: data.near };
+
+    if (data.radius !== undefined) {
+      near.radius = data.radius;
+      query.location = {
+        $geoWithin: { $centerSphere: [data.near, data.radius / EARTH_RADIUS_METERS] }
+      };
+    }
+  }
+
+  if (data.within) {
+    query.location = { $geoWithin: { $geometry: data.within } };
+  }
+
+  return { query, params: data, near };
+}
+
+export const cursorSortFields = ['created_at', 'price', 'title'] as const;
+
+type CursorSortField = typeof cursorSortFields[number];
+type CursorDirection = 'next' | 'prev';
+
+interface PropertyCursor {
+  sortBy: CursorSortField;
+  sortOrder: 'asc' | 'desc';
+  direction: CursorDirection;
+  value: string | number | Date;
+  id: mongoose.Types.ObjectId;
+  page: number;
+  total: number | null; // Null unless the signature vouches for it, the listing then counts again
+}
+
+interface EncodedCursor {
+  s: CursorSortField;
+  o: 'asc' | 'desc';
+  d: CursorDirection;
+  v: string | number;
+  t?: 'date';
+  id: string;
+  p: number;
+  n?: number;
+}
+
+export function isCursorSortField(sortBy: string): sortBy is CursorSortField {
+  return (cursorSortFields as readonly string[]).includes(sortBy);
+}
+
+// Signs cursors so the totals they carry cannot be made up. Without
+// CURSOR_SECRET every process has its own key, and cursors issued by another
+// instance are counted again rather than rejected.
+const cursorKey = process.env.CURSOR_SECRET || randomBytes(32).toString('hex');
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+
+// The signature also covers the filter, a total only holds for the query it was counted for
+function signCursor(payload: string, query: PropertyFilter): Buffer {
+  return createHmac('sha256', cursorKey)
+    .update(payload)
+    .update('\n')
+    .update(JSON.stringify(query))
+    .digest();
+}
+
+/**
+ * Build an opaque cursor pointing at `doc` for the given sort.
+ * `page` is the page the cursor leads to and `total` the number of matches
+ * of `query` counted on the first page, so the listing can keep reporting both
+ * without running skip or count queries.
+ */
+export function encodeCursor(
+  doc: { _id: unknown; [key: string]: unknown },
+  sortBy: CursorSortField,
+  sortOrder: 'asc' | 'desc',
+  direction: CursorDirection,
+  page: number,
+  total: number,
+  query: PropertyFilter
+): string {
+  const value = doc[sortBy];
+  const payload: EncodedCursor = {
+    s: sortBy,
+    o: sortOrder,
+    d: direction,
+    v: value instanceof Date ? value.toISOString() : value as string | number,
+    id: String(doc._id),
+    p: page,
+    n: total
+  };
+  if (value instanceof Date) {
+    payload.t = 'date';
+  }
+
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${signCursor(encoded, query).toString('base64url')}`;
+}
+
+// The sort value has to have the type of the sort field, anything else could
+// smuggle an operator object into the keyset filter
+function decodeCursorValue(payload: EncodedCursor, sortBy: CursorSortField): string | number | Date | null {
+  switch (sortBy) {
+    case 'created_at': {
+      if (payload.t !== 'date' || typeof payload.v !== 'string' || !ISO_DATE_PATTERN.test(payload.v)) return null;
+      const date = new Date(payload.v);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    case 'price':
+      return typeof payload.v === 'number' && Number.isFinite(payload.v) ? payload.v : null;
+    case 'title':
+      return typeof payload.v === 'string' ? payload.v : null;
+  }
+}
+
+/**
+ * Decode a cursor produced by `encodeCursor`. Returns null when the cursor is
+ * malformed or was issued for a different sort than the current request. The
+ * total is only kept when the signature matches `query`.
+ */
+export function decodeCursor(
+  raw: string,
+  sortBy: CursorSortField,
+  sortOrder: 'asc' | 'desc',
+  query: PropertyFilter
+): PropertyCursor | null {
+  try {
+    const [encoded, signature = ''] = raw.split('.');
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as EncodedCursor;
+
+    if (typeof payload !== 'object' || payload === null) return null;
+    if (payload.s !== sortBy || payload.o !== sortOrder) return null;
+    if (payload.d !== 'next' && payload.d !== 'prev') return null;
+    if (typeof payload.id !== 'string' || !mongoose.isValidObjectId(payload.id)) return null;
+
+    const value = decodeCursorValue(payload, sortBy);
+    if (value === null) return null;
+
+    const expected = signCursor(encoded, query);
+    const given = Buffer.from(signature, 'base64url');
+    const signed = given.length === expected.length && timingSafeEqual(given, expected);
+
+    return {
+      sortBy,
+      sortOrder,
+      direction: payload.d,
+      value,
+      id: new mongoose.Types.ObjectId(payload.id),
+      page: Number.isInteger(payload.p) && payload.p >= 1 ? payload.p : 1,
+      total: signed && typeof payload.n === 'number' && Number.isInteger(payload.n) && payload.n >= 0 ? payload.n : null
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keyset filter selecting the documents after (or before) the cursor, using
+ * `_id` as the tie-breaker for equal sort values.
+ */
+export function buildCursorFilter(cursor: PropertyCursor): PropertyFilter {
+  const ascending = cursor.sortOrder === 'asc';
+  const op = (cursor.direction === 'next') === ascending ? '$gt' : '$lt';
+
+  return {
+    $or: [
+      { [cursor.sortBy]: { [op]: cursor.value } },
+      { [cursor.sortBy]: cursor.value, _id: { [op]: cursor.id } }
+    ]
+  };
+}
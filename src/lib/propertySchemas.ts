@@ -0,0 +1,223 @@
+import { boolean, custom, number, object, objectId, oneOf, partial, SchemaData, string } from '@/lib/schema';
+import { isPropertyStatus, propertyStatuses } from '@/lib/propertyStatus';
+import { RECENTLY_REDUCED_DAYS } from '@/lib/priceHistory';
+import {
+  MAX_TYPE_LABEL_LENGTH,
+  isValidCoordinates,
+  parseAddress,
+  parseGeoPoint,
+  parsePropertyTypeLabel,
+} from '@/lib/propertyValidation';
+import { PropertyAttributes, PropertyStatus } from '@/types';
+
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_DESCRIPTION_LENGTH = 5000;
+export const MAX_PAGE_SIZE = 100;
+
+// Request bodies
+
+/**
+ * `CreatePropertyData`, also used by PUT which replaces every field.
+ * Attribute values are checked against the property type separately.
+ */
+export const createPropertySchema = object('CreatePropertyData', {
+  title: string({ maxLength: MAX_TITLE_LENGTH }).required(),
+  type: objectId().required().label('Property type').describe('PropertyType id'),
+  price: number({ min: 0 }).required().describe('Price in USD'),
+  description: string({ maxLength: MAX_DESCRIPTION_LENGTH }).required(),
+  location: custom(
+    parseGeoPoint,
+    'must be a GeoJSON Point with [longitude, latitude]',
+    { type: 'object', ref: 'GeoPoint' }
+  ),
+  address: custom(parseAddress, 'is invalid', {
+    type: 'object',
+    ref: 'PropertyAddress'
+  }),
+  attributes: custom(parseAttributeValues, 'must be an object', {
+    type: 'object',
+    description: 'Values for the attributes declared on the property type'
+  }).default({}),
+});
+
+/**
+ * `UpdatePropertyData` for PATCH, only the fields sent are changed
+ */
+export const updatePropertySchema = partial(createPropertySchema, 'UpdatePropertyData');
+
+export type PropertyFields = SchemaData<typeof createPropertySchema>;
+
+/**
+ * `PropertyStatusChangeData`, the transition itself is checked by the route
+ */
+export const statusChangeSchema = object('PropertyStatusChangeData', {
+  status: oneOf(propertyStatuses).required(),
+});
+
+function parseAttributeValues(value: unknown): PropertyAttributes | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as PropertyAttributes
+    : null;
+}
+
+/**
+ * `CreatePropertyTypeData`. The attribute definitions are checked with
+ * `parseAttributeDefinitions`, whose messages name the broken definition.
+ */
+export const propertyTypeSchema = object('CreatePropertyTypeData', {
+  label: custom(parsePropertyTypeLabel, `must be text of at most ${MAX_TYPE_LABEL_LENGTH} characters`, {
+    type: 'string',
+    maxLength: MAX_TYPE_LABEL_LENGTH
+  }).required(),
+  attributes: custom(parseList, 'must be a list', {
+    type: 'array',
+    items: { type: 'object', ref: 'PropertyAttributeDefinition' }
+  }).default([]),
+});
+
+/**
+ * `UpdatePropertyTypeData` for PATCH, `attributes` replaces the whole list
+ */
+export const updatePropertyTypeSchema = partial(propertyTypeSchema, 'UpdatePropertyTypeData');
+
+function parseList(value: unknown): unknown[] | null {
+  return Array.isArray(value) ? value : null;
+}
+
+// Query parameters
+
+export const defaultPriceBuckets = [0, 100000, 250000, 500000, 1000000];
+
+const MAX_PRICE_BUCKETS = 20;
+// Stays well below the open-ended last bucket's bound in `computePropertyFacets`
+const MAX_PRICE_BOUNDARY = 1_000_000_000_000;
+
+/**
+ * `PropertyQueryParams` of the listing routes. Numeric attribute filters
+ * (`attributes.<key>.min|max`) have dynamic names and are parsed with the filter.
+ */
+export const propertyQuerySchema = object('PropertyQueryParams', {
+  page: number({ integer: true, min: 1 }).default(1),
+  limit: number({ integer: true, min: 1, max: MAX_PAGE_SIZE }).default(10),
+  type: objectId().label('Property type').describe('PropertyType id'),
+  minPrice: number({ min: 0 }),
+  maxPrice: number({ min: 0 }),
+  search: string().describe('Full-text search on title and description'),
+  recentlyReduced: boolean().default(false)
+    .describe(`Only listings whose price dropped in the last ${RECENTLY_REDUCED_DAYS} days`),
+  sortBy: oneOf(['price', 'created_at', 'title', 'relevance', 'distance', 'reduced_at'] as const)
+    .describe('Defaults to distance for near queries, otherwise created_at. reduced_at orders by the last price drop'),
+  sortOrder: oneOf(['asc', 'desc'] as const).default('desc'),
+  cursor: string().describe('Opaque cursor from a previous response, pass it empty to start cursor pagination'),
+  status: custom(parseStatusFilter, `must be "all" or a list of: ${propertyStatuses.join(', ')}`, {
+    type: 'string',
+    description: 'Comma-separated statuses or "all", defaults to published'
+  }).default(['published']),
+  near: custom(parsePosition, 'must be "lng,lat"', {
+    type: 'string',
+    description: 'Order by distance from "lng,lat"'
+  }),
+  radius: number({ exclusiveMin: 0 }).describe('Meters around near'),
+  within: custom(parseWithin, 'must be a bounding box or polygon', {
+    type: 'string',
+    description: 'Bounding box "minLng,minLat,maxLng,maxLat" or polygon "lng,lat;lng,lat;..."'
+  }),
+  facets: boolean().default(false).describe('Include type and price facet counts'),
+  priceBuckets: custom(parsePriceBuckets, `must be up to ${MAX_PRICE_BUCKETS} increasing boundaries from 0 to ${MAX_PRICE_BOUNDARY}`, {
+    type: 'string',
+    description: 'Comma-separated lower boundaries of the price facet buckets'
+  }).default(defaultPriceBuckets),
+}, {
+  refine: (params, errors) => {
+    if (params.near && params.within) {
+      errors.within = 'Within cannot be combined with near';
+    }
+    if (params.radius !== undefined && !params.near) {
+      errors.radius = 'Radius requires near';
+    }
+    if (params.minPrice !== undefined && params.maxPrice !== undefined && params.minPrice > params.maxPrice) {
+      errors.maxPrice = 'Max price must be at least min price';
+    }
+  }
+});
+
+export type PropertyQuery = SchemaData<typeof propertyQuerySchema>;
+
+export const trashQuerySchema = object('TrashQueryParams', {
+  page: number({ integer: true, min: 1 }).default(1),
+  limit: number({ integer: true, min: 1, max: MAX_PAGE_SIZE }).default(10),
+});
+
+export const historyQuerySchema = object('PropertyHistoryQueryParams', {
+  page: number({ integer: true, min: 1 }).default(1),
+  limit: number({ integer: true, min: 1, max: 100 }).default(20),
+});
+
+function parseStatusFilter(value: unknown): PropertyStatus[] | 'all' | null {
+  if (typeof value !== 'string') return null;
+  if (value === 'all') return 'all';
+
+  const statuses = value.split(',').map(status => status.trim());
+  return statuses.every(isPropertyStatus) ? statuses : null;
+}
+
+/**
+ * Parse the comma-separated `priceBuckets` boundaries, e.g. "0,100000,500000".
+ * Boundaries have to be increasing, and 0 is added when missing so every price
+ * falls into a bucket.
+ */
+function parsePriceBuckets(value: unknown): number[] | null {
+  if (typeof value !== 'string') return null;
+
+  // Splitting stops past the limit, however long the list is
+  const entries = value.split(',', MAX_PRICE_BUCKETS + 1).map(entry => entry.trim());
+  const values = entries.map(entry => (entry === '' ? NaN : Number(entry)));
+  if (values.some(entry => !Number.isFinite(entry) || entry < 0 || entry > MAX_PRICE_BOUNDARY)) return null;
+  if (values.some((entry, index) => index > 0 && entry <= values[index - 1])) return null;
+
+  const boundaries = values[0] === 0 ? values : [0, ...values];
+  return boundaries.length > MAX_PRICE_BUCKETS ? null : boundaries;
+}
+
+function parsePosition(value: unknown): [number, number] | null {
+  if (typeof value !== 'string') return null;
+  const parts = value.split(',').map(part => Number(part.trim()));
+  if (parts.length !== 2 || !isValidCoordinates(parts)) return null;
+  return [parts[0], parts[1]];
+}
+
+/**
+ * Parse a `within` area into a GeoJSON polygon. Four comma-separated numbers
+ * are a bounding box (minLng,minLat,maxLng,maxLat), otherwise the value is a
+ * list of "lng,lat" positions separated by semicolons.
+ */
+function parseWithin(value: unknown): { type: 'Polygon'; coordinates: [number, number][][] } | null {
+  if (typeof value !== 'string') return null;
+
+  let ring: [number, number][];
+
+  if (!value.includes(';')) {
+    const box = value.split(',').map(part => Number(part.trim()));
+    if (box.length !== 4) return null;
+    const [minLng, minLat, maxLng, maxLat] = box;
+    if (!isValidCoordinates([minLng, minLat]) || !isValidCoordinates([maxLng, maxLat])) return null;
+    if (minLng >= maxLng || minLat >= maxLat) return null;
+    ring = [[minLng, minLat], [maxLng, minLat], [maxLng, maxLat], [minLng, maxLat]];
+  } else {
+    const positions = value.split(';').filter(Boolean).map(parsePosition);
+    if (positions.some(position => !position)) return null;
+    ring = positions as [number, number][];
+  }
+
+  // Close the ring if the caller did not repeat the first position
+  const [first] = ring;
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    ring = [...ring, first];
+  }
+
+  // A closed polygon needs at least three distinct positions
+  if (ring.length < 4) return null;
+
+  return { type: 'Polygon', coordinates: [ring] };
+}
@@ -0,0 +1,66 @@
+import { PropertyStatus, PropertyStatusChange } from '@/types';
+
+export const propertyStatuses: PropertyStatus[] = ['draft', 'published', 'under_offer', 'sold', 'archived'];
+
+/**
+ * Allowed lifecycle transitions. Listings start as drafts, only published
+ * listings show up in the public listing, and archived ones go back to draft
+ * before they can be published again.
+ */
+export const statusTransitions: Record<PropertyStatus, PropertyStatus[]> = {
+  draft: ['published', 'archived'],
+  published: ['draft', 'under_offer', 'sold', 'archived'],
+  under_offer: ['published', 'sold', 'archived'],
+  sold: ['archived'],
+  archived: ['draft'],
+};
+
+export const statusLabels: Record<PropertyStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  under_offer: 'Under offer',
+  sold: 'Sold',
+  archived: 'Archived',
+};
+
+export function isPropertyStatus(value: unknown): value is PropertyStatus {
+  return typeof value === 'string' && (propertyStatuses as string[]).includes(value);
+}
+
+export function canTransition(from: PropertyStatus, to: PropertyStatus): boolean {
+  return statusTransitions[from].includes(to);
+}
+
+/**
+ * Status of a listing, listings stored before statuses existed count as published
+ */
+export function getPropertyStatus(property: { status?: PropertyStatus | null }): PropertyStatus {
+  return property.status || 'published';
+}
+
+/**
+ * Whether a listing is on the market, taking inquiries and viewings
+ */
+export function isOnMarket(property: { status?: PropertyStatus | null }): boolean {
+  const status = getPropertyStatus(property);
+  return status === 'published' || status === 'under_offer';
+}
+
+/**
+ * Move a listing to a new status and record the transition.
+ * Returns an error message when the transition is not allowed.
+ */
+export function applyStatusTransition(
+  property: { status?: PropertyStatus | null; statusHistory: PropertyStatusChange[] },
+  to: PropertyStatus
+): string | null {
+  const from = getPropertyStatus(property);
+
+  if (!canTransition(from, to)) {
+    return `Cannot change status from ${statusLabels[from]} to ${statusLabels[to]}`;
+  }
+
+  property.status = to;
+  property.statusHistory.push({ from, to, changed_at: new Date() });
+  return null;
+}
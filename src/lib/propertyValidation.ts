@@ -0,0 +1,195 @@
+import {
+  GeoPoint,
+  PropertyAddress,
+  PropertyAttributeDefinition,
+  PropertyAttributes,
+} from '@/types';
+
+const addressFields: (keyof PropertyAddress)[] = ['street', 'city', 'state', 'postalCode', 'country'];
+
+/**
+ * Check that a pair of numbers is a valid [longitude, latitude] position
+ */
+export function isValidCoordinates(coordinates: unknown): coordinates is [number, number] {
+  if (!Array.isArray(coordinates) || coordinates.length !== 2) return false;
+  const [lng, lat] = coordinates;
+  return typeof lng === 'number' && typeof lat === 'number'
+    && lng >= -180 && lng <= 180
+    && lat >= -90 && lat <= 90;
+}
+
+/**
+ * Parse a GeoJSON Point, returns null when it is malformed
+ */
+export function parseGeoPoint(value: unknown): GeoPoint | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const point = value as { type?: unknown; coordinates?: unknown };
+  if (point.type !== 'Point' || !isValidCoordinates(point.coordinates)) return null;
+  return { type: 'Point', coordinates: [point.coordinates[0], point.coordinates[1]] };
+}
+
+/**
+ * Normalize an address object, blank parts are dropped
+ */
+export function parseAddress(value: unknown): PropertyAddress | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+
+  const address: PropertyAddress = {};
+  for (const field of addressFields) {
+    const fieldValue = (value as Record<string, unknown>)[field];
+    if (fieldValue === undefined || fieldValue === null || fieldValue === '') continue;
+    if (typeof fieldValue !== 'string') return null;
+    address[field] = fieldValue.trim();
+  }
+
+  return address;
+}
+
+export const MAX_TYPE_LABEL_LENGTH = 50;
+
+/**
+ * Normalize a property type label, null when it is not text or too long
+ */
+export function parsePropertyTypeLabel(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+
+  const label = value.trim().replace(/\s+/g, ' ');
+  return label.length > MAX_TYPE_LABEL_LENGTH ? null : label;
+}
+
+export const ATTRIBUTE_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,39}$/;
+
+export const attributeTypes = ['number', 'string', 'boolean'];
+
+/**
+ * Validate the attribute schema declared on a property type
+ */
+export function parseAttributeDefinitions(value: unknown): {
+  attributes?: PropertyAttributeDefinition[];
+  error?: string;
+} {
+  if (!Array.isArray(value)) {
+    return { error: 'Attributes must be an array' };
+  }
+
+  const attributes: PropertyAttributeDefinition[] = [];
+  const keys = new Set<string>();
+
+  for (const item of value) {
+    if (typeof item !== 'object' || item === null) {
+      return { error: 'Invalid attribute definition' };
+    }
+    const definition = item as Record<string, unknown>;
+
+    const key = typeof definition.key === 'string' ? definition.key.trim() : '';
+    if (!ATTRIBUTE_KEY_PATTERN.test(key)) {
+      return { error: `Invalid attribute key "${key}"` };
+    }
+    if (keys.has(key)) {
+      return { error: `Duplicate attribute key "${key}"` };
+    }
+    keys.add(key);
+
+    if (typeof definition.type !== 'string' || !attributeTypes.includes(definition.type)) {
+      return { error: `Attribute "${key}" must have type number, string or boolean` };
+    }
+    const type = definition.type as PropertyAttributeDefinition['type'];
+
+    const parsed: PropertyAttributeDefinition = {
+      key,
+      label: typeof definition.label === 'string' && definition.label.trim()
+        ? definition.label.trim()
+        : key,
+      type,
+      required: definition.required === true,
+    };
+
+    if (typeof definition.unit === 'string' && definition.unit.trim()) {
+      parsed.unit = definition.unit.trim();
+    }
+
+    if (definition.allowedValues !== undefined && definition.allowedValues !== null) {
+      const allowedValues = definition.allowedValues;
+      if (type === 'boolean' || !Array.isArray(allowedValues) || allowedValues.length === 0
+        || allowedValues.some(allowed => typeof allowed !== type)) {
+        return { error: `Attribute "${key}" has invalid allowed values` };
+      }
+      parsed.allowedValues = allowedValues as (string | number)[];
+    }
+
+    attributes.push(parsed);
+  }
+
+  return { attributes };
+}
+
+/**
+ * Validate attribute values against a property type's definitions.
+ * Values coming from form inputs are coerced ("3" to 3, "true" to true),
+ * unknown keys are rejected and empty values count as missing.
+ * `errors` is keyed by attribute key so forms can show them inline.
+ */
+export function parsePropertyAttributes(
+  definitions: PropertyAttributeDefinition[],
+  values: PropertyAttributes
+): { attributes?: PropertyAttributes; errors?: Record<string, string>; error?: string } {
+  const errors: Record<string, string> = {};
+  const attributes: PropertyAttributes = {};
+  const definedKeys = new Set(definitions.map(definition => definition.key));
+
+  for (const key of Object.keys(values)) {
+    if (!definedKeys.has(key)) {
+      errors[key] = 'Unknown attribute';
+    }
+  }
+
+  for (const definition of definitions) {
+    const raw = values[definition.key];
+
+    if (raw === undefined || raw === null || raw === '') {
+      if (definition.required) {
+        errors[definition.key] = `${definition.label} is required`;
+      }
+      continue;
+    }
+
+    let value: string | number | boolean;
+    if (definition.type === 'number') {
+      // The whole text must be a number, parseFloat would take "12abc" as 12
+      value = typeof raw === 'number' ? raw
+        : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN;
+      if (!Number.isFinite(value)) {
+        errors[definition.key] = `${definition.label} must be a number`;
+        continue;
+      }
+    } else if (definition.type === 'boolean') {
+      if (typeof raw === 'boolean') {
+        value = raw;
+      } else if (raw === 'true' || raw === 'false') {
+        value = raw === 'true';
+      } else {
+        errors[definition.key] = `${definition.label} must be true or false`;
+        continue;
+      }
+    } else {
+      value = String(raw).trim();
+    }
+
+    if (definition.allowedValues && definition.allowedValues.length > 0
+      && !definition.allowedValues.includes(value as string | number)) {
+      errors[definition.key] = `${definition.label} must be one of: ${definition.allowedValues.join(', ')}`;
+      continue;
+    }
+
+    attributes[definition.key] = value;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return {
+      errors,
+      error: `Invalid attributes: ${Object.entries(errors).map(([key, message]) => `${key} (${message})`).join(', ')}`
+    };
+  }
+
+  return { attributes };
+}
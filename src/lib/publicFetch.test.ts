@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchPublicUrl } from '@/lib/publicFetch';
+
+// Host names resolve to the addresses listed here instead of going to DNS
+const records = new Map<string, { address: string; family: number }[]>();
+
+vi.mock('dns', async importOriginal => {
+  const actual = await importOriginal<typeof import('dns')>();
+  return {
+    ...actual,
+    lookup: (hostname: string, _options: unknown, callback: (...args: unknown[]) => void) => {
+      const addresses = records.get(hostname);
+      if (addresses) {
+        callback(null, addresses);
+      } else {
+        callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' }));
+      }
+    }
+  };
+});
+
+const options = { maxBytes: 1024, timeoutMs: 2000 };
+
+describe('fetchPublicUrl', () => {
+  beforeEach(() => {
+    records.clear();
+  });
+
+  it('only fetches http and https URLs', async () => {
+    for (const url of ['ftp://example.com/a.jpg', 'file:///etc/passwd', 'data:text/plain,hi']) {
+      await expect(fetchPublicUrl(url, options)).rejects.toThrow('Only http and https URLs can be fetched');
+    }
+  });
+
+  it('refuses private and local IP literals', async () => {
+    const urls = [
+      'http://127.0.0.1/',
+      'http://10.1.2.3/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://192.168.0.10:8080/',
+      'http://0.0.0.0/',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[fd00::1]/',
+      'http://[fe80::1]/'
+    ];
+    for (const url of urls) {
+      await expect(fetchPublicUrl(url, options)).rejects.toThrow('URL points to a private address');
+    }
+  });
+
+  it('refuses host names that resolve to a private address', async () => {
+    records.set('internal.test', [{ address: '10.0.0.5', family: 4 }]);
+    records.set('localhost', [{ address: '127.0.0.1', family: 4 }, { address: '::1', family: 6 }]);
+
+    await expect(fetchPublicUrl('http://internal.test/', options)).rejects.toThrow('URL points to a private address');
+    await expect(fetchPublicUrl('https://localhost/', options)).rejects.toThrow('URL points to a private address');
+  });
+
+  it('refuses host names with any private address among public ones', async () => {
+    records.set('mixed.test', [{ address: '93.184.216.34', family: 4 }, { address: '127.0.0.1', family: 4 }]);
+
+    await expect(fetchPublicUrl('http://mixed.test/', options)).rejects.toThrow('URL points to a private address');
+  });
+
+  it('passes on lookup errors', async () => {
+    await expect(fetchPublicUrl('http://missing.test/', options)).rejects.toThrow('ENOTFOUND');
+  });
+});
@@ -0,0 +1,136 @@
+import { LookupAddress, lookup } from 'dns';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+import { Readable } from 'stream';
+import { readLimited } from '@/lib/requestBody';
+
+const MAX_REDIRECTS = 3;
+
+// Addresses a URL from user input must not reach: this host, private
+// networks, link-local (including cloud metadata endpoints) and multicast.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const blockedAddresses = new BlockList();
+blockedAddresses.addSubnet('0.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('100.64.0.0', 10, 'ipv4');
+blockedAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('169.254.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+blockedAddresses.addSubnet('192.0.0.0', 24, 'ipv4');
+blockedAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('198.18.0.0', 15, 'ipv4');
+blockedAddresses.addSubnet('224.0.0.0', 3, 'ipv4');
+blockedAddresses.addAddress('::', 'ipv6');
+blockedAddresses.addAddress('::1', 'ipv6');
+blockedAddresses.addSubnet('64:ff9b::', 96, 'ipv6');
+blockedAddresses.addSubnet('fc00::', 7, 'ipv6');
+blockedAddresses.addSubnet('fe80::', 10, 'ipv6');
+blockedAddresses.addSubnet('ff00::', 8, 'ipv6');
+
+export interface PublicFetchResult {
+  contentType: string;
+  body: Blob;
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  return family === 0 || blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+const privateAddressError = () => new Error('URL points to a private address');
+
+// dns.lookup that refuses blocked addresses. It is the lookup of the socket
+// itself, so the address checked is the one connected to and a host name
+// cannot resolve to a public address for a check and a private one after.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+      callback(privateAddressError(), '', 0);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Sockets skip the lookup for IP literals, those are checked up front
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https URLs can be fetched');
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host) && isBlockedAddress(host)) {
+    throw privateAddressError();
+  }
+}
+
+function get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client.get(url, { lookup: publicLookup, signal }, resolve).on('error', reject);
+  });
+}
+
+/**
+ * Download a URL taken from user input, e.g. an image URL in an import file.
+ * Only http(s) URLs on public addresses are fetched, redirects are followed
+ * by hand so each hop is checked again, and the body is cut off after
+ * `maxBytes`. With `accept`, responses whose content type does not start with
+ * it are dropped before their body is read.
+ */
+export async function fetchPublicUrl(
+  rawUrl: string,
+  { maxBytes, timeoutMs, accept }: { maxBytes: number; timeoutMs: number; accept?: string }
+): Promise<PublicFetchResult> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let url = new URL(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(url);
+    const response = await get(url, signal);
+    const status = response.statusCode || 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error('Too many redirects');
+      }
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new Error(`Download failed with HTTP ${status}`);
+    }
+
+    const contentType = response.headers['content-type'] || '';
+    if (accept && !contentType.startsWith(accept)) {
+      response.destroy();
+      throw new Error(`Unexpected content type (${contentType || 'unknown type'})`);
+    }
+
+    const tooLarge = `Larger than ${maxBytes / 1024 / 1024}MB`;
+    if (Number(response.headers['content-length'] || 0) > maxBytes) {
+      response.destroy();
+      throw new Error(tooLarge);
+    }
+
+    const body = await readLimited(Readable.toWeb(response) as ReadableStream<Uint8Array>, maxBytes);
+    if (!body) {
+      throw new Error(tooLarge);
+    }
+
+    return { contentType, body };
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+} from '@aws-sdk/client-s3';
+
+// Initialize Cloudflare R2 client
+const bucketName = process.env.CLOUDFLARE_R2_BUCKET_NAME || 'propertio';
+const accountId = process.env.CLOUDFLARE_R2_ACCOUNT_ID;
+const accessKeyId = process.env.CLOUDFLARE_R2_ACCESS_KEY_ID;
+const secretAccessKey = process.env.CLOUDFLARE_R2_SECRET_ACCESS_KEY;
+const region = process.env.CLOUDFLARE_R2_REGION || 'auto';
+const publicDomain = process.env.CLOUDFLARE_R2_PUBLIC_DOMAIN || 'propertio.tscblogs.com';
+
+const s3Client = new S3Client({
+  region,
+  endpoint: `https://${accountId}.r2.cloudflarestorage.com`,
+  credentials: {
+    accessKeyId: accessKeyId!,
+    secretAccessKey: secretAccessKey!,
+  },
+});
+
+/**
+ * Check whether the R2 credentials are present in the environment
+ */
+export function isR2Configured(): boolean {
+  return Boolean(accountId && accessKeyId && secretAccessKey);
+}
+
+/**
+ * Upload an image blob under the property's key prefix and return its public URL
+ */
+export async function uploadImage(blob: Blob, propertyId: string, fileName: string): Promise<string> {
+  const buffer = Buffer.from(await blob.arrayBuffer());
+
+  // Determine file extension from blob type
+  let extension = 'png'; // default
+  if (blob.type.includes('jpeg') || blob.type.includes('jpg')) {
+    extension = 'jpg';
+  } else if (blob.type.includes('webp')) {
+    extension = 'webp';
+  } else if (blob.type.includes('gif')) {
+    extension = 'gif';
+  }
+
+  const key = `${propertyId}/${fileName}.${extension}`;
+  const command = new PutObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+    Body: buffer,
+    ContentType: blob.type || "image/png",
+    CacheControl: 'public, max-age=31536000', // Cache for 1 year
+  });
+
+  await s3Client.send(command);
+  return `https://${publicDomain}/${key}`;
+}
+
+/**
+ * Delete every object stored under the property's key prefix.
+ * Returns the number of objects removed, throws when any of them is left.
+ */
+export async function deletePropertyImages(propertyId: string): Promise<number> {
+  let deleted = 0;
+  let continuationToken: string | undefined;
+
+  do {
+    const listing = await s3Client.send(new ListObjectsV2Command({
+      Bucket: bucketName,
+      Prefix: `${propertyId}/`,
+      ContinuationToken: continuationToken,
+    }));
+
+    const objects = (listing.Contents || [])
+      .filter(object => object.Key)
+      .map(object => ({ Key: object.Key! }));
+
+    // DeleteObjects accepts up to 1000 keys, which matches the list page size
+    if (objects.length > 0) {
+      // A quiet delete only reports the keys it failed to remove
+      const result = await s3Client.send(new DeleteObjectsCommand({
+        Bucket: bucketName,
+        Delete: { Objects: objects, Quiet: true },
+      }));
+
+      const failed = result.Errors || [];
+      if (failed.length > 0) {
+        console.error('Failed to delete images:', failed.map(error => `${error.Key}: ${error.Code} ${error.Message}`));
+        throw new Error(`Could not delete ${failed.length} of ${objects.length} images of property ${propertyId}`);
+      }
+      deleted += objects.length;
+    }
+
+    continuationToken = listing.IsTruncated ? listing.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return deleted;
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/apiResponses';
+import { RateLimit } from '@/models/RateLimit';
+
+export interface RateLimitRule {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+  by: 'ip' | 'client'; // `client` is the signed-in user, by session or API key, falling back to the IP
+}
+
+/**
+ * Default limits per route. Each can be overridden with an environment
+ * variable such as `RATE_LIMIT_PROPERTIES_CREATE=10/3600` (requests/seconds).
+ */
+export const rateLimitRules = {
+  'properties.create': { limit: 30, windowMs: 60 * 60 * 1000, by: 'client' },
+  'properties.update': { limit: 120, windowMs: 10 * 60 * 1000, by: 'client' },
+  'properties.images': { limit: 100, windowMs: 60 * 60 * 1000, by: 'client' },
+  'properties.import': { limit: 20, windowMs: 60 * 60 * 1000, by: 'client' },
+  'properties.export': { limit: 30, windowMs: 60 * 60 * 1000, by: 'client' },
+  'inquiries.create': { limit: 5, windowMs: 60 * 60 * 1000, by: 'ip' },
+  'viewings.book': { limit: 10, windowMs: 60 * 60 * 1000, by: 'client' },
+  'auth.login': { limit: 10, windowMs: 15 * 60 * 1000, by: 'ip' },
+  'auth.signup': { limit: 5, windowMs: 60 * 60 * 1000, by: 'ip' },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitRuleName = keyof typeof rateLimitRules;
+
+interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  /** Count a request in the current window of `key`, starting a new window when the last one is over */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * Fixed windows kept in process memory, for single-node deployments
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+  private lastSweep = Date.now();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.sweep(now, windowMs);
+
+    const current = this.windows.get(key);
+    if (current && current.resetAt.getTime() > now) {
+      current.count += 1;
+      return { ...current };
+    }
+
+    const started = { count: 1, resetAt: new Date(now + windowMs) };
+    this.windows.set(key, started);
+    return { ...started };
+  }
+
+  // Drop finished windows now and then so idle clients do not pile up
+  private sweep(now: number, windowMs: number) {
+    if (now - this.lastSweep < windowMs) return;
+    this.lastSweep = now;
+    for (const [key, entry] of this.windows) {
+      if (entry.resetAt.getTime() <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Fixed windows shared through MongoDB, for deployments with several instances
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  async hit(key: string, windowMs: number, retried = false): Promise<RateLimitHit> {
+    const now = new Date();
+    const active = { $gt: ['$resetAt', now] };
+
+    try {
+      // A single pipeline update either counts the request or starts a new window
+      const entry = await RateLimit.findOneAndUpdate(
+        { key },
+        [{
+          $set: {
+            count: { $cond: [active, { $add: ['$count', 1] }, 1] },
+            resetAt: { $cond: [active, '$resetAt', new Date(now.getTime() + windowMs)] }
+          }
+        }],
+        { upsert: true, new: true }
+      );
+
+      return { count: entry.count, resetAt: entry.resetAt };
+    } catch (error) {
+      // Two first requests racing to create the same window
+      if (!retried && (error as { code?: number }).code === 11000) {
+        return this.hit(key, windowMs, true);
+      }
+      throw error;
+    }
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Store selected by `RATE_LIMIT_STORE` (`memory` by default, or `mongo`)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === 'mongo'
+      ? new MongoRateLimitStore()
+      : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+function getRule(name: RateLimitRuleName): RateLimitRule {
+  const rule: RateLimitRule = rateLimitRules[name];
+  const override = process.env[`RATE_LIMIT_${name.replace('.', '_').toUpperCase()}`];
+  const match = override ? /^(\d+)\/(\d+)$/.exec(override.trim()) : null;
+
+  return match
+    ? { ...rule, limit: parseInt(match[1]), windowMs: parseInt(match[2]) * 1000 }
+    : rule;
+}
+
+/**
+ * How many proxies in front of the app append to `X-Forwarded-For`, from
+ * `TRUSTED_PROXY_HOPS`. Throws when it is missing: per-IP rules could not
+ * tell clients apart then, and one client could use up a counter everyone
+ * shares. `instrumentation.ts` checks it when the server starts.
+ */
+export function getTrustedProxyHops(): number {
+  const value = (process.env.TRUSTED_PROXY_HOPS || '').trim();
+  const hops = /^\d+$/.test(value) ? parseInt(value) : 0;
+  if (hops < 1) {
+    throw new Error('TRUSTED_PROXY_HOPS must be the number of proxies in front of the app, e.g. 1');
+  }
+  return hops;
+}
+
+/**
+ * The client's address as seen by the closest trusted proxy. Clients can send
+ * any `X-Forwarded-For` they like, so only the entries appended by the
+ * `TRUSTED_PROXY_HOPS` proxies in front of the app count.
+ */
+export function getClientIp(request: NextRequest): string {
+  const hops = getTrustedProxyHops();
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(forwarded.length - hops, 0)] || 'unknown';
+}
+
+// Only authenticated users get a counter of their own, made-up credentials
+// cannot start fresh ones
+function getIdentity(request: NextRequest, by: RateLimitRule['by'], user?: { _id: unknown } | null): string {
+  if (by === 'client' && user) {
+    return `user:${user._id}`;
+  }
+  return `ip:${getClientIp(request)}`;
+}
+
+/**
+ * Count the request against a rule, after `authorize` so `client` rules can
+ * count per user. Returns the 429 response to send when the client is over
+ * the limit, or null to let the request through.
+ */
+export async function rateLimit(
+  request: NextRequest,
+  name: RateLimitRuleName,
+  user?: { _id: unknown } | null
+): Promise<NextResponse | null> {
+  const rule = getRule(name);
+  const { count, resetAt } = await getRateLimitStore().hit(
+    `${name}:${getIdentity(request, rule.by, user)}`,
+    rule.windowMs
+  );
+
+  if (count <= rule.limit) return null;
+
+  const retryAfter = Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+
+  return errorResponse('RATE_LIMITED', `Too many requests, try again in ${retryAfter} seconds`, {
+    headers: {
+      'Retry-After': String(retryAfter),
+      'X-RateLimit-Limit': String(rule.limit),
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': String(Math.ceil(resetAt.getTime() / 1000))
+    }
+  });
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { ApiError } from '@/lib/apiErrors';
+
+/**
+ * Read a body stream of at most `maxBytes`, counting the bytes as they come in
+ * so a body without `Content-Length` cannot run past the limit. Returns null,
+ * and stops reading, as soon as the body is too large.
+ */
+export async function readLimited(stream: ReadableStream<Uint8Array>, maxBytes: number): Promise<Blob | null> {
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = stream.getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return new Blob(chunks);
+}
+
+/**
+ * Parse a multipart body of at most `maxBytes`. `Content-Length` is checked
+ * up front, chunked uploads are cut off while they stream in.
+ * Throws a `PAYLOAD_TOO_LARGE` ApiError.
+ */
+export async function readFormData(request: NextRequest, maxBytes: number): Promise<FormData> {
+  const message = `Request body exceeds ${maxBytes / 1024 / 1024}MB`;
+
+  const contentLength = parseInt(request.headers.get('content-length') || '0');
+  if (contentLength > maxBytes) {
+    throw new ApiError('PAYLOAD_TOO_LARGE', message);
+  }
+
+  if (!request.body) {
+    return request.formData();
+  }
+
+  const body = await readLimited(request.body, maxBytes);
+  if (!body) {
+    throw new ApiError('PAYLOAD_TOO_LARGE', message);
+  }
+
+  // Let Response parse the multipart body, with the boundary from the original header
+  return new Response(body, {
+    headers: { 'content-type': request.headers.get('content-type') || '' }
+  }).formData();
+}
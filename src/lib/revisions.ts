@@ -0,0 +1,134 @@
+import { IProperty } from '@/models/Property';
+import { IUser } from '@/models/User';
+import { PropertyRevision, IPropertyRevision } from '@/models/PropertyRevision';
+import { object, objectId } from '@/lib/schema';
+import { PropertyFieldChange, PropertyRevisionAction } from '@/types';
+
+// Fields recorded in the revision history
+const trackedFields = [
+  'title',
+  'type',
+  'price',
+  'description',
+  'location',
+  'address',
+  'attributes',
+  'images',
+  'status',
+] as const;
+
+/**
+ * `RevertPropertyData`, the revision whose values the property goes back to
+ */
+export const revertSchema = object('RevertPropertyData', {
+  revisionId: objectId().required().label('Revision'),
+});
+
+// Fields a revert restores, images live in storage and status follows its own transitions
+export const revertableFields = [
+  'title',
+  'type',
+  'price',
+  'description',
+  'location',
+  'address',
+  'attributes',
+] as const;
+
+type PropertySnapshot = Partial<Record<typeof trackedFields[number], unknown>>;
+
+/**
+ * Capture the tracked fields of a property as plain JSON values
+ */
+export function snapshotProperty(property: IProperty): PropertySnapshot {
+  const plain = property.toObject({ depopulate: true });
+  const snapshot: PropertySnapshot = {};
+
+  for (const field of trackedFields) {
+    const value = plain[field];
+    snapshot[field] = value === undefined ? null : JSON.parse(JSON.stringify(value));
+  }
+
+  return snapshot;
+}
+
+/**
+ * Field-level differences between two snapshots
+ */
+export function diffSnapshots(before: PropertySnapshot, after: PropertySnapshot): PropertyFieldChange[] {
+  const changes: PropertyFieldChange[] = [];
+
+  for (const field of trackedFields) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Store a revision for a property. Updates that changed nothing are skipped.
+ */
+export async function recordRevision(options: {
+  property: IProperty;
+  action: PropertyRevisionAction;
+  changes: PropertyFieldChange[];
+  actor: IUser | null;
+  revertedTo?: IPropertyRevision['_id'];
+}): Promise<void> {
+  const { property, action, changes, actor, revertedTo } = options;
+
+  if (changes.length === 0 && (action === 'update' || action === 'images' || action === 'revert')) {
+    return;
+  }
+
+  await PropertyRevision.create({
+    property: property._id,
+    action,
+    changes,
+    actor: actor?._id ?? null,
+    revertedTo,
+  });
+}
+
+/**
+ * Values the revertable fields had right after `target` was recorded.
+ *
+ * For each field the earliest later revision that touched it holds the value
+ * at that point in its `from`; fields untouched since then keep their current
+ * value. This also works for listings created before history was recorded.
+ */
+export async function getValuesAtRevision(
+  property: IProperty,
+  target: IPropertyRevision
+): Promise<PropertySnapshot> {
+  const values: PropertySnapshot = {};
+  const current = snapshotProperty(property);
+  for (const field of revertableFields) {
+    values[field] = current[field];
+  }
+
+  const later: IPropertyRevision[] = await PropertyRevision.find({
+    property: property._id,
+    $or: [
+      { created_at: { $gt: target.created_at } },
+      { created_at: target.created_at, _id: { $gt: target._id } }
+    ]
+  }).sort({ created_at: 1, _id: 1 });
+
+  const resolved = new Set<string>();
+  for (const revision of later) {
+    for (const change of revision.changes) {
+      if (!(revertableFields as readonly string[]).includes(change.field) || resolved.has(change.field)) {
+        continue;
+      }
+      values[change.field as typeof revertableFields[number]] = change.from;
+      resolved.add(change.field);
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,106 @@
+import { ApiKeyScope, Permission, PropertyStatus, UserRole } from '@/types';
+
+export const userRoles: UserRole[] = ['admin', 'agent', 'viewer'];
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: 'Admin',
+  agent: 'Agent',
+  viewer: 'Viewer',
+};
+
+/**
+ * What each role may do. Signed-out visitors are guests; viewers browse, save
+ * searches, watch prices and book viewings, agents manage their own listings
+ * and admins manage everything.
+ */
+export const rolePermissions: Record<UserRole | 'guest', Permission[]> = {
+  guest: ['listings:read', 'session:manage'],
+  viewer: [
+    'listings:read',
+    'session:manage',
+    'account:read',
+    'savedSearches:manage',
+    'viewings:book',
+    'priceWatches:manage'
+  ],
+  agent: [
+    'listings:read',
+    'session:manage',
+    'account:read',
+    'savedSearches:manage',
+    'viewings:book',
+    'priceWatches:manage',
+    'listings:write',
+    'images:upload',
+    'apiKeys:manage',
+    'inquiries:manage',
+    'viewings:manage'
+  ],
+  admin: [
+    'listings:read',
+    'session:manage',
+    'account:read',
+    'savedSearches:manage',
+    'viewings:book',
+    'priceWatches:manage',
+    'listings:write',
+    'listings:moderate',
+    'images:upload',
+    'apiKeys:manage',
+    'propertyTypes:manage',
+    'seed:run',
+    'users:manage',
+    'listings:import',
+    'savedSearches:run',
+    'inquiries:manage',
+    'viewings:manage',
+  ],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (userRoles as string[]).includes(value);
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return rolePermissions[role || 'guest'].includes(permission);
+}
+
+/**
+ * Whether a user may change a listing: admins moderate every listing, agents
+ * only their own. Listings without an owner can only be changed by admins.
+ */
+export function canModifyProperty(
+  user: { _id: unknown; role: UserRole } | null | undefined,
+  property: { owner?: unknown }
+): boolean {
+  if (!user) return false;
+  if (hasPermission(user.role, 'listings:moderate')) return true;
+
+  return hasPermission(user.role, 'listings:write')
+    && !!property.owner
+    && String(property.owner) === String(user._id);
+}
+
+/**
+ * Whether a user may see a listing: published listings are public, other
+ * statuses only show to their owner and to moderators.
+ */
+export function canViewProperty(
+  user: { _id: unknown; role: UserRole } | null | undefined,
+  property: { owner?: unknown; status?: PropertyStatus | null }
+): boolean {
+  if (!property.status || property.status === 'published') return true;
+  if (!user) return false;
+  if (hasPermission(user.role, 'listings:moderate')) return true;
+
+  return !!property.owner && String(property.owner) === String(user._id);
+}
+
+// Permissions an API key can be granted, on top of what its owner's role allows
+export const apiKeyScopes: ApiKeyScope[] = ['listings:read', 'listings:write', 'images:upload'];
+
+export const apiKeyScopeLabels: Record<ApiKeyScope, string> = {
+  'listings:read': 'Read listings',
+  'listings:write': 'Write listings',
+  'images:upload': 'Upload images',
+};
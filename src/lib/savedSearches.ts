@@ -0,0 +1,279 @@
+import { Property } from '@/models/Property';
+import { ISavedSearch, SavedSearch } from '@/models/SavedSearch';
+import { IUser, User } from '@/models/User';
+import { buildPropertyFilter } from '@/lib/propertyQuery';
+import { FieldErrors, custom, object, string } from '@/lib/schema';
+import { Notification, Notifier, getNotifier } from '@/lib/notifier';
+import { SavedSearchParams, SavedSearchRunResult } from '@/types';
+
+export const MAX_SAVED_SEARCHES = 20;
+export const MAX_SAVED_SEARCH_NAME_LENGTH = 100;
+
+// Listings listed per search in a digest, the rest are only counted
+const MAX_DIGEST_LISTINGS = 10;
+
+const savedSearchFilters = ['type', 'minPrice', 'maxPrice', 'search', 'attributes'] as const;
+
+/**
+ * `CreateSavedSearchData`, the filters are checked with `parseSavedSearchParams`
+ */
+export const savedSearchSchema = object('CreateSavedSearchData', {
+  name: string({ maxLength: MAX_SAVED_SEARCH_NAME_LENGTH }).required(),
+  params: custom(parseParamsObject, 'must be an object', {
+    type: 'object',
+    description: 'Listing filters: type, minPrice, maxPrice, search and attributes.<key>.min|max'
+  }).default({}),
+});
+
+function parseParamsObject(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : null;
+}
+
+/**
+ * The filters as listing query parameters, attribute ranges become
+ * `attributes.<key>.min|max`
+ */
+export function toSearchParams(params: SavedSearchParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (key === 'attributes' && value && typeof value === 'object') {
+      for (const [attribute, range] of Object.entries(value as Record<string, Record<string, unknown>>)) {
+        for (const [bound, number] of Object.entries(range || {})) {
+          searchParams.set(`attributes.${attribute}.${bound}`, String(number));
+        }
+      }
+    } else if (value !== undefined && value !== null && value !== '') {
+      searchParams.set(key, String(value));
+    }
+  }
+  return searchParams;
+}
+
+/**
+ * Validate the filters of a saved search with the listing query schema.
+ * Errors are keyed `params.<name>`, the result only keeps the filters given.
+ */
+export function parseSavedSearchParams(
+  input: Record<string, unknown>
+): { params?: SavedSearchParams; errors?: FieldErrors } {
+  const errors: FieldErrors = {};
+  for (const key of Object.keys(input)) {
+    if (!(savedSearchFilters as readonly string[]).includes(key)) {
+      errors[`params.${key}`] = `Searches can only be saved with ${savedSearchFilters.join(', ')}`;
+    }
+  }
+  if (input.attributes !== undefined && !parseParamsObject(input.attributes)) {
+    errors['params.attributes'] = 'Attributes must be an object of { min, max } ranges';
+  }
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  const searchParams = toSearchParams(input as SavedSearchParams);
+  const { params: data, errors: filterErrors } = buildPropertyFilter(searchParams);
+  if (filterErrors || !data) {
+    return {
+      errors: Object.fromEntries(
+        Object.entries(filterErrors || {}).map(([key, message]) => [`params.${key}`, message])
+      )
+    };
+  }
+
+  // Attribute ranges were checked by the filter, they are stored as numbers
+  const attributes: NonNullable<SavedSearchParams['attributes']> = {};
+  for (const [param, value] of searchParams.entries()) {
+    const match = /^attributes\.([^.]+)\.(min|max)$/.exec(param);
+    if (match) {
+      attributes[match[1]] = { ...attributes[match[1]], [match[2]]: Number(value) };
+    }
+  }
+
+  const params: SavedSearchParams = {
+    type: data.type,
+    minPrice: data.minPrice,
+    maxPrice: data.maxPrice,
+    search: data.search,
+    attributes: Object.keys(attributes).length > 0 ? attributes : undefined
+  };
+
+  return {
+    params: Object.fromEntries(
+      Object.entries(params).filter(([, value]) => value !== undefined)
+    ) as SavedSearchParams
+  };
+}
+
+type MatchRow = { _id: unknown; title: string; price: number };
+
+interface SearchMatches {
+  search: ISavedSearch;
+  properties: MatchRow[];
+  total: number;
+}
+
+/**
+ * Published listings matching a saved search that are new since its last
+ * check: created in the window, or published in it after starting as drafts
+ */
+async function findNewMatches(search: ISavedSearch, until: Date): Promise<SearchMatches> {
+  const { query, errors } = buildPropertyFilter(toSearchParams(search.params));
+  if (errors) {
+    return { search, properties: [], total: 0 };
+  }
+
+  const window = { $gt: search.lastCheckedAt, $lte: until };
+  const newQuery = {
+    $and: [
+      query,
+      {
+        $or: [
+          { created_at: window },
+          { statusHistory: { $elemMatch: { to: 'published', changed_at: window } } }
+        ]
+      }
+    ]
+  };
+
+  const [properties, total] = await Promise.all([
+    Property.find(newQuery)
+      .select('title price')
+      .sort({ created_at: -1 })
+      .limit(MAX_DIGEST_LISTINGS)
+      .lean<MatchRow[]>(),
+    Property.countDocuments(newQuery)
+  ]);
+
+  return { search, properties, total };
+}
+
+function formatPrice(price: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0
+  }).format(price);
+}
+
+/**
+ * One digest per user, covering every saved search with new listings
+ */
+export function buildDigest(user: IUser, matches: SearchMatches[], origin: string): Notification {
+  const total = matches.reduce((sum, match) => sum + match.total, 0);
+  const listings = `${total} new listing${total === 1 ? '' : 's'}`;
+
+  const sections = matches.map(({ search, properties, total: searchTotal }) => {
+    const lines = properties.map(property =>
+      `- ${property.title}, ${formatPrice(property.price)}: ${origin}/${property._id}`
+    );
+    if (searchTotal > properties.length) {
+      lines.push(`- and ${searchTotal - properties.length} more`);
+    }
+    return `${search.name} (${searchTotal} new)\n${lines.join('\n')}`;
+  });
+
+  return {
+    to: { email: user.email, name: user.name },
+    subject: matches.length === 1
+      ? `${listings} for "${matches[0].search.name}"`
+      : `${listings} for your saved searches`,
+    text: `Hi ${user.name},\n\n${sections.join('\n\n')}\n`,
+    kind: 'savedSearchDigest',
+    data: {
+      searches: matches.map(({ search, properties, total: searchTotal }) => ({
+        id: String(search._id),
+        name: search.name,
+        total: searchTotal,
+        properties: properties.map(property => ({
+          id: String(property._id),
+          title: property.title,
+          price: property.price,
+          url: `${origin}/${property._id}`
+        }))
+      }))
+    }
+  };
+}
+
+/**
+ * Check every saved search for listings that are new since its last check
+ * and send each user a digest of their matches. A search only moves its
+ * check time forward once its digest was delivered, so failed deliveries
+ * are retried with the same listings on the next run.
+ */
+export async function runSavedSearches(options: {
+  origin: string;
+  notifier?: Notifier;
+  now?: Date;
+}): Promise<SavedSearchRunResult> {
+  const notifier = options.notifier || getNotifier();
+  const now = options.now || new Date();
+  const result: SavedSearchRunResult = { checked: 0, matched: 0, notified: 0, failed: 0 };
+
+  // A search that cannot be checked is left for the next run, the user's
+  // other searches still go out
+  const check = async (search: ISavedSearch): Promise<SearchMatches | null> => {
+    try {
+      return await findNewMatches(search, now);
+    } catch (error) {
+      console.error(`Error checking saved search ${search._id}:`, error);
+      result.failed++;
+      return null;
+    }
+  };
+
+  const deliver = async (userId: string, searches: ISavedSearch[]) => {
+    const matches = (await Promise.all(searches.map(check)))
+      .filter((match): match is SearchMatches => match !== null);
+    const withMatches = matches.filter(match => match.total > 0);
+    const withoutMatches = matches.filter(match => match.total === 0);
+
+    result.checked += matches.length;
+    result.matched += withMatches.reduce((sum, match) => sum + match.total, 0);
+
+    try {
+      if (withoutMatches.length > 0) {
+        await SavedSearch.updateMany(
+          { _id: { $in: withoutMatches.map(match => match.search._id) } },
+          { lastCheckedAt: now }
+        );
+      }
+      if (withMatches.length === 0) return;
+
+      // Searches of deleted users are skipped over
+      const user: IUser | null = await User.findById(userId);
+      if (user) {
+        await notifier.send(buildDigest(user, withMatches, options.origin));
+        result.notified++;
+      }
+      await SavedSearch.updateMany(
+        { _id: { $in: withMatches.map(match => match.search._id) } },
+        { lastCheckedAt: now, ...(user ? { lastNotifiedAt: now } : {}) }
+      );
+    } catch (error) {
+      console.error(`Error sending saved search digest to user ${userId}:`, error);
+      result.failed++;
+    }
+  };
+
+  // Searches come sorted by user, each user's digest is sent before moving on
+  const cursor = SavedSearch.find().sort({ user: 1, created_at: 1 }).cursor();
+  let userId: string | null = null;
+  let searches: ISavedSearch[] = [];
+
+  for await (const search of cursor) {
+    const owner = String(search.user);
+    if (userId && owner !== userId) {
+      await deliver(userId, searches);
+      searches = [];
+    }
+    userId = owner;
+    searches.push(search);
+  }
+  if (userId) {
+    await deliver(userId, searches);
+  }
+
+  return result;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  boolean,
+  custom,
+  list,
+  number,
+  object,
+  objectId,
+  oneOf,
+  partial,
+  string,
+  summarizeErrors,
+  validate
+} from '@/lib/schema';
+
+const listingSchema = object('Listing', {
+  title: string({ maxLength: 10 }).required(),
+  minPrice: number({ min: 0 }),
+  rooms: number({ integer: true }).default(1),
+  furnished: boolean(),
+  kind: oneOf(['flat', 'house'] as const).label('Type'),
+}, {
+  refine: (data, errors) => {
+    if (data.minPrice !== undefined && data.minPrice > 1000) {
+      errors.minPrice = 'Min price is too high';
+    }
+  }
+});
+
+describe('validate', () => {
+  it('parses and coerces valid input', () => {
+    expect(validate(listingSchema, { title: '  Loft ', minPrice: '250', furnished: 'true', kind: 'flat' })).toEqual({
+      data: { title: 'Loft', minPrice: 250, rooms: 1, furnished: true, kind: 'flat' }
+    });
+  });
+
+  it('reports missing required fields with a label made from the key', () => {
+    expect(validate(listingSchema, { title: ' ', minPrice: 'x' }).errors).toEqual({
+      title: 'Title is required',
+      minPrice: 'Min price must be a number'
+    });
+  });
+
+  it('uses custom labels', () => {
+    expect(validate(listingSchema, { title: 'Loft', kind: 'castle' }).errors).toEqual({
+      kind: 'Type must be one of: flat, house'
+    });
+  });
+
+  it('treats bodies that are not objects as empty', () => {
+    for (const body of [null, 'text', 42, ['title']]) {
+      expect(validate(listingSchema, body).errors).toEqual({ title: 'Title is required' });
+    }
+  });
+
+  it('runs refine only once the fields are valid', () => {
+    expect(validate(listingSchema, { title: 'Loft', minPrice: 5000 }).errors).toEqual({
+      minPrice: 'Min price is too high'
+    });
+    expect(validate(listingSchema, { minPrice: 5000 }).errors).toEqual({ title: 'Title is required' });
+  });
+});
+
+describe('partial', () => {
+  const updateSchema = partial(listingSchema, 'UpdateListing');
+
+  it('only checks the fields that are present', () => {
+    expect(validate(updateSchema, { minPrice: 10 })).toEqual({ data: { minPrice: 10 } });
+  });
+
+  it('rejects empty updates and emptied required fields', () => {
+    expect(validate(updateSchema, {}).errors).toEqual({ _: 'No fields to update' });
+    expect(validate(updateSchema, { title: '' }).errors).toEqual({ title: 'Title cannot be empty' });
+  });
+
+  it('clears optional fields set to null', () => {
+    const result = validate(updateSchema, { furnished: null });
+    expect(result.data).toHaveProperty('furnished', undefined);
+  });
+});
+
+describe('field builders', () => {
+  const check = (fields: Parameters<typeof object>[1], value: unknown) => validate(object('Check', fields), { value });
+
+  it('checks string lengths and patterns after trimming', () => {
+    expect(check({ value: string({ minLength: 3 }) }, ' ab ').errors).toEqual({ value: 'Value must be at least 3 characters' });
+    expect(check({ value: string({ pattern: /^\d+$/ }) }, '12a').errors).toEqual({ value: 'Value is not in the expected format' });
+    expect(check({ value: string() }, 12).errors).toEqual({ value: 'Value must be text' });
+  });
+
+  it('rejects partially numeric and non-finite numbers', () => {
+    for (const value of ['12abc', 'Infinity', true, {}]) {
+      expect(check({ value: number() }, value).errors).toEqual({ value: 'Value must be a number' });
+    }
+    expect(check({ value: number({ integer: true }) }, '1.5').errors).toEqual({ value: 'Value must be a whole number' });
+    expect(check({ value: number({ exclusiveMin: 0 }) }, 0).errors).toEqual({ value: 'Value must be greater than 0' });
+    expect(check({ value: number({ max: 5 }) }, '6').errors).toEqual({ value: 'Value must be at most 5' });
+  });
+
+  it('accepts ids of 24 hex characters only', () => {
+    expect(check({ value: objectId() }, '64b7f0c2a1e4c3b2a1d0e9f8').data).toEqual({ value: '64b7f0c2a1e4c3b2a1d0e9f8' });
+    expect(check({ value: objectId() }, { $ne: null }).errors).toEqual({ value: 'Value must be a valid id' });
+  });
+
+  it('parses lists from arrays and comma-separated text', () => {
+    const field = list(oneOf(['a', 'b'] as const), { maxItems: 2 });
+    expect(check({ value: field }, 'a, b').data).toEqual({ value: ['a', 'b'] });
+    expect(check({ value: field }, ['a', 'c']).errors).toEqual({ value: 'Value must be one of: a, b' });
+    expect(check({ value: field }, 'a,b,a').errors).toEqual({ value: 'Value can have at most 2 values' });
+  });
+
+  it('runs custom parsers', () => {
+    const even = custom(value => (typeof value === 'number' && value % 2 === 0 ? value : null), 'must be even', { type: 'integer' });
+    expect(check({ value: even }, 4).data).toEqual({ value: 4 });
+    expect(check({ value: even }, 3).errors).toEqual({ value: 'Value must be even' });
+  });
+});
+
+describe('summarizeErrors', () => {
+  it('joins field errors into one line', () => {
+    expect(summarizeErrors({ _: 'No fields to update', price: 'must be a number' }))
+      .toBe('No fields to update, price (must be a number)');
+  });
+});
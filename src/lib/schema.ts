@@ -0,0 +1,282 @@
+/**
+ * A small declarative validation library shared by the route handlers and the
+ * client forms. Fields parse and coerce raw values (JSON bodies, query strings
+ * or form inputs) and describe themselves so the schemas can be documented.
+ */
+
+export type FieldErrors = Record<string, string>;
+
+export interface FieldMeta {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  format?: string;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: FieldMeta;
+  description?: string;
+  // Documented component schema the value follows, e.g. 'GeoPoint'
+  ref?: string;
+}
+
+type ParseOutcome<V> = { value: V; error?: undefined } | { value?: undefined; error: string };
+type Parser<V> = (value: unknown, label: string) => ParseOutcome<V>;
+
+/**
+ * A single field. `V` is the parsed value, `O` whether the field is optional.
+ * Builders return optional fields, chain `.required()` or `.default()` to change that.
+ */
+export class Field<V, O extends boolean = true> {
+  constructor(
+    readonly parser: Parser<V>,
+    readonly meta: FieldMeta,
+    readonly isRequired: boolean = false,
+    readonly defaultValue?: V,
+    readonly customLabel?: string
+  ) {}
+
+  required(): Field<V, false> {
+    return new Field<V, false>(this.parser, this.meta, true, undefined, this.customLabel);
+  }
+
+  /** Value used when the field is missing */
+  default(value: V): Field<V, false> {
+    return new Field<V, false>(this.parser, this.meta, false, value, this.customLabel);
+  }
+
+  label(label: string): Field<V, O> {
+    return new Field<V, O>(this.parser, this.meta, this.isRequired, this.defaultValue, label);
+  }
+
+  describe(description: string): Field<V, O> {
+    return new Field<V, O>(this.parser, { ...this.meta, description }, this.isRequired, this.defaultValue, this.customLabel);
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyField = Field<any, boolean>;
+type FieldMap = Record<string, AnyField>;
+
+export type Infer<F extends FieldMap> = {
+  [K in keyof F]: F[K] extends Field<infer V, infer O> ? (O extends true ? V | undefined : V) : never;
+};
+
+export interface ObjectSchema<F extends FieldMap, P extends boolean = false> {
+  name: string;
+  fields: F;
+  partial: P;
+  refine?: (data: Partial<Infer<F>>, errors: FieldErrors) => void;
+}
+
+export type SchemaData<S> = S extends ObjectSchema<infer F, infer P>
+  ? (P extends true ? Partial<Infer<F>> : Infer<F>)
+  : never;
+
+export interface ValidationResult<T> {
+  data?: T;
+  errors?: FieldErrors;
+}
+
+/**
+ * Declare an object schema. `refine` runs after every field parsed and can add
+ * errors for rules spanning several fields.
+ */
+export function object<F extends FieldMap>(
+  name: string,
+  fields: F,
+  options: { refine?: ObjectSchema<F>['refine'] } = {}
+): ObjectSchema<F> {
+  return { name, fields, partial: false, refine: options.refine };
+}
+
+/**
+ * The same schema for partial updates: only fields present in the input are
+ * checked, required ones cannot be emptied and `null` clears optional ones.
+ */
+export function partial<F extends FieldMap>(schema: ObjectSchema<F, boolean>, name: string): ObjectSchema<F, true> {
+  return { ...schema, name, partial: true };
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+// "minPrice" becomes "Min price"
+function labelFor(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Validate input against a schema. Returns the parsed data, or `errors` keyed
+ * by field name. Anything but an object, e.g. a `null` JSON body, counts as
+ * an empty object.
+ */
+export function validate<F extends FieldMap, P extends boolean>(
+  schema: ObjectSchema<F, P>,
+  body: unknown
+): ValidationResult<P extends true ? Partial<Infer<F>> : Infer<F>> {
+  const errors: FieldErrors = {};
+  const data: Record<string, unknown> = {};
+  const input: Record<string, unknown> = body && typeof body === 'object' && !Array.isArray(body)
+    ? body as Record<string, unknown>
+    : {};
+
+  if (schema.partial && Object.keys(schema.fields).every(key => input[key] === undefined)) {
+    return { errors: { _: 'No fields to update' } };
+  }
+
+  for (const [key, field] of Object.entries(schema.fields)) {
+    const raw = input[key];
+    const label = field.customLabel || labelFor(key);
+
+    // Partial updates leave absent fields untouched
+    if (schema.partial && raw === undefined) continue;
+
+    if (isMissing(raw)) {
+      if (field.isRequired) {
+        errors[key] = schema.partial ? `${label} cannot be empty` : `${label} is required`;
+      } else {
+        // Missing or cleared fields fall back to their default, an undefined
+        // value unsets the field when applied to a document
+        data[key] = field.defaultValue;
+      }
+      continue;
+    }
+
+    const outcome = field.parser(raw, label);
+    if (outcome.error !== undefined) {
+      errors[key] = outcome.error;
+    } else {
+      data[key] = outcome.value;
+    }
+  }
+
+  if (Object.keys(errors).length === 0) {
+    schema.refine?.(data as Partial<Infer<F>>, errors);
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return { data: data as P extends true ? Partial<Infer<F>> : Infer<F> };
+}
+
+/**
+ * One line summary of field errors, for places that only show a message
+ */
+export function summarizeErrors(errors: FieldErrors): string {
+  return Object.entries(errors)
+    .map(([key, message]) => (key === '_' ? message : `${key} (${message})`))
+    .join(', ');
+}
+
+// Field builders
+
+export function string(options: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}): Field<string> {
+  const { minLength, maxLength, pattern } = options;
+
+  return new Field<string>((value, label) => {
+    if (typeof value !== 'string') return { error: `${label} must be text` };
+
+    const text = value.trim();
+    if (minLength !== undefined && text.length < minLength) {
+      return { error: `${label} must be at least ${minLength} characters` };
+    }
+    if (maxLength !== undefined && text.length > maxLength) {
+      return { error: `${label} must be at most ${maxLength} characters` };
+    }
+    if (pattern && !pattern.test(text)) {
+      return { error: `${label} is not in the expected format` };
+    }
+    return { value: text };
+  }, { type: 'string', minLength, maxLength, pattern: pattern?.source });
+}
+
+/**
+ * Numbers, also accepted as numeric strings from query strings and form inputs.
+ * Partially numeric strings such as "12abc" are rejected.
+ */
+export function number(
+  options: { min?: number; max?: number; exclusiveMin?: number; integer?: boolean } = {}
+): Field<number> {
+  const { min, max, exclusiveMin, integer = false } = options;
+
+  return new Field<number>((value, label) => {
+    const parsed = typeof value === 'number'
+      ? value
+      : typeof value === 'string' ? Number(value.trim()) : NaN;
+
+    if (!Number.isFinite(parsed)) return { error: `${label} must be a number` };
+    if (integer && !Number.isInteger(parsed)) return { error: `${label} must be a whole number` };
+    if (min !== undefined && parsed < min) return { error: `${label} must be at least ${min}` };
+    if (exclusiveMin !== undefined && parsed <= exclusiveMin) {
+      return { error: `${label} must be greater than ${exclusiveMin}` };
+    }
+    if (max !== undefined && parsed > max) return { error: `${label} must be at most ${max}` };
+    return { value: parsed };
+  }, { type: integer ? 'integer' : 'number', minimum: min, maximum: max, exclusiveMinimum: exclusiveMin });
+}
+
+export function boolean(): Field<boolean> {
+  return new Field<boolean>((value, label) => {
+    if (value === true || value === 'true') return { value: true };
+    if (value === false || value === 'false') return { value: false };
+    return { error: `${label} must be true or false` };
+  }, { type: 'boolean' });
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Field<T> {
+  return new Field<T>((value, label) => {
+    return typeof value === 'string' && (values as readonly string[]).includes(value)
+      ? { value: value as T }
+      : { error: `${label} must be one of: ${values.join(', ')}` };
+  }, { type: 'string', enum: values });
+}
+
+const OBJECT_ID_PATTERN = /^[a-f\d]{24}$/i;
+
+export function objectId(): Field<string> {
+  return new Field<string>((value, label) => {
+    return typeof value === 'string' && OBJECT_ID_PATTERN.test(value)
+      ? { value }
+      : { error: `${label} must be a valid id` };
+  }, { type: 'string', pattern: OBJECT_ID_PATTERN.source });
+}
+
+/**
+ * A list given as an array or, in query strings, as comma-separated values
+ */
+export function list<V>(item: Field<V, boolean>, options: { maxItems?: number } = {}): Field<V[]> {
+  return new Field<V[]>((value, label) => {
+    const entries = Array.isArray(value)
+      ? value
+      : typeof value === 'string' ? value.split(',').map(entry => entry.trim()) : null;
+    if (!entries) return { error: `${label} must be a list` };
+    if (options.maxItems !== undefined && entries.length > options.maxItems) {
+      return { error: `${label} can have at most ${options.maxItems} values` };
+    }
+
+    const values: V[] = [];
+    for (const entry of entries) {
+      const outcome = item.parser(entry, label);
+      if (outcome.error !== undefined) return { error: outcome.error };
+      values.push(outcome.value);
+    }
+    return { value: values };
+  }, { type: 'array', items: item.meta });
+}
+
+/**
+ * A field with its own parser, returning null for invalid values
+ */
+export function custom<V>(parse: (value: unknown) => V | null, message: string, meta: FieldMeta): Field<V> {
+  return new Field<V>((value, label) => {
+    const parsed = parse(value);
+    return parsed === null ? { error: `${label} ${message}` } : { value: parsed };
+  }, meta);
+}
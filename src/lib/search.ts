@@ -0,0 +1,104 @@
+import { SearchHighlight } from '@/types';
+
+const MAX_SEARCH_LENGTH = 200;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Normalize user input for a MongoDB `$text` search.
+ * Quotes, leading hyphens and backslashes carry meaning for `$text` (phrases
+ * and negation), so they are stripped to keep every word a plain term.
+ * Returns null when nothing searchable is left.
+ */
+export function normalizeSearchTerm(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+
+  const term = raw
+    .slice(0, MAX_SEARCH_LENGTH)
+    .replace(/["\\]/g, ' ')
+    .split(/\s+/)
+    .map(word => word.replace(/^-+/, ''))
+    .filter(Boolean)
+    .join(' ');
+
+  return term || null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a regex matching words that start with any of the search terms.
+ * `$text` matches on stems, so a trailing plural "s"/"es" is dropped to also
+ * highlight "house" when searching for "houses".
+ */
+function buildTermPattern(term: string): RegExp | null {
+  const stems = term
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(word => word.length >= 2)
+    .map(word => (word.length > 4 ? word.replace(/(es|s)$/, '') : word));
+
+  if (stems.length === 0) return null;
+
+  const alternatives = [...new Set(stems)].map(escapeRegExp).join('|');
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})[\\p{L}\\p{N}]*`, 'giu');
+}
+
+function findMatches(text: string, pattern: RegExp): SearchHighlight['matches'] {
+  const matches: SearchHighlight['matches'] = [];
+  for (const match of text.matchAll(pattern)) {
+    matches.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return matches;
+}
+
+/**
+ * Highlight the search terms in a title and a snippet of the description.
+ * Offsets are relative to the returned `text`, which for the description is a
+ * window of roughly `SNIPPET_LENGTH` characters around the first match.
+ */
+export function buildSearchHighlights(
+  property: { title: string; description: string },
+  term: string
+): { title?: SearchHighlight; description?: SearchHighlight } {
+  const pattern = buildTermPattern(term);
+  if (!pattern) return {};
+
+  const highlights: { title?: SearchHighlight; description?: SearchHighlight } = {};
+
+  const titleMatches = findMatches(property.title, pattern);
+  if (titleMatches.length > 0) {
+    highlights.title = { text: property.title, matches: titleMatches };
+  }
+
+  const descriptionMatches = findMatches(property.description, pattern);
+  if (descriptionMatches.length > 0) {
+    const firstMatch = descriptionMatches[0];
+    let start = Math.max(0, firstMatch.start - SNIPPET_LENGTH / 4);
+    const end = Math.min(property.description.length, start + SNIPPET_LENGTH);
+    start = Math.max(0, end - SNIPPET_LENGTH);
+
+    // Avoid cutting a word in half at the start of the snippet
+    if (start > 0) {
+      const nextSpace = property.description.indexOf(' ', start);
+      if (nextSpace !== -1 && nextSpace < firstMatch.start) {
+        start = nextSpace + 1;
+      }
+    }
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < property.description.length ? '…' : '';
+    const offset = prefix.length - start;
+
+    highlights.description = {
+      text: `${prefix}${property.description.slice(start, end)}${suffix}`,
+      matches: descriptionMatches
+        .filter(match => match.start >= start && match.end <= end)
+        .map(match => ({ start: match.start + offset, end: match.end + offset }))
+    };
+  }
+
+  return highlights;
+}
@@ -0,0 +1,208 @@
+import { randomBytes } from 'crypto';
+import { CalendarEvent, ICS_CONTENT_TYPE, renderCalendar } from '@/lib/ical';
+import { getNotifier } from '@/lib/notifier';
+import { hasPermission } from '@/lib/roles';
+import { custom, object, objectId, oneOf, string } from '@/lib/schema';
+import { IProperty, Property } from '@/models/Property';
+import { IUser, User } from '@/models/User';
+import { IViewing, Viewing } from '@/models/Viewing';
+import { PropertyAddress, Viewing as ViewingInfo } from '@/types';
+
+export const MIN_SLOT_MINUTES = 15;
+export const MAX_SLOT_MINUTES = 4 * 60;
+
+// Slots listed per listing, in order of their start
+export const MAX_UPCOMING_SLOTS = 100;
+
+// Past viewings stay in the calendar feed for a month
+const FEED_HISTORY_MS = 30 * 24 * 60 * 60 * 1000;
+
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,30}$/;
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+const dateTime = () => custom(parseDate, 'must be a date and time', { type: 'string', format: 'date-time' });
+
+/**
+ * `CreateViewingSlotData`, a slot starts in the future and lasts between
+ * `MIN_SLOT_MINUTES` and `MAX_SLOT_MINUTES`
+ */
+export const viewingSlotSchema = object('CreateViewingSlotData', {
+  start: dateTime().required(),
+  end: dateTime().required(),
+}, {
+  refine: (data, errors) => {
+    if (data.start && data.start.getTime() <= Date.now()) {
+      errors.start = 'Start must be in the future';
+    }
+    if (data.start && data.end) {
+      const minutes = (data.end.getTime() - data.start.getTime()) / 60000;
+      if (minutes < MIN_SLOT_MINUTES || minutes > MAX_SLOT_MINUTES) {
+        errors.end = `A slot lasts between ${MIN_SLOT_MINUTES} minutes and ${MAX_SLOT_MINUTES / 60} hours`;
+      }
+    }
+  }
+});
+
+/**
+ * `BookViewingData`, the booking is made under the signed-in user's name and email
+ */
+export const bookViewingSchema = object('BookViewingData', {
+  slot: objectId().required().label('Slot'),
+  phone: string({ maxLength: 30, pattern: PHONE_PATTERN }),
+});
+
+export const viewingQuerySchema = object('ViewingQueryParams', {
+  scope: oneOf(['upcoming', 'past'] as const).default('upcoming'),
+});
+
+export function generateCalendarToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Subscription URL of a host's viewing calendar, the `.ics` suffix helps
+ * calendar apps recognise it
+ */
+export function calendarFeedUrl(token: string, origin: string): string {
+  return `${origin}/api/viewings/calendar/${token}.ics`;
+}
+
+/**
+ * A viewing the user booked or hosts, any viewing for admins. Other
+ * viewings are reported as missing.
+ */
+export async function findUserViewing(user: IUser, id: string): Promise<IViewing | null> {
+  return hasPermission(user.role, 'listings:moderate')
+    ? Viewing.findById(id)
+    : Viewing.findOne({ _id: id, $or: [{ user: user._id }, { host: user._id }] });
+}
+
+/**
+ * The API shape of a viewing, `isHost` tells hosts from the people who booked
+ */
+export function toViewingInfo(viewing: IViewing, userId: unknown): ViewingInfo {
+  const property = viewing.property as unknown as { _id: unknown; title?: string };
+  return {
+    _id: String(viewing._id),
+    slot: String(viewing.slot),
+    property: property?.title !== undefined
+      ? { _id: String(property._id), title: property.title }
+      : String(viewing.property),
+    start: viewing.start,
+    end: viewing.end,
+    name: viewing.name,
+    email: viewing.email,
+    phone: viewing.phone,
+    status: viewing.status,
+    isHost: String(viewing.host) === String(userId),
+    cancelled_at: viewing.cancelled_at,
+    created_at: viewing.created_at
+  };
+}
+
+function formatAddress(address?: PropertyAddress): string {
+  if (!address) return '';
+  return [address.street, address.city, address.state, address.postalCode, address.country]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Calendar event of a viewing. The UID stays the same across changes, so
+ * calendars update the event in place when the SEQUENCE goes up.
+ */
+export function toCalendarEvent(
+  viewing: IViewing,
+  property: Pick<IProperty, '_id' | 'title' | 'address'>,
+  host: Pick<IUser, 'name' | 'email'> | null,
+  origin: string
+): CalendarEvent {
+  const url = `${origin}/${property._id}`;
+  const contact = [viewing.name, viewing.email, viewing.phone].filter(Boolean).join(', ');
+
+  return {
+    uid: `viewing-${viewing._id}@${new URL(origin).host}`,
+    sequence: viewing.sequence,
+    start: viewing.start,
+    end: viewing.end,
+    stamp: viewing.cancelled_at || viewing.created_at,
+    summary: `Viewing: ${property.title}`,
+    description: `Viewing of ${property.title} booked by ${contact}\n${url}`,
+    location: formatAddress(property.address) || undefined,
+    url,
+    status: viewing.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    organizer: host ? { name: host.name, email: host.email } : undefined,
+    attendee: { name: viewing.name, email: viewing.email }
+  };
+}
+
+/**
+ * Tell the person who booked and the host that a viewing was booked or
+ * cancelled, each with the viewing attached as an `.ics` invitation
+ */
+export async function notifyViewing(viewing: IViewing, origin: string): Promise<void> {
+  try {
+    const [property, host]: [IProperty | null, IUser | null] = await Promise.all([
+      Property.findById(viewing.property),
+      User.findById(viewing.host)
+    ]);
+    if (!property) return;
+
+    const cancelled = viewing.status === 'cancelled';
+    const event = toCalendarEvent(viewing, property, host, origin);
+    const attachment = {
+      filename: 'viewing.ics',
+      contentType: `${ICS_CONTENT_TYPE}; method=${cancelled ? 'CANCEL' : 'REQUEST'}`,
+      content: renderCalendar({ method: cancelled ? 'CANCEL' : 'REQUEST', events: [event] })
+    };
+    const when = viewing.start.toUTCString();
+    const subject = cancelled
+      ? `Viewing of "${property.title}" cancelled`
+      : `Viewing of "${property.title}" booked`;
+    const data = { viewingId: String(viewing._id), propertyId: String(property._id) };
+
+    const recipients = [
+      {
+        to: { email: viewing.email, name: viewing.name },
+        text: cancelled
+          ? `Your viewing of ${property.title} on ${when} was cancelled.\n\n${origin}/${property._id}\n`
+          : `Your viewing of ${property.title} is booked for ${when}.\n\n${origin}/${property._id}\n`
+      },
+      ...(host ? [{
+        to: { email: host.email, name: host.name },
+        text: cancelled
+          ? `The viewing of ${property.title} on ${when} with ${viewing.name} was cancelled.\n\n${origin}/viewings\n`
+          : `${viewing.name} (${[viewing.email, viewing.phone].filter(Boolean).join(', ')}) booked a viewing `
+            + `of ${property.title} for ${when}.\n\n${origin}/viewings\n`
+      }] : [])
+    ];
+
+    const notifier = getNotifier();
+    const results = await Promise.allSettled(recipients.map(recipient => notifier.send({
+      ...recipient,
+      subject,
+      kind: cancelled ? 'viewingCancelled' : 'viewingBooked',
+      data,
+      attachments: [attachment]
+    })));
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        console.error('Error sending viewing notification:', result.reason);
+      }
+    }
+  } catch (error) {
+    console.error('Error notifying viewing:', error);
+  }
+}
+
+/**
+ * Earliest end of the viewings listed in a host's calendar feed
+ */
+export function feedHistoryStart(now: Date = new Date()): Date {
+  return new Date(now.getTime() - FEED_HISTORY_MS);
+}
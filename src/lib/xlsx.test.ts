@@ -0,0 +1,91 @@
+import { inflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { CellValue, writeXlsx } from '@/lib/xlsx';
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  yield* items;
+}
+
+async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Buffer> {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  return Buffer.concat(parts);
+}
+
+// Bitwise CRC-32, independent of the table the writer uses
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Read every entry through the central directory, the way spreadsheet apps do
+function unzip(zip: Buffer): Map<string, Buffer> {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+
+  const files = new Map<string, Buffer>();
+  let record = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    expect(zip.readUInt32LE(record)).toBe(0x02014b50);
+    const method = zip.readUInt16LE(record + 10);
+    const crc = zip.readUInt32LE(record + 16);
+    const compressedSize = zip.readUInt32LE(record + 20);
+    const size = zip.readUInt32LE(record + 24);
+    const nameLength = zip.readUInt16LE(record + 28);
+    const offset = zip.readUInt32LE(record + 42);
+    const name = zip.toString('utf8', record + 46, record + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const start = offset + 30 + zip.readUInt16LE(offset + 26);
+    const raw = zip.subarray(start, start + compressedSize);
+    const data = method === 8 ? inflateRawSync(raw) : raw;
+
+    expect(data.length).toBe(size);
+    expect(crc32(data)).toBe(crc);
+    files.set(name, data);
+    record += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('writeXlsx', () => {
+  it('writes a workbook whose entries match their directory records', async () => {
+    const rows: CellValue[][] = [['Loft', 250000, true], ['Villa', null, false]];
+    const files = unzip(await collect(writeXlsx(['Title', 'Price', 'Featured'], fromArray(rows), 'Listings')));
+
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml'
+    ]);
+    expect(files.get('xl/workbook.xml')!.toString()).toContain('<sheet name="Listings"');
+
+    const sheet = files.get('xl/worksheets/sheet1.xml')!.toString();
+    expect(sheet).toContain('<row><c t="inlineStr"><is><t xml:space="preserve">Title</t></is></c>');
+    expect(sheet).toContain('<c><v>250000</v></c><c t="b"><v>1</v></c></row>');
+    expect(sheet).toContain('<t xml:space="preserve">Villa</t></is></c><c/><c t="b"><v>0</v></c></row>');
+  });
+
+  it('escapes text cells and the sheet name', async () => {
+    const files = unzip(await collect(writeXlsx(['A'], fromArray([['<b> & "c"']]), 'R&D')));
+
+    expect(files.get('xl/workbook.xml')!.toString()).toContain('name="R&amp;D"');
+    expect(files.get('xl/worksheets/sheet1.xml')!.toString()).not.toContain('<b>');
+  });
+
+  it('streams large sheets in several chunks', async () => {
+    const rows = Array.from({ length: 5000 }, (_, i) => [`Listing ${i}`, Math.random() * 1e6]);
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of writeXlsx(['Title', 'Price'], fromArray(rows))) chunks.push(chunk);
+
+    expect(chunks.length).toBeGreaterThan(7);
+    const sheet = unzip(Buffer.concat(chunks)).get('xl/worksheets/sheet1.xml')!.toString();
+    expect(sheet.match(/<row>/g)).toHaveLength(5001);
+  });
+});
@@ -0,0 +1,248 @@
+import { createDeflateRaw } from 'zlib';
+import { escapeXml } from '@/lib/xml';
+
+export type CellValue = string | number | boolean | null | undefined;
+
+const encoder = new TextEncoder();
+
+// Fixed parts of a workbook with a single sheet
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+</Relationships>`;
+
+function workbookXml(sheetName: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array, crc = 0): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// Strings are written inline, a shared string table would have to be
+// complete before the sheet could be streamed
+function rowXml(values: CellValue[]): string {
+  const cells = values.map(value => {
+    if (value === null || value === undefined || value === '') return '<c/>';
+    if (typeof value === 'number' && Number.isFinite(value)) return `<c><v>${value}</v></c>`;
+    if (typeof value === 'boolean') return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+    return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  });
+  return `<row>${cells.join('')}</row>`;
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  method: number;
+  flags: number;
+}
+
+// DOS date and time of the entries
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Minimal ZIP writer for the workbook parts. Small parts are stored as they
+ * are, the sheet is deflated while it is written and its CRC and sizes follow
+ * in a data descriptor.
+ */
+class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private modified = dosDateTime(new Date());
+
+  private chunk(bytes: Uint8Array): Uint8Array {
+    this.offset += bytes.length;
+    return bytes;
+  }
+
+  private localHeader(entry: ZipEntry): Uint8Array {
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, entry.flags, true);
+    header.setUint16(8, entry.method, true);
+    header.setUint16(10, this.modified.time, true);
+    header.setUint16(12, this.modified.date, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.compressedSize, true);
+    header.setUint32(22, entry.size, true);
+    header.setUint16(26, entry.name.length, true);
+    return concat(new Uint8Array(header.buffer), entry.name);
+  }
+
+  /** Stored entry of a part that is already in memory */
+  file(name: string, content: string): Uint8Array {
+    const data = encoder.encode(content);
+    const entry: ZipEntry = {
+      name: encoder.encode(name),
+      offset: this.offset,
+      crc: crc32(data),
+      compressedSize: data.length,
+      size: data.length,
+      method: 0,
+      flags: 0x0800
+    };
+    this.entries.push(entry);
+    return this.chunk(concat(this.localHeader(entry), data));
+  }
+
+  /** Deflated entry written from chunks as they are produced */
+  async *stream(name: string, content: AsyncIterable<string>): AsyncGenerator<Uint8Array> {
+    const entry: ZipEntry = {
+      name: encoder.encode(name),
+      offset: this.offset,
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      method: 8,
+      flags: 0x0808
+    };
+    this.entries.push(entry);
+    yield this.chunk(this.localHeader(entry));
+
+    const deflate = createDeflateRaw();
+
+    // Feed the deflater while its output is read below. Each write waits for
+    // the deflater, and fails once it is destroyed by an aborted download.
+    const feeding = (async () => {
+      try {
+        for await (const text of content) {
+          const data = encoder.encode(text);
+          entry.crc = crc32(data, entry.crc);
+          entry.size += data.length;
+          await new Promise<void>((resolve, reject) => {
+            deflate.write(data, error => error ? reject(error) : resolve());
+          });
+        }
+        deflate.end();
+      } catch (error) {
+        deflate.destroy(error as Error);
+      }
+    })();
+
+    try {
+      for await (const compressed of deflate) {
+        entry.compressedSize += compressed.length;
+        yield this.chunk(new Uint8Array(compressed));
+      }
+    } finally {
+      deflate.destroy();
+      await feeding;
+    }
+
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, 0x08074b50, true);
+    descriptor.setUint32(4, entry.crc, true);
+    descriptor.setUint32(8, entry.compressedSize, true);
+    descriptor.setUint32(12, entry.size, true);
+    yield this.chunk(new Uint8Array(descriptor.buffer));
+  }
+
+  /** Central directory and end record, written after every entry */
+  finish(): Uint8Array {
+    const start = this.offset;
+    const records = this.entries.map(entry => {
+      const record = new DataView(new ArrayBuffer(46));
+      record.setUint32(0, 0x02014b50, true);
+      record.setUint16(4, 20, true);
+      record.setUint16(6, 20, true);
+      record.setUint16(8, entry.flags, true);
+      record.setUint16(10, entry.method, true);
+      record.setUint16(12, this.modified.time, true);
+      record.setUint16(14, this.modified.date, true);
+      record.setUint32(16, entry.crc, true);
+      record.setUint32(20, entry.compressedSize, true);
+      record.setUint32(24, entry.size, true);
+      record.setUint16(28, entry.name.length, true);
+      record.setUint32(42, entry.offset, true);
+      return concat(new Uint8Array(record.buffer), entry.name);
+    });
+    const directory = concat(...records);
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directory.length, true);
+    end.setUint32(16, start, true);
+
+    return this.chunk(concat(directory, new Uint8Array(end.buffer)));
+  }
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Write a single-sheet XLSX workbook with a header row, reading the rows as
+ * they are needed so large sheets are never held in memory
+ */
+export async function* writeXlsx(
+  columns: string[],
+  rows: AsyncIterable<CellValue[]>,
+  sheetName = 'Sheet1'
+): AsyncGenerator<Uint8Array> {
+  const zip = new ZipWriter();
+
+  yield zip.file('[Content_Types].xml', CONTENT_TYPES);
+  yield zip.file('_rels/.rels', ROOT_RELS);
+  yield zip.file('xl/workbook.xml', workbookXml(sheetName));
+  yield zip.file('xl/_rels/workbook.xml.rels', WORKBOOK_RELS);
+
+  async function* sheet(): AsyncGenerator<string> {
+    yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>';
+    yield rowXml(columns);
+    for await (const row of rows) {
+      yield rowXml(row);
+    }
+    yield '</sheetData></worksheet>';
+  }
+
+  yield* zip.stream('xl/worksheets/sheet1.xml', sheet());
+  yield zip.finish();
+}
@@ -0,0 +1,12 @@
+/**
+ * Escape text for XML content and attribute values. Characters outside the
+ * XML 1.0 range are dropped, they make the whole document unreadable.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
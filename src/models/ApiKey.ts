@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { apiKeyScopes } from '@/lib/roles';
+import { ApiKeyScope } from '@/types';
+
+export interface IApiKey extends Document {
+  name: string;
+  keyId: string; // Random, shown to identify the key
+  keyHash: string; // SHA-256 of the key's secret
+  scopes: ApiKeyScope[];
+  user: mongoose.Types.ObjectId; // Requests made with the key act as this user
+  lastUsedAt: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  keyId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  scopes: {
+    type: [{ type: String, enum: apiKeyScopes }],
+    default: []
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  },
+  revoked_at: {
+    type: Date,
+    default: null
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Create indexes
+ApiKeySchema.index({ user: 1, created_at: -1 });
+
+export const ApiKey = mongoose.models.ApiKey || mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
@@ -0,0 +1,113 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ImportFormat, ImportImageError, ImportJobStatus, ImportRowError } from '@/types';
+
+export interface IImportJob extends Document {
+  fileName: string;
+  format: ImportFormat;
+  status: ImportJobStatus;
+  fetchImages: boolean;
+  publish: boolean;
+  total: number; // Valid rows to import
+  processed: number;
+  created: number;
+  failed: number;
+  imagesFetched: number;
+  rowErrors: ImportRowError[]; // Rows skipped by validation or that failed to save
+  imageErrors: ImportImageError[];
+  error: string | null; // Set when the job as a whole failed
+  user: mongoose.Types.ObjectId;
+  created_at: Date;
+  finished_at: Date | null;
+}
+
+const RowErrorSchema = new Schema<ImportRowError>({
+  row: { type: Number, required: true },
+  errors: { type: Schema.Types.Mixed, required: true }
+}, {
+  _id: false,
+  // `errors` mirrors the 422 responses, the subdocuments never use Mongoose's own
+  suppressReservedKeysWarning: true
+});
+
+const ImageErrorSchema = new Schema<ImportImageError>({
+  row: { type: Number, required: true },
+  url: { type: String, required: true },
+  error: { type: String, required: true }
+}, {
+  _id: false
+});
+
+const ImportJobSchema = new Schema<IImportJob>({
+  fileName: {
+    type: String,
+    required: true
+  },
+  format: {
+    type: String,
+    enum: ['csv', 'json'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'failed'],
+    default: 'running'
+  },
+  fetchImages: {
+    type: Boolean,
+    default: false
+  },
+  publish: {
+    type: Boolean,
+    default: false
+  },
+  total: {
+    type: Number,
+    default: 0
+  },
+  processed: {
+    type: Number,
+    default: 0
+  },
+  created: {
+    type: Number,
+    default: 0
+  },
+  failed: {
+    type: Number,
+    default: 0
+  },
+  imagesFetched: {
+    type: Number,
+    default: 0
+  },
+  rowErrors: {
+    type: [RowErrorSchema],
+    default: []
+  },
+  imageErrors: {
+    type: [ImageErrorSchema],
+    default: []
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  },
+  finished_at: {
+    type: Date,
+    default: null
+  }
+});
+
+// Create indexes
+ImportJobSchema.index({ created_at: -1 });
+
+export const ImportJob = mongoose.models.ImportJob || mongoose.model<IImportJob>('ImportJob', ImportJobSchema);
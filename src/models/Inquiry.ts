@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ContactTime } from '@/types';
+
+export interface IInquiry extends Document {
+  property: mongoose.Types.ObjectId;
+  owner: mongoose.Types.ObjectId | null; // Owner of the listing when the inquiry came in
+  name: string;
+  email: string;
+  phone?: string;
+  message: string;
+  preferredContactTime: ContactTime;
+  read_at: Date | null;
+  replied_at: Date | null;
+  created_at: Date;
+}
+
+const InquirySchema = new Schema<IInquiry>({
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: true
+  },
+  owner: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  email: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  phone: {
+    type: String,
+    trim: true
+  },
+  message: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  preferredContactTime: {
+    type: String,
+    enum: ['any', 'morning', 'afternoon', 'evening'],
+    default: 'any'
+  },
+  read_at: {
+    type: Date,
+    default: null
+  },
+  replied_at: {
+    type: Date,
+    default: null
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Create indexes
+InquirySchema.index({ owner: 1, created_at: -1 });
+InquirySchema.index({ property: 1, created_at: -1 });
+
+export const Inquiry = mongoose.models.Inquiry || mongoose.model<IInquiry>('Inquiry', InquirySchema);
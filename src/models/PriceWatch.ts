@@ -0,0 +1,30 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPriceWatch extends Document {
+  user: mongoose.Types.ObjectId;
+  property: mongoose.Types.ObjectId;
+  created_at: Date;
+}
+
+const PriceWatchSchema = new Schema<IPriceWatch>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: true
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Create indexes
+PriceWatchSchema.index({ property: 1, user: 1 }, { unique: true });
+PriceWatchSchema.index({ user: 1 });
+
+export const PriceWatch = mongoose.models.PriceWatch || mongoose.model<IPriceWatch>('PriceWatch', PriceWatchSchema);
@@ -1,14 +1,87 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Query, Aggregate, PipelineStage } from 'mongoose';
+import { propertyStatuses } from '@/lib/propertyStatus';
+import {
+  GeoPoint,
+  PropertyAddress,
+  PropertyAttributes,
+  PropertyPriceChange,
+  PropertyStatus,
+  PropertyStatusChange
+} from '@/types';
 
 export interface IProperty extends Document {
   title: string;
   type: mongoose.Types.ObjectId;
   price: number;
+  priceHistory: PropertyPriceChange[];
+  reduced_at: Date | null; // Last price drop, while the price is below reducedFrom
+  reducedFrom: number | null;
   description: string;
   images: string[]; // UUID list
+  location?: GeoPoint;
+  address?: PropertyAddress;
+  attributes: PropertyAttributes;
+  status?: PropertyStatus;
+  statusHistory: PropertyStatusChange[];
+  owner?: mongoose.Types.ObjectId;
   created_at: Date;
+  deleted_at: Date | null;
 }
 
+const PointSchema = new Schema<GeoPoint>({
+  type: {
+    type: String,
+    enum: ['Point'],
+    required: true
+  },
+  coordinates: {
+    type: [Number],
+    required: true
+  }
+}, {
+  _id: false
+});
+
+const StatusChangeSchema = new Schema<PropertyStatusChange>({
+  from: {
+    type: String,
+    default: null
+  },
+  to: {
+    type: String,
+    required: true
+  },
+  changed_at: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+const PriceChangeSchema = new Schema<PropertyPriceChange>({
+  price: {
+    type: Number,
+    required: true
+  },
+  changed_at: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  _id: false
+});
+
+const AddressSchema = new Schema<PropertyAddress>({
+  street: { type: String, trim: true },
+  city: { type: String, trim: true },
+  state: { type: String, trim: true },
+  postalCode: { type: String, trim: true },
+  country: { type: String, trim: true }
+}, {
+  _id: false
+});
+
 const PropertySchema = new Schema<IProperty>({
   title: {
     type: String,
@@ -25,6 +98,21 @@ const PropertySchema = new Schema<IProperty>({
     required: true,
     min: 0
   },
+  // Every price the listing had, oldest first, see `applyPriceChange`.
+  // Listings stored before the history existed have none until their price changes.
+  // It grows with every change, so only the single-listing endpoint returns it.
+  priceHistory: {
+    type: [PriceChangeSchema],
+    default: []
+  },
+  reduced_at: {
+    type: Date,
+    default: null
+  },
+  reducedFrom: {
+    type: Number,
+    default: null
+  },
   description: {
     type: String,
     required: true,
@@ -34,18 +122,94 @@ const PropertySchema = new Schema<IProperty>({
     type: String,
     required: false
   }],
+  location: {
+    type: PointSchema,
+    required: false
+  },
+  address: {
+    type: AddressSchema,
+    required: false
+  },
+  attributes: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  // Set explicitly on create, listings created before statuses existed have
+  // none and are treated as published
+  status: {
+    type: String,
+    enum: propertyStatuses
+  },
+  statusHistory: {
+    type: [StatusChangeSchema],
+    default: []
+  },
+  // Listings created before accounts existed have no owner
+  owner: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: false
+  },
   created_at: {
     type: Date,
     default: Date.now
+  },
+  // Set when the listing is moved to the trash
+  deleted_at: {
+    type: Date,
+    default: null
   }
 }, {
   timestamps: true
 });
 
-// Create indexes
-PropertySchema.index({ title: 1 });
+// Create indexes (sort fields are paired with _id for cursor pagination)
+PropertySchema.index({ title: 1, _id: 1 });
 PropertySchema.index({ type: 1 });
-PropertySchema.index({ price: 1 });
-PropertySchema.index({ created_at: -1 });
+PropertySchema.index({ status: 1 });
+PropertySchema.index({ price: 1, _id: 1 });
+PropertySchema.index({ created_at: -1, _id: -1 });
+PropertySchema.index({ reduced_at: -1 });
+PropertySchema.index({ location: '2dsphere' });
+PropertySchema.index({ deleted_at: 1 });
+PropertySchema.index({ owner: 1 });
+PropertySchema.index(
+  { title: 'text', description: 'text' },
+  { weights: { title: 10, description: 2 }, name: 'property_text_search' }
+);
+
+// Soft-deleted listings are hidden from every query, unless the query filters
+// on deleted_at itself (the trash) or opts out with `{ withDeleted: true }`
+function excludeDeleted(this: Query<unknown, IProperty>) {
+  if (this.getOptions().withDeleted) return;
+  if ('deleted_at' in this.getFilter()) return;
+  this.where({ deleted_at: null });
+}
+
+PropertySchema.pre(
+  ['find', 'findOne', 'countDocuments', 'findOneAndUpdate', 'updateOne', 'updateMany'],
+  excludeDeleted
+);
+
+PropertySchema.pre('aggregate', function (this: Aggregate<unknown>) {
+  if (this.options.withDeleted) return;
+
+  const pipeline = this.pipeline();
+  const [first] = pipeline;
+
+  // $geoNear and $text matches have to stay the first stage, so merge into them
+  if (first && '$geoNear' in first) {
+    const query = first.$geoNear.query || {};
+    if (!('deleted_at' in query)) {
+      first.$geoNear.query = { ...query, deleted_at: null };
+    }
+  } else if (first && '$match' in first) {
+    if (!('deleted_at' in first.$match)) {
+      first.$match.deleted_at = null;
+    }
+  } else {
+    pipeline.unshift({ $match: { deleted_at: null } } as PipelineStage);
+  }
+});
 
 export const Property = mongoose.models.Property || mongoose.model<IProperty>('Property', PropertySchema); 
\ No newline at end of file
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { PropertyRevisionAction, PropertyFieldChange } from '@/types';
+
+export interface IPropertyRevision extends Document {
+  property: mongoose.Types.ObjectId;
+  action: PropertyRevisionAction;
+  changes: PropertyFieldChange[];
+  actor: mongoose.Types.ObjectId | null;
+  revertedTo?: mongoose.Types.ObjectId;
+  created_at: Date;
+}
+
+const FieldChangeSchema = new Schema<PropertyFieldChange>({
+  field: {
+    type: String,
+    required: true
+  },
+  from: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  to: {
+    type: Schema.Types.Mixed,
+    default: null
+  }
+}, {
+  _id: false
+});
+
+const PropertyRevisionSchema = new Schema<IPropertyRevision>({
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: true
+  },
+  action: {
+    type: String,
+    enum: ['create', 'update', 'images', 'status', 'delete', 'restore', 'purge', 'revert'],
+    required: true
+  },
+  changes: {
+    type: [FieldChangeSchema],
+    default: []
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  revertedTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'PropertyRevision',
+    required: false
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Create indexes
+PropertyRevisionSchema.index({ property: 1, created_at: -1, _id: -1 });
+
+export const PropertyRevision = mongoose.models.PropertyRevision || mongoose.model<IPropertyRevision>('PropertyRevision', PropertyRevisionSchema);
@@ -1,21 +1,63 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { PropertyAttributeDefinition } from '@/types';
 
 export interface IPropertyType extends Document {
   label: string;
+  attributes: PropertyAttributeDefinition[];
 }
 
+const AttributeDefinitionSchema = new Schema<PropertyAttributeDefinition>({
+  key: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  label: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: ['number', 'string', 'boolean'],
+    required: true
+  },
+  unit: {
+    type: String,
+    trim: true
+  },
+  required: {
+    type: Boolean,
+    default: false
+  },
+  allowedValues: [{
+    type: Schema.Types.Mixed
+  }]
+}, {
+  _id: false
+});
+
 const PropertyTypeSchema = new Schema<IPropertyType>({
   label: {
     type: String,
     required: true,
-    unique: true,
     trim: true
+  },
+  attributes: {
+    type: [AttributeDefinitionSchema],
+    default: []
   }
 }, {
   timestamps: true
 });
 
+// Labels compare case-insensitively, so "house" and "House" are the same type
+export const labelCollation = { locale: 'en', strength: 2 };
+
 // Create indexes
-PropertyTypeSchema.index({ label: 1 });
+PropertyTypeSchema.index(
+  { label: 1 },
+  { unique: true, collation: labelCollation, name: 'label_case_insensitive' }
+);
 
 export const PropertyType = mongoose.models.PropertyType || mongoose.model<IPropertyType>('PropertyType', PropertyTypeSchema); 
\ No newline at end of file
@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRateLimit extends Document {
+  key: string; // Rule name and client identity
+  count: number;
+  resetAt: Date;
+}
+
+const RateLimitSchema = new Schema<IRateLimit>({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  count: {
+    type: Number,
+    default: 0
+  },
+  resetAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Create indexes (MongoDB removes windows once they are over)
+RateLimitSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimit = mongoose.models.RateLimit || mongoose.model<IRateLimit>('RateLimit', RateLimitSchema);
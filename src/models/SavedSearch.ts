@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { SavedSearchParams } from '@/types';
+
+export interface ISavedSearch extends Document {
+  user: mongoose.Types.ObjectId;
+  name: string;
+  params: SavedSearchParams; // Validated listing filters
+  lastCheckedAt: Date; // Listings published after this are new matches
+  lastNotifiedAt: Date | null;
+  created_at: Date;
+}
+
+const SavedSearchSchema = new Schema<ISavedSearch>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  params: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  lastCheckedAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastNotifiedAt: {
+    type: Date,
+    default: null
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  minimize: false
+});
+
+// Create indexes
+SavedSearchSchema.index({ user: 1, created_at: -1 });
+
+export const SavedSearch = mongoose.models.SavedSearch || mongoose.model<ISavedSearch>('SavedSearch', SavedSearchSchema);
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISession extends Document {
+  tokenHash: string; // SHA-256 of the cookie token
+  user: mongoose.Types.ObjectId;
+  expires_at: Date;
+  created_at: Date;
+}
+
+const SessionSchema = new Schema<ISession>({
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  expires_at: {
+    type: Date,
+    required: true
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Create indexes (MongoDB removes sessions once they expire)
+SessionSchema.index({ user: 1 });
+SessionSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.models.Session || mongoose.model<ISession>('Session', SessionSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { userRoles } from '@/lib/roles';
+import { UserRole } from '@/types';
+
+export interface IUser extends Document {
+  email: string;
+  name: string;
+  passwordHash: string;
+  role: UserRole;
+  calendarToken?: string;
+  created_at: Date;
+}
+
+const UserSchema = new Schema<IUser>({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Never returned unless selected explicitly
+  passwordHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  role: {
+    type: String,
+    enum: userRoles,
+    default: 'viewer'
+  },
+  // Secret in the URL of the user's viewing calendar feed, which calendar
+  // apps fetch without a session
+  calendarToken: {
+    type: String,
+    select: false
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Create indexes
+UserSchema.index({ calendarToken: 1 }, { unique: true, sparse: true });
+
+export const User = mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
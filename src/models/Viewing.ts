@@ -0,0 +1,93 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ViewingStatus } from '@/types';
+
+export interface IViewing extends Document {
+  slot: mongoose.Types.ObjectId;
+  property: mongoose.Types.ObjectId;
+  host: mongoose.Types.ObjectId; // Owner of the slot
+  user: mongoose.Types.ObjectId; // Who booked it
+  start: Date;
+  end: Date;
+  name: string;
+  email: string;
+  phone?: string;
+  status: ViewingStatus;
+  sequence: number; // iCalendar SEQUENCE, bumped on every change sent to calendars
+  cancelled_at: Date | null;
+  created_at: Date;
+}
+
+const ViewingSchema = new Schema<IViewing>({
+  slot: {
+    type: Schema.Types.ObjectId,
+    ref: 'ViewingSlot',
+    required: true
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: true
+  },
+  host: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  email: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  phone: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['confirmed', 'cancelled'],
+    default: 'confirmed'
+  },
+  sequence: {
+    type: Number,
+    default: 0
+  },
+  cancelled_at: {
+    type: Date,
+    default: null
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Create indexes
+// A slot holds one confirmed booking, enforced by the database so concurrent
+// bookings cannot both succeed. Cancelled bookings free the slot again.
+ViewingSchema.index(
+  { slot: 1 },
+  { unique: true, partialFilterExpression: { status: 'confirmed' } }
+);
+ViewingSchema.index({ host: 1, start: 1 });
+ViewingSchema.index({ user: 1, start: 1 });
+
+export const Viewing = mongoose.models.Viewing || mongoose.model<IViewing>('Viewing', ViewingSchema);
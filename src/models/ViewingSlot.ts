@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IViewingSlot extends Document {
+  property: mongoose.Types.ObjectId;
+  owner: mongoose.Types.ObjectId; // Agent hosting the viewing
+  start: Date;
+  end: Date;
+  created_at: Date;
+}
+
+const ViewingSlotSchema = new Schema<IViewingSlot>({
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: true
+  },
+  owner: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  start: {
+    type: Date,
+    required: true
+  },
+  end: {
+    type: Date,
+    required: true
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Create indexes
+ViewingSlotSchema.index({ property: 1, start: 1 }, { unique: true });
+
+export const ViewingSlot = mongoose.models.ViewingSlot || mongoose.model<IViewingSlot>('ViewingSlot', ViewingSlotSchema);
@@ -1,4 +1,26 @@
 export { Property } from './Property';
 export { PropertyType } from './PropertyType';
+export { PropertyRevision } from './PropertyRevision';
+export { User } from './User';
+export { Session } from './Session';
+export { ApiKey } from './ApiKey';
+export { RateLimit } from './RateLimit';
+export { ImportJob } from './ImportJob';
+export { SavedSearch } from './SavedSearch';
+export { Inquiry } from './Inquiry';
+export { ViewingSlot } from './ViewingSlot';
+export { Viewing } from './Viewing';
+export { PriceWatch } from './PriceWatch';
 export type { IProperty } from './Property';
-export type { IPropertyType } from './PropertyType'; 
\ No newline at end of file
+export type { IPropertyType } from './PropertyType';
+export type { IPropertyRevision } from './PropertyRevision';
+export type { IUser } from './User';
+export type { ISession } from './Session';
+export type { IApiKey } from './ApiKey';
+export type { IRateLimit } from './RateLimit';
+export type { IImportJob } from './ImportJob';
+export type { ISavedSearch } from './SavedSearch';
+export type { IInquiry } from './Inquiry';
+export type { IViewingSlot } from './ViewingSlot';
+export type { IViewing } from './Viewing';
+export type { IPriceWatch } from './PriceWatch';
@@ -1,12 +1,30 @@
 import { PropertyType } from './PropertyType';
 
+const bedrooms = { key: 'bedrooms', label: 'Bedrooms', type: 'number', required: true };
+const bathrooms = { key: 'bathrooms', label: 'Bathrooms', type: 'number', required: true };
+const floorArea = { key: 'floorArea', label: 'Floor area', type: 'number', unit: 'm²', required: true };
+
 const defaultPropertyTypes = [
-  { label: 'House' },
-  { label: 'Apartment' },
-  { label: 'Office' },
-  { label: 'Land' },
-  { label: 'Condo' },
-  { label: 'Townhouse' }
+  { label: 'House', attributes: [bedrooms, bathrooms, floorArea] },
+  { label: 'Apartment', attributes: [bedrooms, bathrooms, floorArea, { key: 'floor', label: 'Floor', type: 'number' }] },
+  {
+    label: 'Office',
+    attributes: [floorArea, { key: 'parkingSpaces', label: 'Parking spaces', type: 'number' }]
+  },
+  {
+    label: 'Land',
+    attributes: [
+      { key: 'plotSize', label: 'Plot size', type: 'number', unit: 'm²', required: true },
+      {
+        key: 'zoning',
+        label: 'Zoning',
+        type: 'string',
+        allowedValues: ['residential', 'commercial', 'agricultural', 'industrial']
+      }
+    ]
+  },
+  { label: 'Condo', attributes: [bedrooms, bathrooms, floorArea] },
+  { label: 'Townhouse', attributes: [bedrooms, bathrooms, floorArea] }
 ];
 
 export async function seedPropertyTypes() {
@@ -2,10 +2,50 @@
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
+  // Human readable message, match on `code` instead
   error?: string;
+  // Stable identifier of the failure, see `errorCatalog`
+  code?: ErrorCode;
   message?: string;
+  // Per-field messages of a 422 validation failure, keyed by field name
+  errors?: Record<string, string>;
+  // Typed error set by apiClient on failures, e.g. NotFoundError or RateLimitError
+  cause?: Error;
 }
 
+export type ErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_JSON'
+  | 'INVALID_OBJECT_ID'
+  | 'INVALID_CURSOR'
+  | 'VALIDATION_FAILED'
+  | 'AUTHENTICATION_REQUIRED'
+  | 'INVALID_CREDENTIALS'
+  | 'INVALID_API_KEY'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'PROPERTY_NOT_FOUND'
+  | 'PROPERTY_TYPE_NOT_FOUND'
+  | 'REVISION_NOT_FOUND'
+  | 'USER_NOT_FOUND'
+  | 'API_KEY_NOT_FOUND'
+  | 'IMPORT_JOB_NOT_FOUND'
+  | 'SAVED_SEARCH_NOT_FOUND'
+  | 'INQUIRY_NOT_FOUND'
+  | 'SLOT_NOT_FOUND'
+  | 'VIEWING_NOT_FOUND'
+  | 'CONFLICT'
+  | 'EMAIL_TAKEN'
+  | 'PROPERTY_TYPE_EXISTS'
+  | 'PROPERTY_TYPE_IN_USE'
+  | 'INVALID_STATUS_TRANSITION'
+  | 'SLOT_OVERLAP'
+  | 'SLOT_BOOKED'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'RATE_LIMITED'
+  | 'STORAGE_NOT_CONFIGURED'
+  | 'INTERNAL_ERROR';
+
 export interface PaginatedResponse<T> extends ApiResponse<T> {
   pagination: {
     page: number;
@@ -13,8 +53,159 @@ export interface PaginatedResponse<T> extends ApiResponse<T> {
     total: number;
     totalPages: number;
   };
+  // Only set in cursor mode, null when there is no page in that direction
+  nextCursor?: string | null;
+  prevCursor?: string | null;
+  // Only set when requested with `facets=true`
+  facets?: PropertyFacets;
+}
+
+// Facet counts for the current listing query
+export interface PropertyFacets {
+  types: { _id: string; label: string; count: number }[];
+  price: { min: number; max: number | null; count: number }[]; // max is null for the open-ended last bucket
+}
+
+// GeoJSON point, coordinates are [longitude, latitude]
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+export interface PropertyAddress {
+  street?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+// Listing lifecycle
+export type PropertyStatus = 'draft' | 'published' | 'under_offer' | 'sold' | 'archived';
+
+export interface PropertyStatusChange {
+  from: PropertyStatus | null;
+  to: PropertyStatus;
+  changed_at: Date | string;
+}
+
+export interface PropertyPriceChange {
+  price: number;
+  changed_at: Date | string;
+}
+
+export interface PriceWatchStatus {
+  watching: boolean;
+}
+
+// Accounts
+export type UserRole = 'admin' | 'agent' | 'viewer';
+
+export type Permission =
+  | 'listings:read'
+  | 'listings:write'
+  | 'listings:moderate'
+  | 'images:upload'
+  | 'apiKeys:manage'
+  | 'propertyTypes:manage'
+  | 'seed:run'
+  | 'users:manage'
+  | 'listings:import'
+  | 'savedSearches:manage'
+  | 'savedSearches:run'
+  | 'inquiries:manage'
+  | 'viewings:book'
+  | 'viewings:manage'
+  | 'priceWatches:manage'
+  | 'session:manage'
+  | 'account:read';
+
+export interface AuthUser {
+  _id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface SignupData {
+  name: string;
+  email: string;
+  password: string;
+}
+
+export interface UpdateUserRoleData {
+  id: string;
+  role: UserRole;
+}
+
+// API keys for server-to-server clients, scopes are a subset of permissions
+export type ApiKeyScope = 'listings:read' | 'listings:write' | 'images:upload';
+
+export interface ApiKeyInfo {
+  _id: string;
+  name: string;
+  keyId: string; // Identifies the key, the secret is only shown once on creation
+  scopes: ApiKeyScope[];
+  lastUsedAt: Date | string | null;
+  revoked_at: Date | string | null;
+  created_at: Date | string;
+}
+
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string;
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface LoginData {
+  email: string;
+  password: string;
+}
+
+// Revision history
+export type PropertyRevisionAction =
+  | 'create'
+  | 'update'
+  | 'images'
+  | 'status'
+  | 'delete'
+  | 'restore'
+  | 'purge'
+  | 'revert';
+
+export interface PropertyFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface PropertyRevision {
+  _id: string;
+  property: string;
+  action: PropertyRevisionAction;
+  changes: PropertyFieldChange[];
+  actor: { _id: string; name: string } | null;
+  revertedTo?: string;
+  created_at: Date | string;
+}
+
+// Custom attributes declared per PropertyType
+export type PropertyAttributeType = 'number' | 'string' | 'boolean';
+
+export interface PropertyAttributeDefinition {
+  key: string; // Stored as `attributes.<key>` on the property
+  label: string;
+  type: PropertyAttributeType;
+  unit?: string;
+  required?: boolean;
+  allowedValues?: (string | number)[];
 }
 
+export type PropertyAttributes = Record<string, string | number | boolean>;
+
 // Property creation/update types
 export interface CreatePropertyData {
   title: string;
@@ -22,12 +213,29 @@ export interface CreatePropertyData {
   price: number;
   description: string;
   images?: string[];
+  location?: GeoPoint | null;
+  address?: PropertyAddress | null;
+  attributes?: PropertyAttributes; // Validated against the PropertyType's attribute definitions
 }
 
 export interface UpdatePropertyData extends Partial<CreatePropertyData> {
   id: string;
 }
 
+// PropertyType creation/update types
+export interface CreatePropertyTypeData {
+  label: string;
+  attributes?: PropertyAttributeDefinition[];
+}
+
+export interface UpdatePropertyTypeData extends Partial<CreatePropertyTypeData> {
+  id: string;
+}
+
+export interface DeletePropertyTypeOptions {
+  reassignTo?: string; // PropertyType ObjectId that receives the listings of the deleted type
+}
+
 // Query parameters
 export interface PropertyQueryParams {
   page?: number;
@@ -36,14 +244,154 @@ export interface PropertyQueryParams {
   minPrice?: number;
   maxPrice?: number;
   search?: string;
-  sortBy?: 'price' | 'created_at' | 'title';
+  recentlyReduced?: boolean; // Only listings whose price dropped in the last 30 days
+  // relevance requires search, distance requires near; neither works in cursor mode, nor does reduced_at
+  sortBy?: 'price' | 'created_at' | 'title' | 'relevance' | 'distance' | 'reduced_at';
   sortOrder?: 'asc' | 'desc';
+  // Opaque cursor from a previous response; pass an empty string to start cursor mode
+  cursor?: string;
+  status?: string; // Comma-separated PropertyStatus list or "all", defaults to published
+  attributes?: Record<string, { min?: number; max?: number }>; // Range filters on numeric attributes
+  near?: string; // "lng,lat"; results then include `distance` in meters
+  radius?: number; // Meters around `near`
+  within?: string; // Bounding box "minLng,minLat,maxLng,maxLat" or polygon "lng,lat;lng,lat;lng,lat;..."
+  facets?: boolean;
+  priceBuckets?: number[]; // Price bucket lower boundaries for the facet histogram
+}
+
+// Full-text search highlights, offsets index into `text`
+export interface SearchHighlight {
+  text: string;
+  matches: { start: number; end: number }[];
+}
+
+export interface PropertySearchHighlights {
+  title?: SearchHighlight;
+  description?: SearchHighlight; // Snippet around the first match
 }
 
 // Property statistics
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+// The listing filters and sort, exports are not paginated
+export type PropertyExportParams = Omit<PropertyQueryParams, 'page' | 'limit' | 'cursor' | 'facets' | 'priceBuckets'> & {
+  format?: ExportFormat; // Defaults to csv
+};
+
+// Filters a saved search keeps, it always matches published listings
+export type SavedSearchParams = Pick<PropertyQueryParams, 'type' | 'minPrice' | 'maxPrice' | 'search' | 'attributes'>;
+
+export interface SavedSearch {
+  _id: string;
+  name: string;
+  params: SavedSearchParams;
+  lastCheckedAt: Date | string; // New listings are matched from here on
+  lastNotifiedAt: Date | string | null;
+  created_at: Date | string;
+}
+
+export interface CreateSavedSearchData {
+  name: string;
+  params: SavedSearchParams;
+}
+
+export interface SavedSearchRunResult {
+  checked: number; // Saved searches checked
+  matched: number; // New listings found across all of them
+  notified: number; // Digests delivered, one per user with matches
+  failed: number; // Searches that could not be checked and digests that could not be delivered, retried on the next run
+}
+
+export type ContactTime = 'any' | 'morning' | 'afternoon' | 'evening';
+
+export type InquiryState = 'new' | 'read' | 'replied';
+
+export interface CreateInquiryData {
+  name: string;
+  email: string;
+  phone?: string;
+  message: string;
+  preferredContactTime?: ContactTime;
+  website?: string; // Honeypot, left empty by people and filled in by bots
+}
+
+export interface Inquiry {
+  _id: string;
+  property: { _id: string; title: string } | string;
+  name: string;
+  email: string;
+  phone?: string;
+  message: string;
+  preferredContactTime: ContactTime;
+  read_at: Date | string | null;
+  replied_at: Date | string | null;
+  created_at: Date | string;
+}
+
+export interface InquiryQueryParams {
+  page?: number;
+  limit?: number;
+  property?: string; // Property id
+  state?: InquiryState;
+}
+
+export interface InquiryInboxResponse extends PaginatedResponse<Inquiry[]> {
+  unread?: number; // New inquiries in the inbox, whatever the state filter
+}
+
+export interface UpdateInquiryData {
+  id: string;
+  read?: boolean;
+  replied?: boolean;
+}
+
+export interface ViewingSlot {
+  _id: string;
+  property: string;
+  start: Date | string;
+  end: Date | string;
+  booked: boolean;
+  viewing?: Viewing; // Only for the listing's owner, when the slot is booked
+}
+
+export interface CreateViewingSlotData {
+  start: string; // ISO date-time
+  end: string;
+}
+
+export type ViewingStatus = 'confirmed' | 'cancelled';
+
+export interface Viewing {
+  _id: string;
+  slot: string;
+  property: { _id: string; title: string } | string;
+  start: Date | string;
+  end: Date | string;
+  name: string;
+  email: string;
+  phone?: string;
+  status: ViewingStatus;
+  isHost: boolean; // Whether the viewing is on one of your listings, rather than one you booked
+  cancelled_at: Date | string | null;
+  created_at: Date | string;
+}
+
+export interface BookViewingData {
+  slot: string; // ViewingSlot id
+  phone?: string;
+}
+
+export interface ViewingCalendar {
+  url: string | null; // iCalendar feed of the viewings on your listings, null until created
+}
+
+export type FeedFormat = 'atom' | 'rss' | 'json';
+
+export type PropertyStatsParams = Pick<PropertyQueryParams, 'type' | 'minPrice' | 'maxPrice' | 'search'>;
+
 export interface PropertyStats {
   total: number;
-  byType: Record<string, number>;
+  byType: Record<string, number>; // Keyed by PropertyType label
   averagePrice: number;
   priceRange: { min: number; max: number };
 }
@@ -51,4 +399,52 @@ export interface PropertyStats {
 // Upload response
 export interface UploadResponse {
   urls: string[];
+}
+
+// Bulk import of listings
+export type ImportFormat = 'csv' | 'json';
+
+export type ImportJobStatus = 'running' | 'completed' | 'failed';
+
+export interface ImportOptions {
+  fetchImages?: boolean; // Copy image URLs into storage instead of linking them
+  publish?: boolean; // Publish the listings instead of creating drafts
+}
+
+// Rows are numbered from 1, not counting the CSV header
+export interface ImportRowError {
+  row: number;
+  errors: Record<string, string>; // Keyed by field like the 422 validation errors
+}
+
+export interface ImportImageError {
+  row: number;
+  url: string;
+  error: string;
+}
+
+export interface ImportPreview {
+  total: number;
+  valid: number;
+  invalid: number;
+  rowErrors: ImportRowError[];
+}
+
+export interface ImportJob {
+  _id: string;
+  fileName: string;
+  format: ImportFormat;
+  status: ImportJobStatus;
+  fetchImages: boolean;
+  publish: boolean;
+  total: number; // Valid rows to import, invalid ones are only reported
+  processed: number;
+  created: number;
+  failed: number;
+  imagesFetched: number;
+  rowErrors: ImportRowError[];
+  imageErrors: ImportImageError[];
+  error: string | null;
+  created_at: Date | string;
+  finished_at: Date | string | null;
 } 
\ No newline at end of file